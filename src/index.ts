@@ -1,6 +1,5 @@
 import express from "express"
 import cors from "cors"
-import chalk from "chalk"
 import path from "path"
 import { fileURLToPath } from "url"
 import { StreamableHTTPServerTransport } from "@modelcontextprotocol/sdk/server/streamableHttp.js"
@@ -9,13 +8,56 @@ import { randomUUID } from "crypto"
 import {
   logClientMessage,
   logServerMessage,
+  logSessionCreating,
   logSessionInitialized,
+  logSessionRequest,
+  logSessionReused,
   logSessionClosed,
   logSessionRequestFailed,
   logServerStarted,
+  logProbeServerStarted,
+  logSelfLintFailed,
 } from "./utils/logger.js"
 import { initMcpAppServer } from "./mcp-app-server.js"
-import { BASE_URL, PORT } from "./utils/constants.js"
+import {
+  BASE_URL,
+  CSP_PROBE_PATH,
+  PORT,
+  MAX_SESSIONS,
+  PROBE_PORT,
+  PROBE_SERVER,
+  SESSION_IDLE_TIMEOUT_MS,
+  SESSION_SWEEP_INTERVAL_MS,
+  SSE_RETRY_INTERVAL_MS,
+} from "./utils/constants.js"
+import { createResultsRouter } from "./utils/result-store.js"
+import { lintServerMetadata } from "./utils/self-lint.js"
+import {
+  createDeferredEventStore,
+  createEventStore,
+  deleteEventStore,
+} from "./utils/event-store.js"
+import { recordSession } from "./utils/session-recording.js"
+import {
+  SESSION_CLOSE_REASONS,
+  createSessionManager,
+  describeClosedSession,
+} from "./utils/session-manager.js"
+import {
+  createSessionActivity,
+  deleteSessionActivity,
+  recordClientMessage,
+  recordServerMessage,
+} from "./utils/session-activity.js"
+import { createSessionAdminRouter } from "./utils/session-admin.js"
+import {
+  attachCspProbeWebSocket,
+  createCspProbeRouter,
+  startCspProbeServer,
+} from "./utils/csp-probes.js"
+import { createTrafficViewerRouter } from "./utils/traffic-viewer.js"
+import { createReportsRouter } from "./utils/conformance-report.js"
+import { createMcpBodyParser } from "./utils/payload.js"
 
 const __filename = fileURLToPath(import.meta.url)
 const __dirname = path.dirname(__filename)
@@ -29,6 +71,7 @@ app.use(
     allowedHeaders: ["Content-Type", "mcp-session-id"],
   })
 )
+app.use("/mcp", createMcpBodyParser())
 app.use(express.json())
 
 // Serve static assets (audio files, etc.) from the assets directory
@@ -45,11 +88,47 @@ const shellDir = path.join(staticDir, "shell")
 app.use("/shell", express.static(shellDir))
 
 // =============================================================================
-// Transport Maps - Separate maps for each endpoint
+// Sessions - /mcp transports by session ID, closed when idle or evicted
 // =============================================================================
 
-// Map to store transports by session ID for /mcp (OpenAI Apps SDK mode)
-const mcpTransports: { [sessionId: string]: StreamableHTTPServerTransport } = {}
+const mcpSessions = createSessionManager<StreamableHTTPServerTransport>({
+  idleTimeoutMs: SESSION_IDLE_TIMEOUT_MS,
+  maxSessions: MAX_SESSIONS,
+  sweepIntervalMs: SESSION_SWEEP_INTERVAL_MS,
+  onClosed: (sessionId, reason, remaining) => {
+    deleteSessionActivity(sessionId)
+    logSessionClosed(
+      sessionId,
+      remaining,
+      "/mcp",
+      SESSION_CLOSE_REASONS[reason]
+    )
+  },
+})
+
+// A 404 tells the client its session is gone and it must initialize again
+const sendSessionGone = (
+  req: express.Request,
+  res: express.Response,
+  sessionId: string
+) => {
+  const message = describeClosedSession(
+    sessionId,
+    mcpSessions.getClosed(sessionId)
+  )
+  logSessionRequestFailed(
+    req.method,
+    sessionId,
+    mcpSessions.size,
+    "/mcp",
+    message
+  )
+  res.status(404).json({
+    jsonrpc: "2.0",
+    error: { code: -32001, message },
+    id: null,
+  })
+}
 
 // =============================================================================
 // /mcp Route - Original OpenAI Apps SDK Implementation
@@ -66,45 +145,57 @@ app.post("/mcp", async (req, res) => {
   const sessionId = req.headers["mcp-session-id"] as string | undefined
   let transport: StreamableHTTPServerTransport
 
-  if (sessionId && mcpTransports[sessionId]) {
+  if (sessionId && mcpSessions.get(sessionId)) {
     // A session already exists; reuse the existing transport.
-    console.log(
-      chalk.gray(`♻️  [/mcp] Reusing transport for session: ${sessionId}`)
-    )
-    transport = mcpTransports[sessionId]
+    logSessionReused(sessionId, "/mcp")
+    transport = mcpSessions.get(sessionId)!
   } else if (!sessionId && isInitializeRequest(req.body)) {
     // This is a new initialization request. Create a new transport.
-    console.log(chalk.yellow("🔄 [/mcp] Creating new MCP session..."))
+    logSessionCreating("/mcp")
+    // The session ID is chosen up front so the event store can be keyed by it
+    const newSessionId = randomUUID()
     transport = new StreamableHTTPServerTransport({
-      sessionIdGenerator: () => randomUUID(),
+      sessionIdGenerator: () => newSessionId,
+      // Hosts can resume dropped streams with Last-Event-ID. The store itself
+      // is created once initialize succeeds
+      eventStore: createDeferredEventStore(newSessionId),
+      retryInterval: SSE_RETRY_INTERVAL_MS,
       onsessioninitialized: (sid) => {
-        mcpTransports[sid] = transport
-        logSessionInitialized(sid, Object.keys(mcpTransports).length, "/mcp")
+        createEventStore(sid)
+        mcpSessions.add(sid, transport)
+        // The initialize request is in flight until its response closes
+        if (!res.closed) res.on("close", mcpSessions.beginRequest(sid))
+        createSessionActivity(sid)
+        logSessionInitialized(sid, mcpSessions.size, "/mcp")
       },
     })
 
+    // Recorded for `pnpm replay` when RECORD_SESSIONS_DIR is set
+    const recorder = recordSession(newSessionId)
+
     // Log incoming messages from the client
     transport.onmessage = (message) => {
       logClientMessage(transport.sessionId, message)
+      recordClientMessage(newSessionId, message)
+      recorder?.record("client", message)
     }
 
     // Wrap the transport's send method to log outgoing messages
     const originalSend = transport.send.bind(transport)
     transport.send = async (message, options) => {
       logServerMessage(transport.sessionId, message)
+      recordServerMessage(newSessionId, message)
+      recorder?.record("server", message)
       return originalSend(message, options)
     }
 
-    // Clean up the transport from our map when the session closes.
+    // Forget the session when it closes. Sessions the server closed itself
+    // (idle or evicted) are already gone, so this only logs client closes
     transport.onclose = () => {
       if (transport.sessionId) {
-        logSessionClosed(
-          transport.sessionId,
-          Object.keys(mcpTransports).length - 1,
-          "/mcp"
-        )
-        delete mcpTransports[transport.sessionId]
+        void mcpSessions.close(transport.sessionId, "client")
       }
+      void deleteEventStore(newSessionId)
     }
 
     // Create and configure the MCP server for this session (OpenAI Apps SDK mode)
@@ -112,12 +203,18 @@ app.post("/mcp", async (req, res) => {
 
     // Connect the server instance to the transport for this session.
     await server.connect(transport)
+  } else if (sessionId) {
+    return sendSessionGone(req, res, sessionId)
   } else {
     return res.status(400).json({
       error: { message: "Bad Request: No valid session ID provided" },
     })
   }
 
+  // The session can't go idle while the request is being answered. The
+  // initialize request is counted once its session exists
+  if (sessionId) res.on("close", mcpSessions.beginRequest(sessionId))
+
   // Handle the client's request using the session's transport.
   await transport.handleRequest(req, res, req.body)
 })
@@ -128,26 +225,21 @@ const handleMcpSessionRequest = async (
   res: express.Response
 ) => {
   const sessionId = req.headers["mcp-session-id"] as string | undefined
-  const methodIcon = req.method === "GET" ? "📥" : "🗑️"
-  const methodColor = req.method === "GET" ? chalk.cyan : chalk.red
-
-  if (!sessionId || !mcpTransports[sessionId]) {
-    logSessionRequestFailed(
-      req.method,
-      sessionId,
-      Object.keys(mcpTransports).length,
-      "/mcp"
-    )
+  if (!sessionId) {
+    logSessionRequestFailed(req.method, sessionId, mcpSessions.size, "/mcp")
     return res.status(404).send("Session not found")
   }
 
-  console.log(
-    methodColor(
-      `${methodIcon} [/mcp] ${req.method} request for session: ${sessionId}`
-    )
-  )
+  const transport = mcpSessions.get(sessionId)
+  if (!transport) {
+    return sendSessionGone(req, res, sessionId)
+  }
+
+  logSessionRequest(req.method, sessionId, "/mcp")
 
-  const transport = mcpTransports[sessionId]
+  // A GET stream stays open for the whole session, so only its opening and
+  // closing count as activity
+  res.on("close", mcpSessions.beginStream(sessionId))
   await transport.handleRequest(req, res)
 }
 
@@ -157,10 +249,58 @@ app.get("/mcp", handleMcpSessionRequest)
 // DELETE handles explicit session termination from the client.
 app.delete("/mcp", handleMcpSessionRequest)
 
+// =============================================================================
+// /results Route - Inspector results reported by the apps
+// =============================================================================
+
+app.use("/results", createResultsRouter())
+
+// =============================================================================
+// /reports Route - Host conformance reports (JSON, Markdown, HTML)
+// =============================================================================
+
+app.use("/reports", createReportsRouter())
+
+// =============================================================================
+// /admin/sessions Route - Active sessions as JSON or an HTML dashboard, for
+// holders of ADMIN_TOKEN
+// =============================================================================
+
+app.use("/admin/sessions", createSessionAdminRouter(mcpSessions))
+
+// =============================================================================
+// /traffic Route - Live JSON-RPC traffic viewer over SSE
+// =============================================================================
+
+app.use("/traffic", createTrafficViewerRouter())
+
+// =============================================================================
+// /probes Route - CSP probe endpoints on the declared (allowed) origin
+// =============================================================================
+
+app.use(CSP_PROBE_PATH, createCspProbeRouter())
+
 // =============================================================================
 // Start Server
 // =============================================================================
 
-app.listen(PORT, () => {
+// Refuse to serve metadata hosts would reject
+const selfLintIssues = await lintServerMetadata(initMcpAppServer())
+if (selfLintIssues.length > 0) {
+  logSelfLintFailed(selfLintIssues)
+  process.exit(1)
+}
+
+const httpServer = app.listen(PORT, () => {
   logServerStarted(PORT)
 })
+mcpSessions.start()
+attachCspProbeWebSocket(httpServer)
+
+// The same probes on an origin no resource declares, unless a separate
+// probe deployment serves it
+if (PROBE_SERVER === "local") {
+  startCspProbeServer(PROBE_PORT, () => {
+    logProbeServerStarted(PROBE_PORT)
+  })
+}
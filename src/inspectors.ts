@@ -0,0 +1,838 @@
+/**
+ * Inspector registry.
+ *
+ * Each entry declares one inspector: its UI resource (URI, HTML template,
+ * CSP, permissions) and the tool that renders it. `initMcpAppServer` derives
+ * both registrations from these entries. The footer navigation in shell.js is
+ * generated from the `nav` field, and the launcher cards on the start page
+ * from the `launcher` field.
+ */
+
+import { z } from "zod"
+import type {
+  InspectorConfig,
+  InspectorLauncherEntry,
+  InspectorNavEntry,
+  UIResourceCSP,
+  UIResourcePermissions,
+  ZodSchemaShape,
+} from "./types/mcp-apps.js"
+import {
+  APP_DOMAIN,
+  BASE_URL,
+  CSP_PROBE_PATH,
+  EVENT_STORE_KIND,
+  MCP_APPS_UI_RESOURCE_SCHEME,
+  PAYLOAD_HTML_PADDING_BYTES,
+  PAYLOAD_MAX_BYTES,
+  PAYLOAD_SIZE_TOOL_NAME,
+  PROBE_BASE_URL,
+  RESUMABILITY_PROBE_TOOL_NAME,
+  RESUMABILITY_STATUS_TOOL_NAME,
+  SERVER_LOG_EMIT_TOOL_NAME,
+  SSE_RETRY_INTERVAL_MS,
+  TOOL_LIST_CONTROL_TOOL_NAME,
+} from "./utils/constants.js"
+import { LOG_LEVELS, SERVER_LOGGER } from "./utils/server-logging.js"
+import { TOOL_ERROR_CASES } from "./utils/tool-errors.js"
+
+/** Resource domains every inspector needs (shell assets and Google Fonts) */
+export const DEFAULT_RESOURCE_DOMAINS = [
+  BASE_URL,
+  "https://fonts.googleapis.com",
+  "https://fonts.gstatic.com",
+]
+
+const DEFAULT_CSP: UIResourceCSP = {
+  resourceDomains: DEFAULT_RESOURCE_DOMAINS,
+}
+
+// Declared by the sandbox proxy inspector and echoed in its tool result, so
+// the app can compare the declaration with what the host delivered
+const SANDBOX_PROXY_CSP: UIResourceCSP = {
+  connectDomains: [BASE_URL],
+  resourceDomains: DEFAULT_RESOURCE_DOMAINS,
+}
+const SANDBOX_PROXY_PERMISSIONS: UIResourcePermissions = {
+  clipboardWrite: {},
+}
+
+// Declares every CSP directive precisely: the server's own origin is allowed,
+// the probe origin on the second port is not
+const CSP_ENFORCEMENT_CSP: UIResourceCSP = {
+  connectDomains: [BASE_URL, BASE_URL.replace(/^http/, "ws")],
+  resourceDomains: DEFAULT_RESOURCE_DOMAINS,
+  frameDomains: [BASE_URL],
+  baseUriDomains: [BASE_URL],
+}
+
+const ALL_PERMISSIONS: UIResourcePermissions = {
+  camera: {},
+  microphone: {},
+  geolocation: {},
+  clipboardWrite: {},
+}
+
+const payloadSizeOutputSchema = {
+  payloadTool: z.string().describe("Tool that returns payloads of a size"),
+  maxBytes: z.number().describe("Largest payload to try, in bytes"),
+  htmlPaddingBytes: z
+    .number()
+    .describe("Bytes of padding the server added to this app's HTML"),
+}
+
+/**
+ * Build the `ui://` URI for an inspector name.
+ */
+export function inspectorUri(name: string): `ui://${string}` {
+  return `${MCP_APPS_UI_RESOURCE_SCHEME}${name}`
+}
+
+/**
+ * Define an inspector with handler arguments typed from its input schema.
+ */
+export function defineInspector<TShape extends ZodSchemaShape = {}>(
+  config: Omit<InspectorConfig<z.infer<z.ZodObject<TShape>>>, "uri" | "csp"> & {
+    inputSchema?: TShape
+    uri?: `ui://${string}`
+    csp?: UIResourceCSP
+  }
+): InspectorConfig {
+  return {
+    prefersBorder: true,
+    ...config,
+    uri: config.uri ?? inspectorUri(config.name),
+    csp: config.csp ?? DEFAULT_CSP,
+  } as InspectorConfig
+}
+
+/**
+ * Define a permissions inspector variant. Every variant renders the same app,
+ * which reads the declaration back from the tool result and compares it with
+ * what the host's iframe allows.
+ */
+function definePermissionsInspector(config: {
+  name: string
+  title: string
+  description: string
+  permissions: UIResourcePermissions
+  nav?: InspectorConfig["nav"]
+  launcher?: InspectorConfig["launcher"]
+}): InspectorConfig {
+  const declared = Object.keys(config.permissions)
+
+  return defineInspector({
+    name: config.name,
+    appName: "permissions",
+    title: config.title,
+    description: config.description,
+    nav: config.nav,
+    launcher: config.launcher,
+    permissions: config.permissions,
+    outputSchema: {
+      inspector: z.string().describe("Name of this permissions variant"),
+      declared: z
+        .record(z.object({}))
+        .describe("The _meta.ui.permissions declared by the resource"),
+    },
+    handler: async () => ({
+      text: `${config.title} loaded. Declared permissions: ${declared.length > 0 ? declared.join(", ") : "none"}`,
+      structuredContent: {
+        inspector: config.name,
+        declared: config.permissions,
+      },
+    }),
+  })
+}
+
+// Resources that take part in the dedicated-origin comparison. The first two
+// share a domain; the third is the host's default origin for comparison
+const DEDICATED_ORIGIN_VARIANTS = [
+  { name: "inspect-dedicated-origin", domain: APP_DOMAIN },
+  { name: "inspect-dedicated-origin-peer", domain: APP_DOMAIN },
+  { name: "inspect-dedicated-origin-default", domain: null },
+]
+
+/**
+ * Define a dedicated-origin inspector variant. Every variant renders the same
+ * app and leaves a marker in storage, so the variants can see whether they
+ * share an origin.
+ */
+function defineDedicatedOriginInspector(config: {
+  name: string
+  title: string
+  description: string
+  nav?: InspectorConfig["nav"]
+  launcher?: InspectorConfig["launcher"]
+}): InspectorConfig {
+  const domain =
+    DEDICATED_ORIGIN_VARIANTS.find((variant) => variant.name === config.name)
+      ?.domain ?? null
+
+  return defineInspector({
+    name: config.name,
+    appName: "dedicated-origin",
+    title: config.title,
+    description: config.description,
+    nav: config.nav,
+    launcher: config.launcher,
+    ...(domain ? { domain } : {}),
+    outputSchema: {
+      inspector: z.string().describe("Name of this dedicated-origin variant"),
+      domain: z
+        .string()
+        .nullable()
+        .describe("The _meta.ui.domain declared by the resource"),
+      variants: z
+        .array(z.object({ name: z.string(), domain: z.string().nullable() }))
+        .describe("Every dedicated-origin variant and its declared domain"),
+    },
+    handler: async () => ({
+      text: `${config.title} loaded. Declared domain: ${domain ?? "none"}`,
+      structuredContent: {
+        inspector: config.name,
+        domain,
+        variants: DEDICATED_ORIGIN_VARIANTS,
+      },
+    }),
+  })
+}
+
+// =============================================================================
+// Inspectors
+// =============================================================================
+
+export const INSPECTORS: InspectorConfig[] = [
+  // Main launcher
+  defineInspector({
+    name: "mcp-app-bench",
+    appName: "mcp-app-bench",
+    title: "MCP App Bench",
+    description:
+      "An interactive bench test launcher to evaluate MCP host support for MCP Apps",
+    inputSchema: {
+      name: z.string().describe("The name of the MCP app to test").optional(),
+    },
+    outputSchema: {
+      name: z.string().describe("The name of the MCP app to test").optional(),
+    },
+    handler: async (args) => ({
+      text: `MCP App Bench launcher loaded. Select an inspector to begin testing.`,
+      structuredContent: { name: args.name ?? "mcp-app-bench" },
+    }),
+  }),
+
+  defineInspector({
+    name: "inspect-host-info",
+    appName: "host-info",
+    title: "Host Info Inspector",
+    description:
+      "Inspect host context, capabilities, protocol version, and validate against the HostContext schema",
+    nav: { icon: "🖥️", label: "Host Info" },
+    launcher: {
+      icon: "✅",
+      title: "Host Conformance",
+      description:
+        "Check host conformance against the HostContext schema. Measures coverage of expected properties and flags any issues.",
+    },
+    inputSchema: {
+      user_message: z
+        .string()
+        .describe("The last message the user sent to the agent")
+        .optional(),
+    },
+    outputSchema: {
+      user_message: z
+        .string()
+        .describe("The last message the user sent to the agent")
+        .optional(),
+    },
+    handler: async (args) => ({
+      text: `Host Info Inspector loaded. Displaying host context and capabilities.`,
+      structuredContent: {
+        ...(args.user_message ? { user_message: args.user_message } : {}),
+      },
+    }),
+  }),
+
+  defineInspector({
+    name: "inspect-host-styles",
+    appName: "host-styles",
+    title: "Host Styles Inspector",
+    description:
+      "Visualize host-provided CSS variables, typography, colors, shadows, and border radius tokens",
+    nav: { icon: "🎨", label: "Styles" },
+    launcher: {
+      icon: "🎨",
+      title: "Host Styles",
+      description:
+        "Visualize host-provided CSS variables, typography, colors, shadows, and border radius tokens.",
+    },
+    handler: async () => ({
+      text: `Host Styles Inspector loaded. Displaying host-provided style tokens.`,
+      structuredContent: {},
+    }),
+  }),
+
+  defineInspector({
+    name: "inspect-messaging",
+    appName: "messaging",
+    title: "Messaging Inspector",
+    description:
+      "Test UI↔Host and UI↔Server messaging. Monitor requests, responses, and notifications",
+    nav: { icon: "💬", label: "Messaging" },
+    launcher: {
+      icon: "💬",
+      title: "Messaging",
+      description:
+        "Test UI↔Host and UI↔Server messaging. Monitor requests, responses, and notifications.",
+    },
+    handler: async () => ({
+      text: `Messaging Inspector loaded. Use the buttons to test messaging capabilities.`,
+      structuredContent: {},
+    }),
+  }),
+
+  defineInspector({
+    name: "inspect-tool-data",
+    appName: "tool-data",
+    title: "Tool Data Inspector",
+    description:
+      "Inspect tool lifecycle events: input, partial input, results, and cancellation",
+    nav: { icon: "🔧", label: "Tool Data" },
+    launcher: {
+      icon: "🔧",
+      title: "Tool Data",
+      description:
+        "Inspect tool lifecycle events: input, partial input, results, and cancellation.",
+    },
+    handler: async () => ({
+      text: `Tool Data Inspector loaded. Tool lifecycle events will be displayed here.`,
+      structuredContent: {},
+      _meta: {
+        foo: "bar",
+      },
+    }),
+  }),
+
+  // Display Modes (all modes: inline, fullscreen, pip)
+  defineInspector({
+    name: "inspect-display-modes",
+    appName: "display-modes",
+    title: "Display Modes Inspector",
+    description:
+      "Test display mode switching between inline, fullscreen, and pip modes",
+    nav: { icon: "🖼️", label: "Display Modes" },
+    launcher: {
+      icon: "🖼️",
+      title: "Display Modes",
+      description:
+        "Test display mode switching between inline, fullscreen, and pip. Request mode changes and observe host responses.",
+    },
+    handler: async () => ({
+      text: `Display Modes Inspector loaded. Declared modes: inline, fullscreen, pip`,
+      structuredContent: {},
+    }),
+  }),
+
+  // Display Modes (inline + pip only)
+  defineInspector({
+    name: "inspect-display-modes-inline-pip",
+    appName: "display-modes-inline-pip",
+    title: "Display Modes Inspector (Inline + PiP)",
+    description:
+      "Test display mode switching with only inline and pip modes declared",
+    handler: async () => ({
+      text: `Display Modes Inspector loaded. Declared modes: inline, pip`,
+      structuredContent: {},
+    }),
+  }),
+
+  // Display Modes (inline + fullscreen only)
+  defineInspector({
+    name: "inspect-display-modes-inline-fullscreen",
+    appName: "display-modes-inline-fullscreen",
+    title: "Display Modes Inspector (Inline + Fullscreen)",
+    description:
+      "Test display mode switching with only inline and fullscreen modes declared",
+    handler: async () => ({
+      text: `Display Modes Inspector loaded. Declared modes: inline, fullscreen`,
+      structuredContent: {},
+    }),
+  }),
+
+  // Display Modes (undeclared — only declares inline, but UI has fullscreen/pip buttons)
+  defineInspector({
+    name: "inspect-display-modes-undeclared",
+    appName: "display-modes-undeclared",
+    title: "Display Modes Inspector (Undeclared)",
+    description:
+      "Test that the host respects declared modes — this app only declares inline but renders fullscreen/pip buttons",
+    handler: async () => ({
+      text: `Display Modes Inspector loaded. Declared modes: inline only (fullscreen/pip undeclared but UI has buttons)`,
+      structuredContent: {},
+    }),
+  }),
+
+  defineInspector({
+    name: "inspect-transparency",
+    appName: "transparency",
+    title: "Transparency Inspector",
+    launcher: {
+      icon: "👻",
+      title: "Transparency",
+      description:
+        "Test whether the host allows iframe transparency across light and dark color schemes.",
+    },
+    description:
+      "Test whether the host allows iframe transparency across light and dark color schemes",
+    prefersBorder: false,
+    handler: async () => ({
+      text: `Transparency Inspector loaded. Checking iframe transparency across color schemes.`,
+      structuredContent: {},
+    }),
+  }),
+
+  // Visibility test tools are registered separately in initMcpAppServer
+  defineInspector({
+    name: "inspect-visibility",
+    appName: "visibility",
+    title: "Visibility Inspector",
+    description:
+      "Test that the host respects _meta.ui.visibility on tools, hiding app-only tools from the model",
+    toolDescription:
+      "Open the visibility inspector to test _meta.ui.visibility filtering",
+    handler: async () => ({
+      text: `Visibility Inspector loaded. This page tests that hosts correctly filter tools based on _meta.ui.visibility.`,
+      structuredContent: {},
+    }),
+  }),
+
+  defineInspector({
+    name: "inspect-model-context",
+    appName: "model-context",
+    title: "Model Context Inspector",
+    description:
+      "Test ui/update-model-context — send context updates from the app to the host model",
+    nav: { icon: "🧠", label: "Model Context" },
+    handler: async () => ({
+      text: `Model Context Inspector loaded. Use the counter or manual form to send ui/update-model-context requests.`,
+      structuredContent: {},
+    }),
+  }),
+
+  defineInspector({
+    name: "inspect-sandbox-proxy",
+    appName: "sandbox-proxy",
+    title: "Sandbox Proxy Inspector",
+    description:
+      "Detect the web host's sandbox proxy (double iframe) and compare the delivered sandbox, CSP and permissions with what the resource declared",
+    nav: { icon: "🧱", label: "Sandbox" },
+    launcher: {
+      icon: "🧱",
+      title: "Sandbox Proxy",
+      description:
+        "Detect the web host's sandbox proxy and compare the delivered sandbox, CSP and permissions with the declaration.",
+    },
+    csp: SANDBOX_PROXY_CSP,
+    permissions: SANDBOX_PROXY_PERMISSIONS,
+    outputSchema: {
+      declared: z
+        .object({
+          csp: z.record(z.array(z.string())),
+          permissions: z.record(z.object({})),
+        })
+        .describe("The _meta.ui csp and permissions declared by the resource"),
+    },
+    handler: async () => ({
+      text: `Sandbox Proxy Inspector loaded. Comparing the delivered sandbox, CSP and permissions with the resource declaration.`,
+      structuredContent: {
+        declared: {
+          csp: SANDBOX_PROXY_CSP,
+          permissions: SANDBOX_PROXY_PERMISSIONS,
+        },
+      },
+    }),
+  }),
+
+  defineInspector({
+    name: "inspect-csp",
+    appName: "csp-enforcement",
+    title: "CSP Enforcement Inspector",
+    description:
+      "Probe fetch, WebSocket, EventSource, images, fonts, frames and <base> against allowed and disallowed origins to check that the host enforces the declared CSP",
+    nav: { icon: "🛡️", label: "CSP" },
+    launcher: {
+      icon: "🛡️",
+      title: "CSP Enforcement",
+      description:
+        "Probe every CSP directive against a declared and an undeclared origin to check the host enforces the declared policy.",
+    },
+    csp: CSP_ENFORCEMENT_CSP,
+    outputSchema: {
+      declared: z
+        .record(z.array(z.string()))
+        .describe("The _meta.ui.csp declared by the resource"),
+      allowedOrigin: z
+        .string()
+        .describe("Declared origin serving the probe endpoints"),
+      disallowedOrigin: z
+        .string()
+        .describe("Undeclared origin serving the same probe endpoints"),
+      probePath: z.string().describe("Path of the probe endpoints"),
+    },
+    handler: async () => ({
+      text: `CSP Enforcement Inspector loaded. Probing each CSP directive against ${BASE_URL} (declared) and ${PROBE_BASE_URL} (undeclared).`,
+      structuredContent: {
+        declared: CSP_ENFORCEMENT_CSP,
+        allowedOrigin: BASE_URL,
+        disallowedOrigin: PROBE_BASE_URL,
+        probePath: CSP_PROBE_PATH,
+      },
+    }),
+  }),
+
+  // Permissions (all four declared)
+  definePermissionsInspector({
+    name: "inspect-permissions",
+    title: "Permissions Inspector",
+    description:
+      "Check that the host delegates the declared camera, microphone, geolocation and clipboard permissions to the iframe, and nothing else",
+    nav: { icon: "🔐", label: "Permissions" },
+    launcher: {
+      icon: "🔐",
+      title: "Permissions",
+      description:
+        "Check that the host delegates declared camera, microphone, geolocation and clipboard permissions, and nothing else.",
+    },
+    permissions: ALL_PERMISSIONS,
+  }),
+
+  // Permissions (one declared each — the other three must be withheld)
+  definePermissionsInspector({
+    name: "inspect-permissions-camera",
+    title: "Permissions Inspector (Camera)",
+    description: "Test permission delegation with only camera declared",
+    permissions: { camera: {} },
+  }),
+
+  definePermissionsInspector({
+    name: "inspect-permissions-microphone",
+    title: "Permissions Inspector (Microphone)",
+    description: "Test permission delegation with only microphone declared",
+    permissions: { microphone: {} },
+  }),
+
+  definePermissionsInspector({
+    name: "inspect-permissions-geolocation",
+    title: "Permissions Inspector (Geolocation)",
+    description: "Test permission delegation with only geolocation declared",
+    permissions: { geolocation: {} },
+  }),
+
+  definePermissionsInspector({
+    name: "inspect-permissions-clipboard-write",
+    title: "Permissions Inspector (Clipboard Write)",
+    description: "Test permission delegation with only clipboardWrite declared",
+    permissions: { clipboardWrite: {} },
+  }),
+
+  // Permissions (none declared — the host must not grant any)
+  definePermissionsInspector({
+    name: "inspect-permissions-none",
+    title: "Permissions Inspector (Undeclared)",
+    description:
+      "Test that the host grants no device permissions to a resource that declares none",
+    permissions: {},
+  }),
+
+  // Dedicated origin (_meta.ui.domain)
+  defineDedicatedOriginInspector({
+    name: "inspect-dedicated-origin",
+    title: "Dedicated Origin Inspector",
+    description:
+      "Check whether the host serves the app from the dedicated origin requested in _meta.ui.domain, and whether storage persists under it",
+    nav: { icon: "🏷️", label: "Origin" },
+    launcher: {
+      icon: "🏷️",
+      title: "Dedicated Origin",
+      description:
+        "Check whether the host honours _meta.ui.domain with a stable origin, persistent storage and isolation from other apps.",
+    },
+  }),
+
+  defineDedicatedOriginInspector({
+    name: "inspect-dedicated-origin-peer",
+    title: "Dedicated Origin Inspector (Peer)",
+    description:
+      "A second resource declaring the same _meta.ui.domain, to check that both share one origin",
+  }),
+
+  defineDedicatedOriginInspector({
+    name: "inspect-dedicated-origin-default",
+    title: "Dedicated Origin Inspector (No Domain)",
+    description:
+      "A resource without _meta.ui.domain, to check it is isolated from the dedicated origin",
+  }),
+
+  defineInspector({
+    name: "inspect-resumability",
+    appName: "resumability",
+    title: "Resumability Inspector",
+    description:
+      "Drop the request and GET SSE streams, send server-initiated messages while they are down, and check that the host resumes with Last-Event-ID",
+    nav: { icon: "⏯️", label: "Resume" },
+    launcher: {
+      icon: "⏯️",
+      title: "Resumability",
+      description:
+        "Drop the host's SSE streams mid-session and check it resumes with Last-Event-ID without losing messages.",
+    },
+    outputSchema: {
+      eventStore: z
+        .enum(["memory", "file"])
+        .describe("Event store configured for HTTP sessions"),
+      retryIntervalMs: z
+        .number()
+        .describe("Reconnect delay suggested to the host in priming events"),
+      probeTool: z.string().describe("App-only tool that drops a stream"),
+      statusTool: z
+        .string()
+        .describe("App-only tool that lists the replays the host requested"),
+    },
+    handler: async () => ({
+      text: `Resumability Inspector loaded. Dropping SSE streams to check the host resumes with Last-Event-ID (${EVENT_STORE_KIND} event store).`,
+      structuredContent: {
+        eventStore: EVENT_STORE_KIND,
+        retryIntervalMs: SSE_RETRY_INTERVAL_MS,
+        probeTool: RESUMABILITY_PROBE_TOOL_NAME,
+        statusTool: RESUMABILITY_STATUS_TOOL_NAME,
+      },
+    }),
+  }),
+
+  defineInspector({
+    name: "inspect-logging",
+    appName: "logging",
+    title: "Logging Inspector",
+    description:
+      "Have the server send notifications/message at chosen RFC 5424 levels and record which ones the host shows, and the level it set with logging/setLevel",
+    nav: { icon: "📜", label: "Logging" },
+    launcher: {
+      icon: "📜",
+      title: "Logging",
+      description:
+        "Have the server log at every RFC 5424 level and record which levels the host shows, and the threshold it sets.",
+    },
+    outputSchema: {
+      levels: z
+        .array(z.string())
+        .describe("Log levels the server can send, least severe first"),
+      logger: z.string().describe("Logger name on the server's log messages"),
+      emitTool: z
+        .string()
+        .describe("App-only tool that logs at the chosen levels"),
+    },
+    handler: async () => ({
+      text: `Logging Inspector loaded. The server will log at each of ${LOG_LEVELS.length} levels (${LOG_LEVELS.join(", ")}) so you can check which ones the host shows.`,
+      structuredContent: {
+        levels: [...LOG_LEVELS],
+        logger: SERVER_LOGGER,
+        emitTool: SERVER_LOG_EMIT_TOOL_NAME,
+      },
+    }),
+  }),
+
+  defineInspector({
+    name: "inspect-tool-errors",
+    appName: "tool-errors",
+    title: "Tool Errors Inspector",
+    description:
+      "Call tools that return isError, throw, violate their outputSchema and reject their input, and show what the host delivered to the app for each",
+    nav: { icon: "💥", label: "Tool Errors" },
+    launcher: {
+      icon: "💥",
+      title: "Tool Errors",
+      description:
+        "Call tools that fail every way a tool can and show whether the host delivers isError and the error text to the app.",
+    },
+    outputSchema: {
+      cases: z
+        .array(
+          z.object({
+            id: z.string(),
+            tool: z.string(),
+            arguments: z.record(z.unknown()),
+            expectedText: z
+              .string()
+              .describe("Text the error content should contain"),
+          })
+        )
+        .describe("Failing tools the app calls, one per error path"),
+    },
+    handler: async () => ({
+      text: `Tool Errors Inspector loaded. Calling ${TOOL_ERROR_CASES.length} failing tools (${TOOL_ERROR_CASES.map((errorCase) => errorCase.tool).join(", ")}) to see what the host delivers.`,
+      structuredContent: { cases: TOOL_ERROR_CASES },
+    }),
+  }),
+
+  defineInspector({
+    name: "inspect-payload-size",
+    appName: "payload-size",
+    title: "Payload Size Inspector",
+    description:
+      "Binary-search the largest payload the host accepts in tool results, in tools/call arguments from the app, and in ui/update-model-context",
+    nav: { icon: "📦", label: "Payload Size" },
+    launcher: {
+      icon: "📦",
+      title: "Payload Size",
+      description:
+        "Search for the largest tool result, tools/call and model context payload the host accepts.",
+    },
+    inputSchema: {
+      maxBytes: z
+        .number()
+        .int()
+        .min(1024)
+        .max(PAYLOAD_MAX_BYTES)
+        .describe("Largest payload to try, in bytes")
+        .optional(),
+    },
+    outputSchema: payloadSizeOutputSchema,
+    handler: async (args) => ({
+      text: `Payload Size Inspector loaded. Searching for the largest payload the host accepts, up to ${args.maxBytes ?? PAYLOAD_MAX_BYTES} bytes.`,
+      structuredContent: {
+        payloadTool: PAYLOAD_SIZE_TOOL_NAME,
+        maxBytes: args.maxBytes ?? PAYLOAD_MAX_BYTES,
+        htmlPaddingBytes: 0,
+      },
+    }),
+  }),
+
+  // Same app, with a multi-megabyte HTML body
+  defineInspector({
+    name: "inspect-payload-size-large-html",
+    appName: "payload-size",
+    title: "Payload Size Inspector (Large HTML)",
+    launcher: {
+      icon: "🐘",
+      title: "Large HTML",
+      description:
+        "Render an app whose resource HTML is padded to several megabytes.",
+    },
+    description:
+      "Check whether the host renders an app whose resource HTML is padded to several megabytes",
+    htmlPaddingBytes: PAYLOAD_HTML_PADDING_BYTES,
+    outputSchema: payloadSizeOutputSchema,
+    handler: async () => ({
+      text: `Payload Size Inspector loaded with ${PAYLOAD_HTML_PADDING_BYTES} bytes of HTML padding.`,
+      structuredContent: {
+        payloadTool: PAYLOAD_SIZE_TOOL_NAME,
+        maxBytes: PAYLOAD_MAX_BYTES,
+        htmlPaddingBytes: PAYLOAD_HTML_PADDING_BYTES,
+      },
+    }),
+  }),
+
+  defineInspector({
+    name: "inspect-tool-list",
+    appName: "tool-list",
+    title: "Tool List Inspector",
+    description:
+      "Add, disable, enable and remove a tool at runtime, and check whether the host fetches tools/list again after list_changed and lets the app call the new tool at once",
+    nav: { icon: "🔄", label: "Tool List" },
+    launcher: {
+      icon: "🔄",
+      title: "Tool List",
+      description:
+        "Change the tool list mid-session and check whether the host fetches it again or keeps a cached copy.",
+    },
+    inputSchema: {
+      refreshWaitMs: z
+        .number()
+        .int()
+        .min(0)
+        .max(30000)
+        .describe("How long to wait for the host to fetch tools/list again")
+        .optional(),
+    },
+    outputSchema: {
+      controlTool: z
+        .string()
+        .describe("App-only tool that changes the tool list"),
+      refreshWaitMs: z
+        .number()
+        .describe("How long the app waits for tools/list after each change"),
+    },
+    handler: async (args) => ({
+      text: "Tool List Inspector loaded. Changing the tool list at runtime to see whether the host notices.",
+      structuredContent: {
+        controlTool: TOOL_LIST_CONTROL_TOOL_NAME,
+        refreshWaitMs: args.refreshWaitMs ?? 3000,
+      },
+    }),
+  }),
+
+  defineInspector({
+    name: "inspect-media-player",
+    appName: "media-player",
+    title: "Media Player Inspector",
+    description:
+      "Interactive video and audio player demo with open media sources rendered inside an MCP app",
+    toolDescription:
+      "Launch a media player demo that switches between open video and audio content inside the MCP app host",
+    nav: { icon: "🎬", label: "Media Player" },
+    launcher: {
+      icon: "🎬",
+      title: "Media Player",
+      description:
+        "Switch between open video and audio content inside a hosted MCP app media player.",
+    },
+    csp: {
+      resourceDomains: [
+        ...DEFAULT_RESOURCE_DOMAINS,
+        "https://download.blender.org",
+        "https://dn721902.ca.archive.org",
+      ],
+    },
+    inputSchema: {
+      mediaType: z
+        .enum(["video", "audio"])
+        .describe("Which media mode to open first")
+        .optional(),
+    },
+    outputSchema: {
+      mediaType: z
+        .enum(["video", "audio"])
+        .describe("The initially selected media mode"),
+    },
+    handler: async (args) => {
+      const mediaType = args.mediaType ?? "video"
+
+      return {
+        text: `Media Player Inspector loaded. Showing the ${mediaType} demo inside the MCP app host.`,
+        structuredContent: { mediaType },
+      }
+    },
+  }),
+]
+
+/**
+ * Footer navigation entries, in registry order.
+ */
+export function getInspectorNav(): InspectorNavEntry[] {
+  return INSPECTORS.filter((inspector) => inspector.nav).map((inspector) => ({
+    id: inspector.name,
+    icon: inspector.nav!.icon,
+    label: inspector.nav!.label,
+  }))
+}
+
+/**
+ * Launcher cards, in registry order.
+ */
+export function getInspectorLauncher(): InspectorLauncherEntry[] {
+  return INSPECTORS.filter((inspector) => inspector.launcher).map(
+    (inspector) => ({ id: inspector.name, ...inspector.launcher! })
+  )
+}
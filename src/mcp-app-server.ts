@@ -7,33 +7,65 @@
  * Route: /mcp
  */
 
+import { randomUUID } from "crypto"
 import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js"
+import type { ServerNotification } from "@modelcontextprotocol/sdk/types.js"
 import { z } from "zod"
 import {
   APP_ICON,
   BASE_URL,
+  CSP_PROBE_HITS_TOOL_NAME,
+  LONG_RUNNING_TASK_STATUS_TOOL_NAME,
+  LONG_RUNNING_TASK_TOOL_NAME,
   MCP_APPS_EXTENSION_ID,
   MCP_APPS_MIME_TYPE,
-  MCP_APP_URI,
-  INSPECT_HOST_INFO_URI,
-  INSPECT_HOST_STYLES_URI,
-  INSPECT_MESSAGING_URI,
-  INSPECT_TOOL_DATA_URI,
-  INSPECT_DISPLAY_MODES_URI,
-  INSPECT_DISPLAY_MODES_INLINE_PIP_URI,
-  INSPECT_DISPLAY_MODES_INLINE_FULLSCREEN_URI,
-  INSPECT_DISPLAY_MODES_UNDECLARED_URI,
-  INSPECT_TRANSPARENCY_URI,
-  INSPECT_VISIBILITY_URI,
-  INSPECT_MODEL_CONTEXT_URI,
-  INSPECT_MEDIA_PLAYER_URI,
+  PAYLOAD_MAX_BYTES,
+  PAYLOAD_SIZE_TOOL_NAME,
+  REPORT_RESULT_TOOL_NAME,
+  RESUMABILITY_PROBE_TOOL_NAME,
+  RESUMABILITY_STATUS_TOOL_NAME,
+  PROBE_SERVER,
+  SERVER_LOG_EMIT_TOOL_NAME,
+  SERVER_OBSERVED_CAPABILITIES_TOOL_NAME,
+  SSE_RETRY_INTERVAL_MS,
+  TOOL_LIST_CONTROL_TOOL_NAME,
 } from "./utils/constants.js"
-import { loadAppHtml } from "./utils/load-app-html.js"
+import { INSPECTORS, inspectorUri } from "./inspectors.js"
+import {
+  hideInspectorUi,
+  isTextOnlyClient,
+  registerInspector,
+} from "./utils/register-inspector.js"
+import { recordInspectorResult } from "./utils/result-store.js"
+import { fetchRemoteCspProbeHits, getCspProbeHits } from "./utils/csp-probes.js"
+import {
+  STANDALONE_STREAM_ID,
+  getEventStore,
+  waitForReplay,
+} from "./utils/event-store.js"
+import {
+  observeInitialize,
+  type ObservedClientCapabilities,
+} from "./utils/client-capabilities.js"
+import { LOG_LEVELS, createServerLogging } from "./utils/server-logging.js"
+import { createTaskRunLog } from "./utils/long-running-task.js"
+import { registerToolErrorTools } from "./utils/tool-errors.js"
+import { generatePayload, isIntactPayload } from "./utils/payload.js"
+import { createDynamicTools } from "./utils/dynamic-tools.js"
+import {
+  LOCAL_SESSION_ID,
+  getSessionActivity,
+} from "./utils/session-activity.js"
+import {
+  logClientCapabilities,
+  logMcpServerInitializing,
+} from "./utils/logger.js"
+
+// Tags the log notifications the resumability probe sends
+const RESUMABILITY_PROBE = "resumability"
 
 export function initMcpAppServer(): McpServer {
-  console.log(`\n🚀 Initializing MCP server (SEP-1865 mode)`)
-  console.log(`   Extension ID: ${MCP_APPS_EXTENSION_ID}`)
-  console.log(`   MIME Type: ${MCP_APPS_MIME_TYPE}`)
+  logMcpServerInitializing(MCP_APPS_EXTENSION_ID, MCP_APPS_MIME_TYPE)
 
   const server = new McpServer(
     {
@@ -55,750 +87,329 @@ export function initMcpAppServer(): McpServer {
     }
   )
 
-  const footerJokeInput = z
-    .string()
-    .describe(
-      "A simple one-line joke to display in the app footer for this inspector."
-    )
-    .optional()
-
-  const footerJokeOutput = z
-    .string()
-    .describe("The simple one-line joke displayed in the app footer.")
-    .optional()
-
-  function withFooterInputSchema<T extends z.ZodRawShape>(shape: T) {
-    return {
-      ...shape,
-      joke: footerJokeInput,
-    }
-  }
-
-  function withFooterOutputSchema<T extends z.ZodRawShape>(shape: T) {
-    return {
-      ...shape,
-      timestamp: z.string().describe("The timestamp of the inspection"),
-      joke: footerJokeOutput,
-    }
-  }
-
-  function buildFooterStructuredContent(
-    joke: string | undefined,
-    extra: Record<string, unknown> = {}
-  ) {
-    return {
-      ...extra,
-      timestamp: new Date().toISOString(),
-      ...(joke ? { joke } : {}),
-    }
-  }
+  // Honours logging/setLevel; every log notification goes through it
+  const logging = createServerLogging(server)
 
   // ==========================================================================
-  // Resources - Register immediately (always available)
+  // Capability Negotiation - What the client advertised in initialize
   // ==========================================================================
 
-  // Main launcher resource
-  server.registerResource(
-    "mcp-app-bench",
-    MCP_APP_URI,
-    {
-      title: "MCP App Bench",
-      description:
-        "An interactive bench test launcher to evaluate MCP host support for MCP Apps",
-      mimeType: MCP_APPS_MIME_TYPE,
-    },
-    async () => ({
-      contents: [
-        {
-          uri: MCP_APP_URI,
-          mimeType: MCP_APPS_MIME_TYPE,
-          text: loadAppHtml("mcp-app-bench"),
-          _meta: {
-            ui: {
-              prefersBorder: true,
-              csp: {
-                resourceDomains: [
-                  BASE_URL,
-                  "https://fonts.googleapis.com",
-                  "https://fonts.gstatic.com",
-                ],
-              },
-            },
-          },
-        },
-      ],
-    })
-  )
-
-  // Host Info inspector resource
-  server.registerResource(
-    "inspect-host-info",
-    INSPECT_HOST_INFO_URI,
-    {
-      title: "Host Info Inspector",
-      description:
-        "Inspect host context, capabilities, protocol version, and validate against the HostContext schema",
-      mimeType: MCP_APPS_MIME_TYPE,
-    },
-    async () => ({
-      contents: [
-        {
-          uri: INSPECT_HOST_INFO_URI,
-          mimeType: MCP_APPS_MIME_TYPE,
-          text: loadAppHtml("host-info"),
-          _meta: {
-            ui: {
-              prefersBorder: true,
-              csp: {
-                resourceDomains: [
-                  BASE_URL,
-                  "https://fonts.googleapis.com",
-                  "https://fonts.gstatic.com",
-                ],
-              },
-            },
-          },
-        },
-      ],
-    })
-  )
-
-  // Host Styles inspector resource
-  server.registerResource(
-    "inspect-host-styles",
-    INSPECT_HOST_STYLES_URI,
-    {
-      title: "Host Styles Inspector",
-      description:
-        "Visualize host-provided CSS variables, typography, colors, shadows, and border radius tokens",
-      mimeType: MCP_APPS_MIME_TYPE,
-    },
-    async () => ({
-      contents: [
-        {
-          uri: INSPECT_HOST_STYLES_URI,
-          mimeType: MCP_APPS_MIME_TYPE,
-          text: loadAppHtml("host-styles"),
-          _meta: {
-            ui: {
-              prefersBorder: true,
-              csp: {
-                resourceDomains: [
-                  BASE_URL,
-                  "https://fonts.googleapis.com",
-                  "https://fonts.gstatic.com",
-                ],
-              },
-            },
-          },
-        },
-      ],
-    })
-  )
-
-  // Messaging inspector resource
-  server.registerResource(
-    "inspect-messaging",
-    INSPECT_MESSAGING_URI,
-    {
-      title: "Messaging Inspector",
-      description:
-        "Test UI↔Host and UI↔Server messaging. Monitor requests, responses, and notifications",
-      mimeType: MCP_APPS_MIME_TYPE,
-    },
-    async () => ({
-      contents: [
-        {
-          uri: INSPECT_MESSAGING_URI,
-          mimeType: MCP_APPS_MIME_TYPE,
-          text: loadAppHtml("messaging"),
-          _meta: {
-            ui: {
-              prefersBorder: true,
-              csp: {
-                resourceDomains: [
-                  BASE_URL,
-                  "https://fonts.googleapis.com",
-                  "https://fonts.gstatic.com",
-                ],
-              },
-            },
-          },
-        },
-      ],
-    })
-  )
+  let observedCapabilities: ObservedClientCapabilities | null = null
 
-  // Tool Data inspector resource
-  server.registerResource(
-    "inspect-tool-data",
-    INSPECT_TOOL_DATA_URI,
-    {
-      title: "Tool Data Inspector",
-      description:
-        "Inspect tool lifecycle events: input, partial input, results, and cancellation",
-      mimeType: MCP_APPS_MIME_TYPE,
-    },
-    async () => ({
-      contents: [
-        {
-          uri: INSPECT_TOOL_DATA_URI,
-          mimeType: MCP_APPS_MIME_TYPE,
-          text: loadAppHtml("tool-data"),
-          _meta: {
-            ui: {
-              prefersBorder: true,
-              csp: {
-                resourceDomains: [
-                  BASE_URL,
-                  "https://fonts.googleapis.com",
-                  "https://fonts.gstatic.com",
-                ],
-              },
-            },
-          },
-        },
-      ],
-    })
-  )
+  // ==========================================================================
+  // Inspectors - Resource + launcher tool for each registry entry
+  // ==========================================================================
 
-  // Display Modes inspector resource
-  server.registerResource(
-    "inspect-display-modes",
-    INSPECT_DISPLAY_MODES_URI,
-    {
-      title: "Display Modes Inspector",
-      description:
-        "Test display mode switching between inline, fullscreen, and pip modes",
-      mimeType: MCP_APPS_MIME_TYPE,
-    },
-    async () => ({
-      contents: [
-        {
-          uri: INSPECT_DISPLAY_MODES_URI,
-          mimeType: MCP_APPS_MIME_TYPE,
-          text: loadAppHtml("display-modes"),
-          _meta: {
-            ui: {
-              prefersBorder: true,
-              csp: {
-                resourceDomains: [
-                  BASE_URL,
-                  "https://fonts.googleapis.com",
-                  "https://fonts.gstatic.com",
-                ],
-              },
-            },
-          },
-        },
-      ],
-    })
+  const inspectors = INSPECTORS.map((inspector) =>
+    registerInspector(server, inspector, () => observedCapabilities)
   )
 
   // ==========================================================================
-  // Tools
+  // Long-Running Task - Runs for a set duration with progress notifications
+  // and honours cancellation. Renders in the Tool Data inspector, which asks
+  // the app-only status tool for the server's side of the timeline
   // ==========================================================================
 
-  // Main launcher tool
-  server.registerTool(
-    "mcp-app-bench",
+  const taskRuns = createTaskRunLog()
+
+  const taskRunSchema = z.object({
+    runId: z.string(),
+    durationMs: z.number(),
+    steps: z.number(),
+    progressToken: z
+      .union([z.string(), z.number()])
+      .nullable()
+      .describe("Progress token the host sent, null if it sent none"),
+    status: z.enum(["running", "completed", "cancelled"]),
+    startedAt: z.string(),
+    progress: z
+      .array(
+        z.object({ progress: z.number(), total: z.number(), time: z.string() })
+      )
+      .describe("Steps completed, in order"),
+    progressSent: z
+      .number()
+      .describe("notifications/progress sent (needs a progress token)"),
+    cancelledAt: z.string().nullable(),
+    cancelReason: z.string().nullable(),
+    finishedAt: z.string().nullable(),
+  })
+
+  const longRunningTask = server.registerTool(
+    LONG_RUNNING_TASK_TOOL_NAME,
     {
-      title: "MCP App Bench",
+      title: "Long-Running Task",
       description:
-        "An interactive bench test launcher to evaluate MCP host support for MCP Apps",
-      inputSchema: withFooterInputSchema({
-        name: z.string().describe("The name of the MCP app to test").optional(),
-      }),
-      outputSchema: withFooterOutputSchema({
-        name: z.string().describe("The name of the MCP app to test").optional(),
-      }),
+        "Run for a set duration, reporting progress through notifications/progress when the request has a progress token, and stop early when the request is cancelled. Renders in the Tool Data inspector.",
+      inputSchema: {
+        durationMs: z
+          .number()
+          .int()
+          .min(0)
+          .max(5 * 60 * 1000)
+          .default(10000)
+          .describe("How long the task runs, in milliseconds"),
+        steps: z
+          .number()
+          .int()
+          .min(1)
+          .max(100)
+          .default(10)
+          .describe("Progress notifications to send over the duration"),
+        runId: z
+          .string()
+          .optional()
+          .describe("ID to look the run up by (default: a new UUID)"),
+      },
+      outputSchema: taskRunSchema.shape,
       _meta: {
         ui: {
-          resourceUri: MCP_APP_URI,
+          resourceUri: inspectorUri("inspect-tool-data"),
         },
       },
     },
-    async (args) => {
-      const name = args.name ?? "mcp-app-bench"
-      const structuredContent = buildFooterStructuredContent(args.joke, {
-        name,
+    async (args, extra) => {
+      const run = await taskRuns.run({
+        runId: args.runId ?? randomUUID(),
+        durationMs: args.durationMs,
+        steps: args.steps,
+        progressToken: extra._meta?.progressToken,
+        signal: extra.signal,
+        sendNotification: extra.sendNotification,
       })
+
+      // Only reaches the host if it didn't cancel
       return {
         content: [
           {
             type: "text",
-            text: `MCP App Bench launcher loaded. Select an inspector to begin testing.`,
+            text: `Task ${run.runId} ${run.status} after ${run.progress.length} of ${run.steps} step(s); ${run.progressSent} progress notification(s) sent.`,
           },
         ],
-        structuredContent,
+        structuredContent: { ...run },
       }
     }
   )
 
-  // Host Info inspector tool
   server.registerTool(
-    "inspect-host-info",
+    LONG_RUNNING_TASK_STATUS_TOOL_NAME,
     {
-      title: "Host Info Inspector",
+      title: "Long-Running Task Status",
       description:
-        "Inspect host context, capabilities, protocol version, and validate against the HostContext schema",
-      inputSchema: withFooterInputSchema({
-        user_message: z
+        "Return the server's record of a long-running task run: progress sent, and whether and when it was cancelled. Called by the Tool Data inspector app, not the model.",
+      inputSchema: {
+        runId: z
           .string()
-          .describe("The last message the user sent to the agent")
-          .optional(),
-      }),
-      outputSchema: withFooterOutputSchema({
-        user_message: z
-          .string()
-          .describe("The last message the user sent to the agent")
-          .optional(),
-      }),
-      _meta: {
-        ui: {
-          resourceUri: INSPECT_HOST_INFO_URI,
-        },
+          .optional()
+          .describe("Run to look up (default: the session's latest run)"),
       },
-    },
-    async (args) => {
-      return {
-        content: [
-          {
-            type: "text",
-            text: `Host Info Inspector loaded. Displaying host context and capabilities.`,
-          },
-        ],
-        structuredContent: buildFooterStructuredContent(args.joke, {
-          ...(args.user_message ? { user_message: args.user_message } : {}),
-        }),
-      }
-    }
-  )
-
-  // Host Styles inspector tool
-  server.registerTool(
-    "inspect-host-styles",
-    {
-      title: "Host Styles Inspector",
-      description:
-        "Visualize host-provided CSS variables, typography, colors, shadows, and border radius tokens",
-      inputSchema: withFooterInputSchema({}),
-      outputSchema: withFooterOutputSchema({}),
-      _meta: {
-        ui: {
-          resourceUri: INSPECT_HOST_STYLES_URI,
-        },
+      outputSchema: {
+        found: z.boolean(),
+        run: taskRunSchema.nullable(),
       },
-    },
-    async (args) => {
-      return {
-        content: [
-          {
-            type: "text",
-            text: `Host Styles Inspector loaded. Displaying host-provided style tokens.`,
-          },
-        ],
-        structuredContent: buildFooterStructuredContent(args.joke),
-      }
-    }
-  )
-
-  // Messaging inspector tool
-  server.registerTool(
-    "inspect-messaging",
-    {
-      title: "Messaging Inspector",
-      description:
-        "Test UI↔Host and UI↔Server messaging. Monitor requests, responses, and notifications",
-      inputSchema: withFooterInputSchema({}),
-      outputSchema: withFooterOutputSchema({}),
       _meta: {
         ui: {
-          resourceUri: INSPECT_MESSAGING_URI,
+          visibility: ["app"],
         },
       },
     },
     async (args) => {
-      return {
-        content: [
-          {
-            type: "text",
-            text: `Messaging Inspector loaded. Use the buttons to test messaging capabilities.`,
-          },
-        ],
-        structuredContent: buildFooterStructuredContent(args.joke),
-      }
-    }
-  )
+      const run = taskRuns.get(args.runId)
 
-  // Tool Data inspector tool
-  server.registerTool(
-    "inspect-tool-data",
-    {
-      title: "Tool Data Inspector",
-      description:
-        "Inspect tool lifecycle events: input, partial input, results, and cancellation",
-      inputSchema: withFooterInputSchema({}),
-      outputSchema: withFooterOutputSchema({}),
-      _meta: {
-        ui: {
-          resourceUri: INSPECT_TOOL_DATA_URI,
-        },
-      },
-    },
-    async (args) => {
       return {
         content: [
           {
             type: "text",
-            text: `Tool Data Inspector loaded. Tool lifecycle events will be displayed here.`,
+            text: run
+              ? `Task ${run.runId} is ${run.status} (${run.progress.length} of ${run.steps} step(s)).`
+              : "No long-running task run found in this session.",
           },
         ],
-        structuredContent: buildFooterStructuredContent(args.joke),
-        _meta: {
-          foo: "bar",
-        },
+        structuredContent: { found: run !== null, run: run && { ...run } },
       }
     }
   )
 
-  // Display Modes inspector tool (all modes: inline, fullscreen, pip)
-  server.registerTool(
-    "inspect-display-modes",
-    {
-      title: "Display Modes Inspector",
-      description:
-        "Test display mode switching between inline, fullscreen, and pip modes",
-      inputSchema: withFooterInputSchema({}),
-      outputSchema: withFooterOutputSchema({}),
-      _meta: {
-        ui: {
-          resourceUri: INSPECT_DISPLAY_MODES_URI,
-        },
-      },
-    },
-    async (args) => {
-      return {
-        content: [
-          {
-            type: "text",
-            text: `Display Modes Inspector loaded. Declared modes: inline, fullscreen, pip`,
-          },
-        ],
-        structuredContent: buildFooterStructuredContent(args.joke),
-      }
-    }
-  )
+  // ==========================================================================
+  // Tool Errors - Tools that fail on purpose, one per error path, rendered in
+  // the tool errors inspector
+  // ==========================================================================
 
-  // Display Modes inspector resource (inline + pip only)
-  server.registerResource(
-    "inspect-display-modes-inline-pip",
-    INSPECT_DISPLAY_MODES_INLINE_PIP_URI,
-    {
-      title: "Display Modes Inspector (Inline + PiP)",
-      description:
-        "Test display mode switching with only inline and pip modes declared",
-      mimeType: MCP_APPS_MIME_TYPE,
-    },
-    async () => ({
-      contents: [
-        {
-          uri: INSPECT_DISPLAY_MODES_INLINE_PIP_URI,
-          mimeType: MCP_APPS_MIME_TYPE,
-          text: loadAppHtml("display-modes-inline-pip"),
-          _meta: {
-            ui: {
-              prefersBorder: true,
-              csp: {
-                resourceDomains: [
-                  BASE_URL,
-                  "https://fonts.googleapis.com",
-                  "https://fonts.gstatic.com",
-                ],
-              },
-            },
-          },
-        },
-      ],
-    })
+  const toolErrorTools = registerToolErrorTools(
+    server,
+    inspectorUri("inspect-tool-errors")
   )
 
-  // Display Modes inspector tool (inline + pip only)
-  server.registerTool(
-    "inspect-display-modes-inline-pip",
+  // ==========================================================================
+  // Payload Size - Returns and accepts payloads of a chosen size, so the
+  // payload size inspector can search for each host's limits
+  // ==========================================================================
+
+  const payloadSize = server.registerTool(
+    PAYLOAD_SIZE_TOOL_NAME,
     {
-      title: "Display Modes Inspector (Inline + PiP)",
+      title: "Payload Size",
       description:
-        "Test display mode switching with only inline and pip modes declared",
-      inputSchema: withFooterInputSchema({}),
-      outputSchema: withFooterOutputSchema({}),
+        "Return text content and structuredContent of the given size in bytes, and report the size of any padding sent with the call. Renders in the payload size inspector.",
+      inputSchema: {
+        bytes: z
+          .number()
+          .int()
+          .min(0)
+          .max(PAYLOAD_MAX_BYTES)
+          .describe("Size of the text and structuredContent payload to return"),
+        padding: z
+          .string()
+          .max(PAYLOAD_MAX_BYTES)
+          .optional()
+          .describe("Payload sent by the caller; only its size is returned"),
+      },
+      outputSchema: {
+        bytes: z.number(),
+        payload: z.string().describe("Generated payload of `bytes` bytes"),
+        receivedBytes: z
+          .number()
+          .nullable()
+          .describe("Size of the padding argument, null if none was sent"),
+        receivedIntact: z
+          .boolean()
+          .nullable()
+          .describe("Whether the padding arrived exactly as generated"),
+      },
       _meta: {
         ui: {
-          resourceUri: INSPECT_DISPLAY_MODES_INLINE_PIP_URI,
+          resourceUri: inspectorUri("inspect-payload-size"),
         },
       },
     },
     async (args) => {
+      const payload = generatePayload(args.bytes)
+      const received = args.padding ?? null
+
       return {
-        content: [
-          {
-            type: "text",
-            text: `Display Modes Inspector loaded. Declared modes: inline, pip`,
-          },
-        ],
-        structuredContent: buildFooterStructuredContent(args.joke),
+        content: [{ type: "text", text: payload }],
+        structuredContent: {
+          bytes: args.bytes,
+          payload,
+          receivedBytes: received === null ? null : received.length,
+          receivedIntact:
+            received === null
+              ? null
+              : isIntactPayload(received, received.length),
+        },
       }
     }
   )
 
-  // Display Modes inspector resource (inline + fullscreen only)
-  server.registerResource(
-    "inspect-display-modes-inline-fullscreen",
-    INSPECT_DISPLAY_MODES_INLINE_FULLSCREEN_URI,
-    {
-      title: "Display Modes Inspector (Inline + Fullscreen)",
-      description:
-        "Test display mode switching with only inline and fullscreen modes declared",
-      mimeType: MCP_APPS_MIME_TYPE,
-    },
-    async () => ({
-      contents: [
-        {
-          uri: INSPECT_DISPLAY_MODES_INLINE_FULLSCREEN_URI,
-          mimeType: MCP_APPS_MIME_TYPE,
-          text: loadAppHtml("display-modes-inline-fullscreen"),
-          _meta: {
-            ui: {
-              prefersBorder: true,
-              csp: {
-                resourceDomains: [
-                  BASE_URL,
-                  "https://fonts.googleapis.com",
-                  "https://fonts.gstatic.com",
-                ],
-              },
-            },
-          },
-        },
-      ],
-    })
-  )
+  // ==========================================================================
+  // Tool List - App-only tool the tool list inspector uses to change the tool
+  // list at runtime and see whether the host fetched it again
+  // ==========================================================================
 
-  // Display Modes inspector tool (inline + fullscreen only)
-  server.registerTool(
-    "inspect-display-modes-inline-fullscreen",
-    {
-      title: "Display Modes Inspector (Inline + Fullscreen)",
-      description:
-        "Test display mode switching with only inline and fullscreen modes declared",
-      inputSchema: withFooterInputSchema({}),
-      outputSchema: withFooterOutputSchema({}),
-      _meta: {
-        ui: {
-          resourceUri: INSPECT_DISPLAY_MODES_INLINE_FULLSCREEN_URI,
-        },
-      },
-    },
-    async (args) => {
-      return {
-        content: [
-          {
-            type: "text",
-            text: `Display Modes Inspector loaded. Declared modes: inline, fullscreen`,
-          },
-        ],
-        structuredContent: buildFooterStructuredContent(args.joke),
-      }
-    }
-  )
+  const dynamicTools = createDynamicTools(server)
 
-  // Display Modes inspector resource (undeclared — only declares inline, but UI has fullscreen/pip buttons)
-  server.registerResource(
-    "inspect-display-modes-undeclared",
-    INSPECT_DISPLAY_MODES_UNDECLARED_URI,
-    {
-      title: "Display Modes Inspector (Undeclared)",
-      description:
-        "Test that the host respects declared modes — this app only declares inline but renders fullscreen/pip buttons",
-      mimeType: MCP_APPS_MIME_TYPE,
-    },
-    async () => ({
-      contents: [
-        {
-          uri: INSPECT_DISPLAY_MODES_UNDECLARED_URI,
-          mimeType: MCP_APPS_MIME_TYPE,
-          text: loadAppHtml("display-modes-undeclared"),
-          _meta: {
-            ui: {
-              prefersBorder: true,
-              csp: {
-                resourceDomains: [
-                  BASE_URL,
-                  "https://fonts.googleapis.com",
-                  "https://fonts.gstatic.com",
-                ],
-              },
-            },
-          },
-        },
-      ],
-    })
-  )
+  const dynamicToolSchema = z.object({
+    name: z.string(),
+    state: z.enum(["enabled", "disabled", "removed"]),
+    changedAt: z.string(),
+    calls: z.number().describe("Calls that reached the tool"),
+  })
 
-  // Display Modes inspector tool (undeclared — only declares inline, but UI has fullscreen/pip buttons)
   server.registerTool(
-    "inspect-display-modes-undeclared",
+    TOOL_LIST_CONTROL_TOOL_NAME,
     {
-      title: "Display Modes Inspector (Undeclared)",
+      title: "Tool List Control",
       description:
-        "Test that the host respects declared modes — this app only declares inline but renders fullscreen/pip buttons",
-      inputSchema: withFooterInputSchema({}),
-      outputSchema: withFooterOutputSchema({}),
+        "Add, disable, enable or remove a tool at runtime, which sends notifications/tools/list_changed, or just report the current state. Called by the tool list inspector app, not the model.",
+      inputSchema: {
+        action: z.enum(["add", "disable", "enable", "remove", "status"]),
+        name: z
+          .string()
+          .optional()
+          .describe("Dynamic tool to change; not needed to add one"),
+      },
+      outputSchema: {
+        action: z.string(),
+        tool: dynamicToolSchema
+          .nullable()
+          .describe("The tool changed, null for status"),
+        tools: z.array(dynamicToolSchema),
+        changes: z.array(
+          z.object({
+            action: z.string(),
+            name: z.string(),
+            time: z.string(),
+            listRequestsBefore: z.number(),
+          })
+        ),
+        listRequestCount: z
+          .number()
+          .describe("tools/list requests received in this session"),
+        listRequests: z
+          .array(z.string())
+          .describe("Times of the most recent tools/list requests, in order"),
+      },
       _meta: {
         ui: {
-          resourceUri: INSPECT_DISPLAY_MODES_UNDECLARED_URI,
+          visibility: ["app"],
         },
       },
     },
-    async (args) => {
+    async (args, extra) => {
+      const listRequests = getSessionActivity(
+        extra.sessionId ?? LOCAL_SESSION_ID
+      )?.toolListRequests ?? { count: 0, recent: [] }
+
+      let tool = null
+      if (args.action !== "status") {
+        try {
+          tool = {
+            ...dynamicTools.apply(args.action, args.name, listRequests.count),
+          }
+        } catch (error) {
+          return {
+            content: [{ type: "text", text: (error as Error).message }],
+            isError: true,
+          }
+        }
+      }
+
       return {
         content: [
           {
             type: "text",
-            text: `Display Modes Inspector loaded. Declared modes: inline only (fullscreen/pip undeclared but UI has buttons)`,
+            text: `${tool ? `${tool.name} is ${tool.state}. ` : ""}${listRequests.count} tools/list request(s) received in this session.`,
           },
         ],
-        structuredContent: buildFooterStructuredContent(args.joke),
+        structuredContent: {
+          action: args.action,
+          tool,
+          tools: dynamicTools.tools(),
+          changes: dynamicTools.changes(),
+          listRequestCount: listRequests.count,
+          listRequests: [...listRequests.recent],
+        },
       }
     }
   )
 
-  // Transparency inspector resource
-  server.registerResource(
-    "inspect-transparency",
-    INSPECT_TRANSPARENCY_URI,
-    {
-      title: "Transparency Inspector",
-      description:
-        "Test whether the host allows iframe transparency across light and dark color schemes",
-      mimeType: MCP_APPS_MIME_TYPE,
-    },
-    async () => ({
-      contents: [
-        {
-          uri: INSPECT_TRANSPARENCY_URI,
-          mimeType: MCP_APPS_MIME_TYPE,
-          text: loadAppHtml("transparency"),
-          _meta: {
-            ui: {
-              prefersBorder: false,
-              csp: {
-                resourceDomains: [
-                  BASE_URL,
-                  "https://fonts.googleapis.com",
-                  "https://fonts.gstatic.com",
-                ],
-              },
-            },
-          },
-        },
-      ],
-    })
-  )
+  // Clients without MCP Apps see plain tools with no UI resources
+  observeInitialize(server, (observed, sessionId) => {
+    observedCapabilities = observed
+    logClientCapabilities(sessionId, observed)
 
-  // Transparency inspector tool
-  server.registerTool(
-    "inspect-transparency",
-    {
-      title: "Transparency Inspector",
-      description:
-        "Test whether the host allows iframe transparency across light and dark color schemes",
-      inputSchema: withFooterInputSchema({}),
-      outputSchema: withFooterOutputSchema({}),
-      _meta: {
-        ui: {
-          resourceUri: INSPECT_TRANSPARENCY_URI,
-        },
-      },
-    },
-    async (args) => {
-      return {
-        content: [
-          {
-            type: "text",
-            text: `Transparency Inspector loaded. Checking iframe transparency across color schemes.`,
-          },
-        ],
-        structuredContent: buildFooterStructuredContent(args.joke),
+    if (isTextOnlyClient(observed)) {
+      inspectors.forEach(hideInspectorUi)
+      for (const tool of [longRunningTask, payloadSize, ...toolErrorTools]) {
+        tool._meta = undefined
       }
     }
-  )
+  })
 
   // ==========================================================================
-  // Visibility Inspector - Tests _meta.ui.visibility filtering
+  // Visibility Test Tools - Tests _meta.ui.visibility filtering
   // ==========================================================================
 
-  // Visibility inspector resource
-  server.registerResource(
-    "inspect-visibility",
-    INSPECT_VISIBILITY_URI,
-    {
-      title: "Visibility Inspector",
-      description:
-        "Test that the host respects _meta.ui.visibility on tools, hiding app-only tools from the model",
-      mimeType: MCP_APPS_MIME_TYPE,
-    },
-    async () => ({
-      contents: [
-        {
-          uri: INSPECT_VISIBILITY_URI,
-          mimeType: MCP_APPS_MIME_TYPE,
-          text: loadAppHtml("visibility"),
-          _meta: {
-            ui: {
-              prefersBorder: true,
-              csp: {
-                resourceDomains: [
-                  BASE_URL,
-                  "https://fonts.googleapis.com",
-                  "https://fonts.gstatic.com",
-                ],
-              },
-            },
-          },
-        },
-      ],
-    })
-  )
-
-  // Visibility inspector launcher tool
-  server.registerTool(
-    "inspect-visibility",
-    {
-      title: "Visibility Inspector",
-      description:
-        "Open the visibility inspector to test _meta.ui.visibility filtering",
-      inputSchema: withFooterInputSchema({}),
-      outputSchema: withFooterOutputSchema({}),
-      _meta: {
-        ui: {
-          resourceUri: INSPECT_VISIBILITY_URI,
-        },
-      },
-    },
-    async (args) => {
-      return {
-        content: [
-          {
-            type: "text",
-            text: `Visibility Inspector loaded. This page tests that hosts correctly filter tools based on _meta.ui.visibility.`,
-          },
-        ],
-        structuredContent: buildFooterStructuredContent(args.joke),
-      }
-    }
-  )
-
   // Tool with visibility: ["model", "app"] (explicit default — model SHOULD see)
   server.registerTool(
     "visibility-both",
@@ -923,142 +534,471 @@ export function initMcpAppServer(): McpServer {
   )
 
   // ==========================================================================
-  // Model Context Inspector
+  // Bench Results - App-only tool the inspectors use to submit findings
   // ==========================================================================
 
-  server.registerResource(
-    "inspect-model-context",
-    INSPECT_MODEL_CONTEXT_URI,
+  server.registerTool(
+    REPORT_RESULT_TOOL_NAME,
     {
-      title: "Model Context Inspector",
+      title: "Report Inspector Result",
       description:
-        "Test ui/update-model-context — send context updates from the app to the host model",
-      mimeType: MCP_APPS_MIME_TYPE,
+        "Submit a structured inspector result for this session and host. Called by the inspector apps, not the model.",
+      inputSchema: {
+        inspector: z
+          .string()
+          .describe("Name of the inspector tool that produced the result"),
+        hostInfo: z
+          .object({
+            name: z.string(),
+            version: z.string(),
+          })
+          .describe("hostInfo returned by the host in ui/initialize")
+          .optional(),
+        protocolVersion: z
+          .string()
+          .describe("Protocol version returned by the host in ui/initialize")
+          .optional(),
+        result: z
+          .record(z.unknown())
+          .describe("Structured findings reported by the inspector"),
+      },
+      outputSchema: {
+        runKey: z.string().describe("Key of the run the result was stored in"),
+        inspector: z.string(),
+        inspectorCount: z
+          .number()
+          .describe("Number of inspectors that have reported in this run"),
+        reportUrl: z
+          .string()
+          .describe("Conformance report for this session (HTML)"),
+        timestamp: z.string(),
+      },
+      _meta: {
+        ui: {
+          visibility: ["app"],
+        },
+      },
     },
-    async () => ({
-      contents: [
-        {
-          uri: INSPECT_MODEL_CONTEXT_URI,
-          mimeType: MCP_APPS_MIME_TYPE,
-          text: loadAppHtml("model-context"),
-          _meta: {
-            ui: {
-              prefersBorder: true,
-              csp: {
-                resourceDomains: [
-                  BASE_URL,
-                  "https://fonts.googleapis.com",
-                  "https://fonts.gstatic.com",
-                ],
-              },
-            },
+    async (args, extra) => {
+      const run = recordInspectorResult({
+        sessionId: extra.sessionId ?? "local",
+        inspector: args.inspector,
+        hostInfo: args.hostInfo,
+        protocolVersion: args.protocolVersion,
+        result: args.result,
+      })
+
+      return {
+        content: [
+          {
+            type: "text",
+            text: `Stored ${args.inspector} result for ${run.hostInfo.name} ${run.hostInfo.version}.`,
           },
+        ],
+        structuredContent: {
+          runKey: run.key,
+          inspector: args.inspector,
+          inspectorCount: Object.keys(run.results).length,
+          reportUrl: `${BASE_URL}/reports/${run.reportId}.html`,
+          timestamp: run.updatedAt,
         },
-      ],
-    })
+      }
+    }
   )
 
+  // ==========================================================================
+  // CSP Probes - App-only tool the CSP inspector uses to confirm which probe
+  // requests actually reached the server
+  // ==========================================================================
+
   server.registerTool(
-    "inspect-model-context",
+    CSP_PROBE_HITS_TOOL_NAME,
     {
-      title: "Model Context Inspector",
+      title: "CSP Probe Hits",
       description:
-        "Test ui/update-model-context — send context updates from the app to the host model",
-      inputSchema: withFooterInputSchema({}),
-      outputSchema: withFooterOutputSchema({}),
+        "List the CSP probe requests the server received for a probe run. Called by the CSP inspector app, not the model.",
+      inputSchema: {
+        runId: z.string().describe("Run ID the app put in the probe URLs"),
+      },
+      outputSchema: {
+        runId: z.string(),
+        hits: z
+          .array(
+            z.object({
+              probe: z.string(),
+              host: z.string(),
+              time: z.string(),
+            })
+          )
+          .describe("Probe requests received, in arrival order"),
+      },
       _meta: {
         ui: {
-          resourceUri: INSPECT_MODEL_CONTEXT_URI,
+          visibility: ["app"],
         },
       },
     },
     async (args) => {
+      const hits = [
+        ...getCspProbeHits(args.runId),
+        ...(PROBE_SERVER === "remote"
+          ? await fetchRemoteCspProbeHits(args.runId)
+          : []),
+      ]
+
       return {
         content: [
           {
             type: "text",
-            text: `Model Context Inspector loaded. Use the counter or manual form to send ui/update-model-context requests.`,
+            text: `${hits.length} CSP probe request(s) received for run ${args.runId}.`,
           },
         ],
-        structuredContent: buildFooterStructuredContent(args.joke),
+        structuredContent: { runId: args.runId, hits },
       }
     }
   )
 
   // ==========================================================================
-  // Media Player Inspector
+  // Resumability - App-only tools the resumability inspector uses to drop a
+  // stream, send messages while it is down, and check what the host replayed
   // ==========================================================================
 
-  server.registerResource(
-    "inspect-media-player",
-    INSPECT_MEDIA_PLAYER_URI,
+  // Log messages, so they honour logging/setLevel like every other one
+  const sendRunNotification = (
+    runId: string,
+    sequence: number,
+    send?: (notification: ServerNotification) => Promise<void>
+  ) => logging.log("info", { probe: RESUMABILITY_PROBE, runId, sequence }, send)
+
+  server.registerTool(
+    RESUMABILITY_PROBE_TOOL_NAME,
     {
-      title: "Media Player Inspector",
+      title: "Resumability Probe",
       description:
-        "Interactive video and audio player demo with open media sources rendered inside an MCP app",
-      mimeType: MCP_APPS_MIME_TYPE,
+        "Drop an SSE stream and send notifications while it is down, so the host has to resume with Last-Event-ID. Called by the resumability inspector app, not the model.",
+      inputSchema: {
+        runId: z.string().describe("Run ID to tag the notifications with"),
+        stream: z
+          .enum(["request", "standalone"])
+          .describe(
+            "Drop this request's response stream, or the session's GET stream"
+          ),
+        notifications: z
+          .number()
+          .int()
+          .min(1)
+          .max(20)
+          .describe("Notifications to send while the stream is down"),
+      },
+      outputSchema: {
+        runId: z.string(),
+        stream: z.enum(["request", "standalone"]),
+        eventStore: z
+          .enum(["memory", "file"])
+          .nullable()
+          .describe("Event store of this session, null if not resumable"),
+        closed: z.boolean().describe("Whether the server dropped the stream"),
+        sent: z.number().describe("Notifications sent while it was down"),
+        resumed: z
+          .boolean()
+          .nullable()
+          .describe(
+            "Request stream only: whether the host resumed before the result was sent"
+          ),
+      },
+      _meta: {
+        ui: {
+          visibility: ["app"],
+        },
+      },
     },
-    async () => ({
-      contents: [
-        {
-          uri: INSPECT_MEDIA_PLAYER_URI,
-          mimeType: MCP_APPS_MIME_TYPE,
-          text: loadAppHtml("media-player"),
-          _meta: {
-            ui: {
-              prefersBorder: true,
-              csp: {
-                resourceDomains: [
-                  BASE_URL,
-                  "https://fonts.googleapis.com",
-                  "https://fonts.gstatic.com",
-                  "https://download.blender.org",
-                  "https://dn721902.ca.archive.org",
-                ],
-              },
-            },
+    async (args, extra) => {
+      const store = getEventStore(extra.sessionId ?? "")
+      const since = new Date().toISOString()
+      let closed = false
+      let resumed: boolean | null = null
+      // Nothing would be sent to replay below the client's log level
+      const silenced = logging.isSuppressed("info")
+
+      if (silenced) {
+        // Leave the streams alone
+      } else if (args.stream === "standalone") {
+        // Give the host an event ID to resume from, then send while it's gone
+        await sendRunNotification(args.runId, 0)
+        if (extra.closeStandaloneSSEStream) {
+          extra.closeStandaloneSSEStream()
+          closed = true
+        }
+        for (let sequence = 1; sequence <= args.notifications; sequence++) {
+          await sendRunNotification(args.runId, sequence)
+        }
+      } else {
+        // The result can only reach a host that resumed this request's stream
+        if (store && extra.closeSSEStream) {
+          extra.closeSSEStream()
+          closed = true
+          const replay = await waitForReplay(
+            store,
+            (replay) =>
+              replay.streamId !== STANDALONE_STREAM_ID && replay.time >= since,
+            SSE_RETRY_INTERVAL_MS * 5
+          )
+          resumed = replay !== null
+        }
+        for (let sequence = 1; sequence <= args.notifications; sequence++) {
+          await sendRunNotification(
+            args.runId,
+            sequence,
+            extra.sendNotification
+          )
+        }
+      }
+
+      return {
+        content: [
+          {
+            type: "text",
+            text: closed
+              ? `Dropped the ${args.stream} stream and sent ${args.notifications} notification(s) for run ${args.runId}.`
+              : silenced
+                ? `The client's log level is above info, so there is nothing to replay and resumption can't be tested.`
+                : `This session can't drop its ${args.stream} stream, so resumption can't be tested.`,
           },
+        ],
+        structuredContent: {
+          runId: args.runId,
+          stream: args.stream,
+          eventStore: store?.kind ?? null,
+          closed,
+          sent: closed ? args.notifications : 0,
+          resumed,
         },
-      ],
-    })
+      }
+    }
   )
 
   server.registerTool(
-    "inspect-media-player",
+    RESUMABILITY_STATUS_TOOL_NAME,
     {
-      title: "Media Player Inspector",
+      title: "Resumability Status",
       description:
-        "Launch a media player demo that switches between open video and audio content inside the MCP app host",
-      inputSchema: withFooterInputSchema({
-        mediaType: z
-          .enum(["video", "audio"])
-          .describe("Which media mode to open first")
-          .optional(),
-      }),
-      outputSchema: withFooterOutputSchema({
-        mediaType: z
-          .enum(["video", "audio"])
-          .describe("The initially selected media mode"),
-      }),
+        "List the stream resumptions in this session and how many of a run's notifications they replayed. Called by the resumability inspector app, not the model.",
+      inputSchema: {
+        runId: z.string().describe("Run ID the notifications were tagged with"),
+      },
+      outputSchema: {
+        runId: z.string(),
+        eventStore: z.enum(["memory", "file"]).nullable(),
+        replayed: z
+          .number()
+          .describe("Notifications of this run the host got back on resume"),
+        replays: z.array(
+          z.object({
+            streamId: z.string(),
+            lastEventId: z.string(),
+            messages: z.number(),
+            time: z.string(),
+          })
+        ),
+      },
       _meta: {
         ui: {
-          resourceUri: INSPECT_MEDIA_PLAYER_URI,
+          visibility: ["app"],
         },
       },
     },
-    async (args) => {
-      const mediaType = args.mediaType ?? "video"
+    async (args, extra) => {
+      const store = getEventStore(extra.sessionId ?? "")
+      const replays = store?.getReplays() ?? []
+      const replayed = new Set(
+        replays.flatMap((replay) =>
+          replay.messages.flatMap((message) => {
+            const params = "params" in message ? message.params : undefined
+            const data = params?.data as
+              | { probe?: string; runId?: string; sequence?: number }
+              | undefined
+            return data?.probe === RESUMABILITY_PROBE &&
+              data.runId === args.runId
+              ? [data.sequence]
+              : []
+          })
+        )
+      )
 
       return {
         content: [
           {
             type: "text",
-            text: `Media Player Inspector loaded. Showing the ${mediaType} demo inside the MCP app host.`,
+            text: `${replays.length} stream resumption(s); ${replayed.size} notification(s) of run ${args.runId} replayed.`,
           },
         ],
-        structuredContent: buildFooterStructuredContent(args.joke, {
-          mediaType,
+        structuredContent: {
+          runId: args.runId,
+          eventStore: store?.kind ?? null,
+          replayed: replayed.size,
+          replays: replays.map((replay) => ({
+            streamId: replay.streamId,
+            lastEventId: replay.lastEventId,
+            messages: replay.messages.length,
+            time: replay.time,
+          })),
+        },
+      }
+    }
+  )
+
+  // ==========================================================================
+  // Logging - App-only tool the logging inspector uses to have the server log
+  // at chosen levels, filtered by the level the client set
+  // ==========================================================================
+
+  const logLevelSchema = z.enum(LOG_LEVELS as [string, ...string[]])
+
+  server.registerTool(
+    SERVER_LOG_EMIT_TOOL_NAME,
+    {
+      title: "Server Log Emit",
+      description:
+        "Send notifications/message at each chosen level during this call, skipping levels below the one the client set with logging/setLevel. Called by the logging inspector app, not the model.",
+      inputSchema: {
+        runId: z.string().describe("Run ID to tag the log messages with"),
+        levels: z
+          .array(logLevelSchema)
+          .min(1)
+          .describe("Levels to log at, one message each"),
+      },
+      outputSchema: {
+        runId: z.string(),
+        clientLevel: logLevelSchema
+          .nullable()
+          .describe("Level the client set, null if it never did"),
+        setLevelRequests: z
+          .array(z.object({ level: logLevelSchema, time: z.string() }))
+          .describe("logging/setLevel requests received in this session"),
+        sent: z.array(logLevelSchema).describe("Levels sent to the client"),
+        suppressed: z
+          .array(logLevelSchema)
+          .describe("Levels dropped for being below the client's level"),
+      },
+      _meta: {
+        ui: {
+          visibility: ["app"],
+        },
+      },
+    },
+    async (args, extra) => {
+      const sent: string[] = []
+      const suppressed: string[] = []
+
+      // Least severe first, so hosts list them in a predictable order
+      for (const level of LOG_LEVELS.filter((level) =>
+        args.levels.includes(level)
+      )) {
+        const delivered = await logging.log(
+          level,
+          {
+            runId: args.runId,
+            level,
+            message: `Test log message at level "${level}" from the logging inspector`,
+          },
+          extra.sendNotification
+        )
+        if (delivered) {
+          sent.push(level)
+        } else {
+          suppressed.push(level)
+        }
+      }
+
+      const clientLevel = logging.getLevel()
+      return {
+        content: [
+          {
+            type: "text",
+            text: `Logged at ${sent.length} level(s) for run ${args.runId}${
+              suppressed.length > 0
+                ? `; ${suppressed.join(", ")} suppressed below the client's level "${clientLevel}"`
+                : ""
+            }.`,
+          },
+        ],
+        structuredContent: {
+          runId: args.runId,
+          clientLevel,
+          setLevelRequests: logging.getSetLevelRequests(),
+          sent,
+          suppressed,
+        },
+      }
+    }
+  )
+
+  server.registerTool(
+    SERVER_OBSERVED_CAPABILITIES_TOOL_NAME,
+    {
+      title: "Server-Observed Capabilities",
+      description:
+        "Returns the MCP Apps capabilities the client advertised in initialize, as seen by the server on the wire",
+      inputSchema: {},
+      outputSchema: {
+        observed: z
+          .boolean()
+          .describe("Whether the server saw the client's initialize request"),
+        clientInfo: z
+          .object({ name: z.string(), version: z.string() })
+          .passthrough()
+          .nullable(),
+        protocolVersion: z.string().nullable(),
+        supportsMcpApps: z.boolean(),
+        location: z
+          .enum(["extensions", "experimental"])
+          .nullable()
+          .describe("Where the MCP Apps capability was advertised"),
+        advertised: z.object({
+          extensions: z.record(z.unknown()).nullable(),
+          experimental: z.record(z.unknown()).nullable(),
         }),
+        mimeTypes: z.array(z.string()),
+        supportsMcpAppMimeType: z.boolean(),
+        features: z.array(z.string()),
+        sandboxPolicies: z.array(z.string()),
+        capabilities: z
+          .record(z.unknown())
+          .describe("Client capabilities exactly as sent"),
+        observedAt: z.string().nullable(),
+      },
+    },
+    async () => {
+      const observed = observedCapabilities
+      const structuredContent = observed
+        ? { observed: true, ...observed }
+        : {
+            observed: false,
+            clientInfo: null,
+            protocolVersion: null,
+            supportsMcpApps: false,
+            location: null,
+            advertised: { extensions: null, experimental: null },
+            mimeTypes: [],
+            supportsMcpAppMimeType: false,
+            features: [],
+            sandboxPolicies: [],
+            capabilities: {},
+            observedAt: null,
+          }
+
+      return {
+        content: [
+          {
+            type: "text",
+            text: !observed
+              ? "The server has not seen an initialize request on this connection."
+              : observed.supportsMcpApps
+                ? `Client advertises MCP Apps under ${observed.location} with MIME types: ${observed.mimeTypes.join(", ")}`
+                : "Client does not advertise MCP Apps support.",
+          },
+        ],
+        structuredContent,
       }
     }
   )
@@ -0,0 +1,17 @@
+/**
+ * Entry point for a standalone CSP probe origin.
+ *
+ * Serves only the probe routes, for deployments where the second origin
+ * can't be a second port of the main server. Point the main server's
+ * PROBE_BASE_URL at it and set PROBE_SERVER=remote.
+ *
+ * Usage: node dist/probe-server.js
+ */
+
+import { PORT } from "./utils/constants.js"
+import { startCspProbeServer } from "./utils/csp-probes.js"
+import { logProbeServerStarted } from "./utils/logger.js"
+
+startCspProbeServer(PORT, () => {
+  logProbeServerStarted(PORT)
+})
@@ -0,0 +1,149 @@
+/**
+ * Command-line driver for the reference host.
+ *
+ * Mounts inspectors in the reference host and prints the UI protocol traffic
+ * each one exchanged. Runs against an in-process bench server by default, or
+ * against a running server with `--url`.
+ *
+ *   pnpm host:reference                          # every inspector
+ *   pnpm host:reference inspect-host-info --theme dark
+ *   pnpm host:reference --url http://localhost:3001/mcp
+ */
+
+import { parseArgs } from "util"
+import chalk from "chalk"
+import { Client } from "@modelcontextprotocol/sdk/client/index.js"
+import { InMemoryTransport } from "@modelcontextprotocol/sdk/inMemory.js"
+import { StreamableHTTPClientTransport } from "@modelcontextprotocol/sdk/client/streamableHttp.js"
+import type { ClientCapabilities } from "@modelcontextprotocol/sdk/types.js"
+import { INSPECTORS } from "../inspectors.js"
+import { initMcpAppServer } from "../mcp-app-server.js"
+import type { DisplayMode, Theme } from "../types/mcp-apps.js"
+import { REPORT_RESULT_TOOL_NAME } from "../utils/constants.js"
+import { recordLocalSession } from "../utils/session-activity.js"
+import {
+  buildConformanceReport,
+  renderReportMarkdown,
+} from "../utils/conformance-report.js"
+import {
+  DEFAULT_CLIENT_CAPABILITIES,
+  DEFAULT_HOST_INFO,
+  createReferenceHost,
+  type ReferenceHostMessage,
+} from "./reference-host.js"
+
+const { values, positionals } = parseArgs({
+  allowPositionals: true,
+  options: {
+    url: { type: "string" },
+    theme: { type: "string", default: "light" },
+    "display-mode": { type: "string", default: "inline" },
+    wait: { type: "string", default: "10000" },
+    console: { type: "boolean", default: false },
+  },
+})
+
+const waitMs = Number(values.wait)
+
+function isReportCall(entry: ReferenceHostMessage) {
+  const message = entry.message as {
+    method?: string
+    params?: { name?: string }
+  }
+  return (
+    entry.direction === "app→host" &&
+    message.method === "tools/call" &&
+    message.params?.name === REPORT_RESULT_TOOL_NAME
+  )
+}
+
+function describeMessage(entry: ReferenceHostMessage) {
+  const message = entry.message as {
+    id?: string | number
+    method?: string
+    error?: { message: string }
+  }
+  const arrow =
+    entry.direction === "app→host"
+      ? chalk.cyan("app → host")
+      : chalk.magenta("host → app")
+  if (message.method) {
+    const id = message.id !== undefined ? chalk.gray(` #${message.id}`) : ""
+    return `${arrow}  ${message.method}${id}`
+  }
+  if (message.error) {
+    return `${arrow}  ${chalk.red(`error #${message.id}: ${message.error.message}`)}`
+  }
+  return `${arrow}  ${chalk.gray(`result #${message.id}`)}`
+}
+
+async function connectClient() {
+  const client = new Client(DEFAULT_HOST_INFO, {
+    // The SDK's ClientCapabilities type has no `extensions` key yet
+    capabilities: DEFAULT_CLIENT_CAPABILITIES as ClientCapabilities,
+  })
+
+  if (values.url) {
+    await client.connect(new StreamableHTTPClientTransport(new URL(values.url)))
+    return client
+  }
+
+  const server = initMcpAppServer()
+  const [clientTransport, serverTransport] =
+    InMemoryTransport.createLinkedPair()
+  recordLocalSession(serverTransport)
+  await server.connect(serverTransport)
+  await client.connect(clientTransport)
+  return client
+}
+
+async function main() {
+  const client = await connectClient()
+  const host = createReferenceHost({
+    client,
+    forwardConsole: values.console,
+    hostContext: {
+      theme: values.theme as Theme,
+      displayMode: values["display-mode"] as DisplayMode,
+    },
+  })
+
+  const toolNames =
+    positionals.length > 0
+      ? positionals
+      : INSPECTORS.map((inspector) => inspector.name)
+
+  for (const name of toolNames) {
+    console.log(chalk.bold(`\n▶ ${name}`))
+    try {
+      const app = await host.mountTool(name)
+      await app.initialized
+      await app.waitForMessage(isReportCall, waitMs).catch(() => {
+        console.log(chalk.gray(`  (no result reported within ${waitMs}ms)`))
+      })
+      // Let the report call's response reach the app before teardown
+      await new Promise((resolve) => setTimeout(resolve, 100))
+      await app.teardown()
+      for (const entry of app.messages) {
+        console.log(`  ${describeMessage(entry)}`)
+      }
+    } catch (error) {
+      console.log(chalk.red(`  ${(error as Error).message}`))
+    }
+  }
+
+  // In-process runs can print the server's report directly
+  if (!values.url) {
+    const report = buildConformanceReport("local")
+    if (report) {
+      console.log(`\n${renderReportMarkdown(report)}`)
+    }
+  }
+
+  await client.close()
+}
+
+main().catch((error) => {
+  console.error(error)
+  process.exit(1)
+})
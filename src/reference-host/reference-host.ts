@@ -0,0 +1,758 @@
+/**
+ * Reference host for the MCP Apps UI protocol (SEP-1865).
+ *
+ * Loads any `ui://` resource from an MCP server into a jsdom window and plays
+ * the host side of the `UI_METHODS` protocol: it answers `ui/initialize` with
+ * a configurable HostContext, delivers tool input and results, and forwards
+ * `tools/call` and `resources/read` from the app to the server.
+ *
+ * It is used to exercise the inspectors without a real chat client, and is a
+ * readable baseline host authors can diff their own behaviour against.
+ */
+
+import { readFile } from "fs/promises"
+import { dirname, join, normalize } from "path"
+import { fileURLToPath } from "url"
+import type { Client } from "@modelcontextprotocol/sdk/client/index.js"
+import {
+  ToolListChangedNotificationSchema,
+  type CallToolResult,
+  type Tool,
+} from "@modelcontextprotocol/sdk/types.js"
+import { JSDOM, ResourceLoader, VirtualConsole } from "jsdom"
+import {
+  MCP_APPS_SPEC_VERSION,
+  UI_METHODS,
+  type ClientCapabilitiesWithMcpApps,
+  type DisplayMode,
+  type HostCapabilities,
+  type HostContext,
+  type JsonRpcErrorResponse,
+  type JsonRpcNotification,
+  type JsonRpcRequest,
+  type JsonRpcResponse,
+  type McpUiInitializeResult,
+  type McpUiToolMeta,
+  type UIResourceMeta,
+  type UIResourcePermissions,
+  type UiInitializeParams,
+  type UiRequestDisplayModeParams,
+} from "../types/mcp-apps.js"
+import {
+  BASE_URL,
+  MCP_APPS_EXTENSION_ID,
+  MCP_APPS_MIME_TYPE,
+} from "../utils/constants.js"
+
+const __filename = fileURLToPath(import.meta.url)
+const __dirname = dirname(__filename)
+
+// =============================================================================
+// Types
+// =============================================================================
+
+type JsonRpcMessage =
+  | JsonRpcRequest
+  | JsonRpcNotification
+  | JsonRpcResponse
+  | JsonRpcErrorResponse
+
+/** A message exchanged between the host and the mounted app */
+export interface ReferenceHostMessage {
+  direction: "app→host" | "host→app"
+  message: JsonRpcMessage
+  time: number
+}
+
+/**
+ * Handler for app → host requests the reference host does not forward to the
+ * server (`ui/message`, `ui/open-link`, `ui/update-model-context`, ...).
+ * Return the JSON-RPC result, or throw to reply with an error.
+ */
+export type AppRequestHandler = (
+  method: string,
+  params: unknown
+) => unknown | Promise<unknown>
+
+export interface ReferenceHostOptions {
+  /** Connected MCP client used to reach the bench server */
+  client: Client
+
+  /** hostInfo returned from `ui/initialize` */
+  hostInfo?: { name: string; version: string }
+
+  /**
+   * hostCapabilities returned from `ui/initialize`. By default the host
+   * approves each resource's declared CSP and permissions in `sandbox`.
+   * The app's Permission Policy allows exactly `sandbox.permissions`.
+   */
+  hostCapabilities?: HostCapabilities
+
+  /** HostContext returned from `ui/initialize` (merged over the defaults) */
+  hostContext?: HostContext
+
+  /** Protocol version returned from `ui/initialize` */
+  protocolVersion?: string
+
+  /** Optional override for host-handled app requests */
+  onAppRequest?: AppRequestHandler
+
+  /** Forward the app's console output to this process (default: false) */
+  forwardConsole?: boolean
+
+  /**
+   * Origin the app document is served from, given the resource's
+   * `_meta.ui.domain`. Defaults to the declared domain itself over https;
+   * override to emulate a host with its own sandbox domain scheme.
+   */
+  resolveAppOrigin?: (domain: string | undefined) => string
+}
+
+export interface MountedApp {
+  /** The jsdom window the app runs in */
+  window: JSDOM["window"]
+
+  /** Resource URI the app was loaded from */
+  uri: `ui://${string}`
+
+  /** `_meta.ui` declared on the resource contents */
+  resourceMeta: UIResourceMeta
+
+  /** Result of the tool call that rendered the app, if any */
+  toolResult: CallToolResult | null
+
+  /** Every message exchanged with the app, in order */
+  messages: ReferenceHostMessage[]
+
+  /** Latest size reported through `ui/notifications/size-changed` */
+  size: { width?: number; height?: number } | null
+
+  /** Current host context (updated by display mode changes) */
+  hostContext: HostContext
+
+  /** Resolves once the app has sent `ui/notifications/initialized` */
+  initialized: Promise<void>
+
+  /** Send a partial host context update to the app */
+  sendHostContextChanged(params: Partial<HostContext>): void
+
+  /** Send an arbitrary notification to the app */
+  sendNotification(method: string, params?: unknown): void
+
+  /**
+   * Resolves with the first message matching the predicate, including
+   * messages already exchanged
+   */
+  waitForMessage(
+    predicate: (message: ReferenceHostMessage) => boolean,
+    timeoutMs?: number
+  ): Promise<ReferenceHostMessage>
+
+  /**
+   * Send `ui/resource-teardown`, wait briefly for the reply, and close the
+   * window. Resolves to whether the app acknowledged the teardown.
+   */
+  teardown(reason?: string): Promise<boolean>
+}
+
+export interface MountToolOptions {
+  /** Arguments for the tool call (default: {}) */
+  arguments?: Record<string, unknown>
+
+  /** Skip sending `ui/notifications/tool-result` (to simulate a pending call) */
+  withholdResult?: boolean
+}
+
+// =============================================================================
+// Defaults
+// =============================================================================
+
+export const DEFAULT_HOST_INFO = {
+  name: "mcp-app-bench-reference-host",
+  version: "0.1.0",
+}
+
+/**
+ * Capabilities the host's MCP client advertises in `initialize`: MCP Apps
+ * under the standard `extensions` key.
+ */
+export const DEFAULT_CLIENT_CAPABILITIES = {
+  extensions: {
+    [MCP_APPS_EXTENSION_ID]: { mimeTypes: [MCP_APPS_MIME_TYPE] },
+  },
+} satisfies ClientCapabilitiesWithMcpApps
+
+export const DEFAULT_HOST_CAPABILITIES: HostCapabilities = {
+  openLinks: {},
+  serverTools: {},
+  serverResources: {},
+  logging: {},
+}
+
+export const DEFAULT_HOST_CONTEXT: HostContext = {
+  theme: "light",
+  displayMode: "inline",
+  availableDisplayModes: ["inline", "fullscreen", "pip"],
+  containerDimensions: { maxHeight: 6000, width: 800 },
+  locale: "en-US",
+  timeZone: "UTC",
+  userAgent: "mcp-app-bench-reference-host/0.1.0",
+  platform: "desktop",
+  deviceCapabilities: { touch: false, hover: true },
+  safeAreaInsets: { top: 0, right: 0, bottom: 0, left: 0 },
+}
+
+const DEFAULT_WAIT_TIMEOUT_MS = 5000
+const TEARDOWN_TIMEOUT_MS = 1000
+
+// JSON-RPC error codes
+const METHOD_NOT_FOUND = -32601
+const INVALID_PARAMS = -32602
+const INTERNAL_ERROR = -32603
+
+// =============================================================================
+// Asset Loading
+// =============================================================================
+
+/**
+ * Serves the bench's own static assets (shell.js, shell.css) from disk so
+ * apps can boot without the HTTP server. Every other subresource is skipped.
+ */
+class StaticAssetLoader extends ResourceLoader {
+  private readonly staticDir = join(__dirname, "..", "static")
+
+  fetch(url: string, options: Parameters<ResourceLoader["fetch"]>[1]) {
+    if (!url.startsWith(`${BASE_URL}/`)) {
+      return null
+    }
+
+    const pathname = new URL(url).pathname
+    const relative = pathname.startsWith("/static/")
+      ? pathname.slice("/static/".length)
+      : pathname.slice(1)
+    const filePath = normalize(join(this.staticDir, relative))
+
+    if (!filePath.startsWith(this.staticDir)) {
+      return null
+    }
+
+    // jsdom aborts in-flight requests when the window closes
+    const promise = readFile(filePath) as ReturnType<ResourceLoader["fetch"]>
+    return Object.assign(promise!, { abort() {} })
+  }
+}
+
+/**
+ * Minimal ResizeObserver for jsdom, which has no layout engine.
+ * The shell only uses it to trigger size reporting.
+ */
+class NoopResizeObserver {
+  observe() {}
+  unobserve() {}
+  disconnect() {}
+}
+
+/**
+ * matchMedia for jsdom. Only `prefers-color-scheme` is evaluated, against the
+ * host theme, which is what a host styling the iframe's color-scheme gives.
+ */
+function createMatchMedia(getTheme: () => HostContext["theme"]) {
+  return (query: string) => {
+    const scheme = /prefers-color-scheme:\s*(dark|light)/.exec(query)?.[1]
+    return {
+      media: query,
+      matches: scheme ? scheme === (getTheme() ?? "light") : false,
+      onchange: null,
+      addEventListener() {},
+      removeEventListener() {},
+      addListener() {},
+      removeListener() {},
+      dispatchEvent: () => false,
+    }
+  }
+}
+
+/** `_meta.ui.permissions` → Permission Policy features (SEP-1865) */
+const PERMISSION_POLICY_FEATURES: Record<keyof UIResourcePermissions, string> =
+  {
+    camera: "camera",
+    microphone: "microphone",
+    geolocation: "geolocation",
+    clipboardWrite: "clipboard-write",
+  }
+
+/**
+ * `document.permissionsPolicy` for jsdom, allowing exactly the approved
+ * permissions, which is what a host delegating them through the iframe
+ * `allow` attribute gives.
+ */
+function createPermissionsPolicy(approved: UIResourcePermissions = {}) {
+  const allowed = Object.keys(approved)
+    .filter((name) => name in PERMISSION_POLICY_FEATURES)
+    .map(
+      (name) => PERMISSION_POLICY_FEATURES[name as keyof UIResourcePermissions]
+    )
+
+  return {
+    allowedFeatures: () => [...allowed],
+    allowsFeature: (feature: string) => allowed.includes(feature),
+    features: () => Object.values(PERMISSION_POLICY_FEATURES),
+  }
+}
+
+/**
+ * Origin the app document is served from. The reference host honours
+ * `_meta.ui.domain` as a bare hostname (or a full origin) served over https;
+ * without one, apps share the bench server's origin.
+ */
+function resolveAppOrigin(domain: string | undefined): string {
+  if (!domain) return BASE_URL
+  return domain.includes("://") ? domain : `https://${domain}`
+}
+
+function clone<T>(value: T): T {
+  return value === undefined ? value : JSON.parse(JSON.stringify(value))
+}
+
+// =============================================================================
+// Reference Host
+// =============================================================================
+
+export function createReferenceHost(options: ReferenceHostOptions) {
+  const { client } = options
+  const hostInfo = options.hostInfo ?? DEFAULT_HOST_INFO
+  const protocolVersion = options.protocolVersion ?? MCP_APPS_SPEC_VERSION
+
+  // Fetched on first use and dropped on list_changed. A caller that replaces
+  // the client's list_changed handler keeps it cached
+  let toolList: Tool[] | null = null
+  client.setNotificationHandler(ToolListChangedNotificationSchema, () => {
+    toolList = null
+  })
+
+  // localStorage of the latest app mounted on each origin. The next mount on
+  // that origin starts from it, as a reloaded iframe would in a browser
+  const originStorage = new Map<string, Storage>()
+
+  async function getToolDefinition(name: string): Promise<Tool | undefined> {
+    if (!toolList) {
+      toolList = (await client.listTools()).tools
+    }
+    return toolList.find((tool) => tool.name === name)
+  }
+
+  /**
+   * Load a `ui://` resource into a fresh jsdom window and start the protocol
+   */
+  async function mountResource(
+    uri: `ui://${string}`,
+    mountOptions: {
+      toolInfo?: HostContext["toolInfo"]
+      toolInput?: Record<string, unknown>
+      toolResult?: CallToolResult | null
+    } = {}
+  ): Promise<MountedApp> {
+    const resource = await client.readResource({ uri })
+    const contents = resource.contents.find((item) => item.uri === uri)
+    if (!contents) {
+      throw new Error(`Resource ${uri} returned no matching contents`)
+    }
+    if (contents.mimeType !== MCP_APPS_MIME_TYPE) {
+      throw new Error(
+        `Resource ${uri} has MIME type ${contents.mimeType}, expected ${MCP_APPS_MIME_TYPE}`
+      )
+    }
+
+    const html =
+      "text" in contents
+        ? contents.text
+        : Buffer.from(contents.blob, "base64").toString("utf-8")
+    const resourceMeta = ((
+      contents._meta as { ui?: UIResourceMeta } | undefined
+    )?.ui ?? {}) as UIResourceMeta
+
+    const messages: ReferenceHostMessage[] = []
+    const waiters: {
+      predicate: (message: ReferenceHostMessage) => boolean
+      resolve: (message: ReferenceHostMessage) => void
+    }[] = []
+    const pendingHostRequests = new Map<
+      string | number,
+      (message: JsonRpcMessage) => void
+    >()
+    let hostRequestId = 0
+
+    let resolveInitialized: () => void = () => {}
+    const initialized = new Promise<void>((resolve) => {
+      resolveInitialized = resolve
+    })
+
+    const hostCapabilities: HostCapabilities = options.hostCapabilities ?? {
+      ...DEFAULT_HOST_CAPABILITIES,
+      sandbox: {
+        ...(resourceMeta.csp ? { csp: resourceMeta.csp } : {}),
+        ...(resourceMeta.permissions
+          ? { permissions: resourceMeta.permissions }
+          : {}),
+      },
+    }
+
+    const hostContext: HostContext = {
+      ...clone(DEFAULT_HOST_CONTEXT),
+      ...clone(options.hostContext ?? {}),
+      ...(mountOptions.toolInfo ? { toolInfo: mountOptions.toolInfo } : {}),
+    }
+
+    function record(
+      direction: ReferenceHostMessage["direction"],
+      message: JsonRpcMessage
+    ) {
+      const entry = { direction, message, time: Date.now() }
+      messages.push(entry)
+      for (let i = waiters.length - 1; i >= 0; i--) {
+        if (waiters[i].predicate(entry)) {
+          waiters[i].resolve(entry)
+          waiters.splice(i, 1)
+        }
+      }
+    }
+
+    // ------------------------------------------------------------------------
+    // Host → App
+    // ------------------------------------------------------------------------
+
+    let dom: JSDOM | null = null
+
+    function postToApp(message: JsonRpcMessage) {
+      record("host→app", message)
+      const window = dom?.window
+      if (!window) return
+      window.dispatchEvent(
+        new window.MessageEvent("message", {
+          data: clone(message),
+          origin: BASE_URL,
+        })
+      )
+    }
+
+    function sendNotification(method: string, params?: unknown) {
+      postToApp({
+        jsonrpc: "2.0",
+        method,
+        ...(params !== undefined ? { params } : {}),
+      })
+    }
+
+    function sendRequest(method: string, params?: unknown) {
+      const id = `host-${++hostRequestId}`
+      return new Promise<JsonRpcMessage>((resolve) => {
+        pendingHostRequests.set(id, resolve)
+        postToApp({ jsonrpc: "2.0", id, method, params })
+      })
+    }
+
+    function respond(id: string | number, result: unknown) {
+      postToApp({ jsonrpc: "2.0", id, result })
+    }
+
+    function respondError(id: string | number, code: number, message: string) {
+      postToApp({ jsonrpc: "2.0", id, error: { code, message } })
+    }
+
+    function sendHostContextChanged(params: Partial<HostContext>) {
+      Object.assign(hostContext, params)
+      sendNotification(UI_METHODS.NOTIFICATIONS.HOST_CONTEXT_CHANGED, params)
+    }
+
+    // ------------------------------------------------------------------------
+    // App → Host
+    // ------------------------------------------------------------------------
+
+    async function handleAppRequest(
+      method: string,
+      params: unknown
+    ): Promise<unknown> {
+      switch (method) {
+        case UI_METHODS.INITIALIZE: {
+          const initParams = (params ?? {}) as UiInitializeParams
+          const appModes = initParams.appCapabilities?.availableDisplayModes
+          const result: McpUiInitializeResult = {
+            protocolVersion,
+            hostInfo,
+            hostCapabilities,
+            hostContext: {
+              ...hostContext,
+              ...(appModes && hostContext.availableDisplayModes
+                ? {
+                    availableDisplayModes:
+                      hostContext.availableDisplayModes.filter((mode) =>
+                        appModes.includes(mode)
+                      ),
+                  }
+                : {}),
+            },
+          }
+          return result
+        }
+
+        case UI_METHODS.REQUEST_DISPLAY_MODE: {
+          const { mode } = (params ?? {}) as UiRequestDisplayModeParams
+          const available: DisplayMode[] =
+            hostContext.availableDisplayModes ?? []
+          if (available.includes(mode) && mode !== hostContext.displayMode) {
+            sendHostContextChanged({ displayMode: mode })
+          }
+          return { mode: hostContext.displayMode }
+        }
+
+        case "tools/call": {
+          const call = params as {
+            name: string
+            arguments?: Record<string, unknown>
+          }
+          // Tools the host doesn't know of are left for the server to reject
+          const tool = await getToolDefinition(call.name)
+          const visibility = (tool?._meta as { ui?: McpUiToolMeta } | undefined)
+            ?.ui?.visibility
+          if (visibility && !visibility.includes("app")) {
+            throw Object.assign(
+              new Error(`Tool ${call.name} is not visible to apps`),
+              { code: INVALID_PARAMS }
+            )
+          }
+          return client.callTool(call)
+        }
+
+        case "resources/read":
+          return client.readResource(params as { uri: string })
+
+        case "ping":
+          return {}
+
+        case UI_METHODS.OPEN_LINK:
+        case UI_METHODS.MESSAGE:
+        case UI_METHODS.UPDATE_MODEL_CONTEXT:
+          return options.onAppRequest
+            ? options.onAppRequest(method, params)
+            : {}
+
+        default:
+          if (options.onAppRequest) {
+            return options.onAppRequest(method, params)
+          }
+          throw Object.assign(new Error(`Method not found: ${method}`), {
+            code: METHOD_NOT_FOUND,
+          })
+      }
+    }
+
+    function handleAppNotification(method: string, params: unknown) {
+      if (method === UI_METHODS.NOTIFICATIONS.INITIALIZED) {
+        resolveInitialized()
+        if (mountOptions.toolInput) {
+          sendNotification(UI_METHODS.NOTIFICATIONS.TOOL_INPUT, {
+            arguments: mountOptions.toolInput,
+          })
+        }
+        if (mountOptions.toolResult) {
+          sendNotification(
+            UI_METHODS.NOTIFICATIONS.TOOL_RESULT,
+            mountOptions.toolResult
+          )
+        }
+      } else if (method === UI_METHODS.NOTIFICATIONS.SIZE_CHANGED) {
+        mounted.size = (params ?? null) as MountedApp["size"]
+      }
+    }
+
+    function handleAppMessage(raw: unknown) {
+      if (!raw || typeof raw !== "object") return
+      const message = clone(raw) as JsonRpcMessage & {
+        id?: string | number
+        method?: string
+        params?: unknown
+      }
+      if (message.jsonrpc !== "2.0") return
+      record("app→host", message)
+
+      // Response to a host → app request
+      if (message.id !== undefined && !message.method) {
+        const resolve = pendingHostRequests.get(message.id)
+        if (resolve) {
+          pendingHostRequests.delete(message.id)
+          resolve(message)
+        }
+        return
+      }
+
+      if (!message.method) return
+
+      if (message.id === undefined) {
+        handleAppNotification(message.method, message.params)
+        return
+      }
+
+      const id = message.id
+      Promise.resolve()
+        .then(() => handleAppRequest(message.method!, message.params))
+        .then(
+          (result) => respond(id, result ?? {}),
+          (error: { code?: number; message?: string }) =>
+            respondError(
+              id,
+              typeof error?.code === "number" ? error.code : INTERNAL_ERROR,
+              error?.message ?? String(error)
+            )
+        )
+    }
+
+    // ------------------------------------------------------------------------
+    // Window
+    // ------------------------------------------------------------------------
+
+    const virtualConsole = new VirtualConsole()
+    if (options.forwardConsole) {
+      virtualConsole.sendTo(console, { omitJSDOMErrors: false })
+    }
+
+    const appOrigin = (options.resolveAppOrigin ?? resolveAppOrigin)(
+      resourceMeta.domain
+    )
+    dom = new JSDOM(html, {
+      url: `${appOrigin}/`,
+      runScripts: "dangerously",
+      resources: new StaticAssetLoader(),
+      pretendToBeVisual: true,
+      virtualConsole,
+      beforeParse(window) {
+        // The app talks to its host through window.parent.postMessage
+        Object.defineProperty(window, "parent", {
+          configurable: true,
+          value: {
+            postMessage: (message: unknown) => handleAppMessage(message),
+          },
+        })
+        Object.defineProperty(window, "ResizeObserver", {
+          configurable: true,
+          value: NoopResizeObserver,
+        })
+        Object.defineProperty(window, "matchMedia", {
+          configurable: true,
+          value: createMatchMedia(() => hostContext.theme),
+        })
+        const previousStorage = originStorage.get(window.location.origin)
+        for (let i = 0; previousStorage && i < previousStorage.length; i++) {
+          const key = previousStorage.key(i)!
+          window.localStorage.setItem(key, previousStorage.getItem(key)!)
+        }
+        originStorage.set(window.location.origin, window.localStorage)
+        Object.defineProperty(window.document, "permissionsPolicy", {
+          configurable: true,
+          value: createPermissionsPolicy(hostCapabilities.sandbox?.permissions),
+        })
+      },
+    })
+
+    const mounted: MountedApp = {
+      window: dom.window,
+      uri,
+      resourceMeta,
+      toolResult: mountOptions.toolResult ?? null,
+      messages,
+      size: null,
+      hostContext,
+      initialized,
+      sendHostContextChanged,
+      sendNotification,
+      waitForMessage(predicate, timeoutMs = DEFAULT_WAIT_TIMEOUT_MS) {
+        const existing = messages.find(predicate)
+        if (existing) {
+          return Promise.resolve(existing)
+        }
+        return new Promise((resolve, reject) => {
+          const waiter = {
+            predicate,
+            resolve: (message: ReferenceHostMessage) => {
+              clearTimeout(timer)
+              resolve(message)
+            },
+          }
+          const timer = setTimeout(() => {
+            waiters.splice(waiters.indexOf(waiter), 1)
+            reject(
+              new Error(`Timed out after ${timeoutMs}ms waiting for message`)
+            )
+          }, timeoutMs)
+          waiters.push(waiter)
+        })
+      },
+      async teardown(reason = "host-closed") {
+        // Hosts must not wait on an unresponsive app to close it
+        let timer: ReturnType<typeof setTimeout> | undefined
+        const acknowledged = await Promise.race([
+          sendRequest(UI_METHODS.RESOURCE_TEARDOWN, { reason }).then(
+            () => true
+          ),
+          new Promise<boolean>((resolve) => {
+            timer = setTimeout(() => resolve(false), TEARDOWN_TIMEOUT_MS)
+          }),
+        ])
+        clearTimeout(timer)
+        dom?.window.close()
+        dom = null
+        return acknowledged
+      },
+    }
+
+    return mounted
+  }
+
+  /**
+   * Call a tool the way a chat host would, then render its UI resource with
+   * the call's input and result
+   */
+  async function mountTool(
+    name: string,
+    mountOptions: MountToolOptions = {}
+  ): Promise<MountedApp> {
+    const tool = await getToolDefinition(name)
+    if (!tool) {
+      throw new Error(`Tool ${name} is not listed by the server`)
+    }
+
+    const uiMeta = (tool._meta as { ui?: { resourceUri?: string } } | undefined)
+      ?.ui
+    const resourceUri = uiMeta?.resourceUri
+    if (!resourceUri) {
+      throw new Error(`Tool ${name} does not declare _meta.ui.resourceUri`)
+    }
+
+    const toolArguments = mountOptions.arguments ?? {}
+    const toolResult = (await client.callTool({
+      name,
+      arguments: toolArguments,
+    })) as CallToolResult
+
+    return mountResource(resourceUri as `ui://${string}`, {
+      toolInfo: {
+        tool: {
+          name: tool.name,
+          description: tool.description ?? "",
+          inputSchema: tool.inputSchema,
+        },
+      },
+      toolInput: toolArguments,
+      toolResult: mountOptions.withholdResult ? null : toolResult,
+    })
+  }
+
+  return {
+    hostInfo,
+    protocolVersion,
+    getToolDefinition,
+    mountResource,
+    mountTool,
+  }
+}
+
+export type ReferenceHost = ReturnType<typeof createReferenceHost>
@@ -0,0 +1,105 @@
+/**
+ * Command-line driver for session replay.
+ *
+ * Replays a session recorded with `RECORD_SESSIONS_DIR` and reports every
+ * response that differs from the recording. Runs against an in-process bench
+ * server by default, or against a running server with `--url`. Exits with 1
+ * when any response differs or is missing, so a recording works as a
+ * regression fixture.
+ *
+ *   pnpm replay recordings/<session-id>.ndjson
+ *   pnpm replay recordings/<session-id>.ndjson --url http://localhost:6789/mcp
+ *   pnpm replay recording.ndjson --ignore serverInfo --json
+ */
+
+import { parseArgs } from "util"
+import { InMemoryTransport } from "@modelcontextprotocol/sdk/inMemory.js"
+import { StreamableHTTPClientTransport } from "@modelcontextprotocol/sdk/client/streamableHttp.js"
+import type { Transport } from "@modelcontextprotocol/sdk/shared/transport.js"
+import { initMcpAppServer } from "../mcp-app-server.js"
+import { logToStderr } from "../utils/logger.js"
+import {
+  getServerHosts,
+  readSessionRecording,
+  type ServerHosts,
+  type SessionRecording,
+} from "../utils/session-recording.js"
+import {
+  DEFAULT_IGNORED_KEYS,
+  renderReplayReport,
+  replaySession,
+} from "./replay.js"
+
+const { values, positionals } = parseArgs({
+  allowPositionals: true,
+  options: {
+    url: { type: "string" },
+    timeout: { type: "string", default: "10000" },
+    ignore: { type: "string" },
+    json: { type: "boolean", default: false },
+  },
+})
+
+async function connectTransport(
+  recording: SessionRecording
+): Promise<Transport> {
+  if (values.url) {
+    return new StreamableHTTPClientTransport(new URL(values.url))
+  }
+
+  const server = initMcpAppServer()
+  const [clientTransport, serverTransport] =
+    InMemoryTransport.createLinkedPair()
+  // Tools that echo the session ID then answer as they did when recorded
+  serverTransport.sessionId = recording.sessionId
+  await server.connect(serverTransport)
+  return clientTransport
+}
+
+// A remote server's probe host isn't known, but its app domain is derived
+// from its host the same way as here
+function getReplayedHosts(): ServerHosts {
+  if (!values.url) {
+    return getServerHosts()
+  }
+  const host = new URL(values.url).host
+  return {
+    server: host,
+    appDomain: host.toLowerCase().replace(/[^a-z0-9]+/g, "-"),
+  }
+}
+
+async function main() {
+  const [path] = positionals
+  if (!path) {
+    console.error("Usage: pnpm replay <recording.ndjson> [--url <mcp url>]")
+    process.exit(2)
+  }
+
+  // stdout carries the report; the in-process server logs to stderr
+  logToStderr()
+
+  const recording = await readSessionRecording(path)
+  const report = await replaySession(
+    recording,
+    await connectTransport(recording),
+    {
+      timeoutMs: Number(values.timeout),
+      hosts: getReplayedHosts(),
+      ignoreKeys: [
+        ...DEFAULT_IGNORED_KEYS,
+        ...(values.ignore?.split(",").map((key) => key.trim()) ?? []),
+      ],
+    }
+  )
+
+  console.log(
+    values.json ? JSON.stringify(report, null, 2) : renderReplayReport(report)
+  )
+  process.exit(report.summary.differs + report.summary.missing > 0 ? 1 : 0)
+}
+
+main().catch((error) => {
+  console.error(error)
+  process.exit(2)
+})
@@ -0,0 +1,364 @@
+/**
+ * Replays a recorded MCP session against a server and compares responses.
+ *
+ * The client's side of the recording is sent in order, one request at a
+ * time, and each response is compared with the one the server gave when the
+ * session was recorded. Values that change on every run (timestamps, UUIDs,
+ * cache-busting hashes) are normalized first, so only real behaviour changes
+ * are reported.
+ */
+
+import type { Transport } from "@modelcontextprotocol/sdk/shared/transport.js"
+import {
+  isJSONRPCErrorResponse,
+  isJSONRPCRequest,
+  isJSONRPCResultResponse,
+  type JSONRPCMessage,
+  type RequestId,
+} from "@modelcontextprotocol/sdk/types.js"
+import type {
+  ServerHosts,
+  SessionRecording,
+} from "../utils/session-recording.js"
+
+export type ReplayStatus = "match" | "differs" | "missing"
+
+export interface ValueDifference {
+  /** JSON path of the differing value, e.g. "result.contents[0].text" */
+  path: string
+  expected: unknown
+  actual: unknown
+}
+
+export interface ReplayedRequest {
+  id: RequestId
+  method: string
+  status: ReplayStatus
+  differences: ValueDifference[]
+}
+
+export interface ReplayReport {
+  sessionId: string
+  recordedAt: string
+  replayedAt: string
+  requests: ReplayedRequest[]
+  summary: Record<ReplayStatus, number>
+}
+
+export interface ReplayOptions {
+  /** How long to wait for each response */
+  timeoutMs?: number
+  /** Object keys whose values are never compared */
+  ignoreKeys?: string[]
+  /**
+   * Hosts of the server being replayed against. They are matched by role
+   * with the recorded hosts, so URLs compare equal across ports and domains
+   */
+  hosts?: ServerHosts
+}
+
+export interface Normalizer {
+  ignoreKeys: ReadonlySet<string>
+  /** Literal strings to replace, longest first */
+  replacements: [string, string][]
+}
+
+/** Keys that hold per-run values in the bench's own results */
+export const DEFAULT_IGNORED_KEYS = [
+  "time",
+  "observedAt",
+  "reportedAt",
+  "generatedAt",
+  "createdAt",
+  "updatedAt",
+]
+
+// Differences beyond this are dropped, so one broken resource can't flood
+// the report
+const MAX_DIFFERENCES = 20
+
+const VOLATILE_STRINGS: [RegExp, string][] = [
+  [/\d{4}-\d{2}-\d{2}T\d{2}:\d{2}:\d{2}(\.\d+)?Z/g, "<timestamp>"],
+  [/[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}/gi, "<uuid>"],
+  // CACHE_HASH, regenerated on every server start
+  [/\bv=[0-9a-f]{16}\b/g, "v=<hash>"],
+]
+
+/**
+ * Build the normalizer for a replay: ignored keys, plus both runs' hosts
+ * replaced by a placeholder for their role
+ */
+export function createNormalizer(
+  ignoreKeys: string[],
+  recordedHosts: ServerHosts = {},
+  replayedHosts: ServerHosts = {}
+): Normalizer {
+  const replacements: [string, string][] = []
+  for (const hosts of [recordedHosts, replayedHosts]) {
+    for (const [role, host] of Object.entries(hosts)) {
+      if (host) replacements.push([host, `<${role}-host>`])
+    }
+  }
+  replacements.sort(([a], [b]) => b.length - a.length)
+
+  return { ignoreKeys: new Set(ignoreKeys), replacements }
+}
+
+/**
+ * Replace per-run values, so two runs of the same session compare equal
+ */
+export function normalizeForComparison(
+  value: unknown,
+  normalizer: Normalizer
+): unknown {
+  if (typeof value === "string") {
+    const text = normalizer.replacements.reduce(
+      (text, [search, replacement]) => text.split(search).join(replacement),
+      value
+    )
+    return VOLATILE_STRINGS.reduce(
+      (text, [pattern, replacement]) => text.replace(pattern, replacement),
+      text
+    )
+  }
+  if (Array.isArray(value)) {
+    return value.map((item) => normalizeForComparison(item, normalizer))
+  }
+  if (value && typeof value === "object") {
+    return Object.fromEntries(
+      Object.entries(value)
+        .filter(([key]) => !normalizer.ignoreKeys.has(key))
+        .map(([key, item]) => [key, normalizeForComparison(item, normalizer)])
+    )
+  }
+  return value
+}
+
+function childPath(path: string, key: string | number) {
+  if (typeof key === "number") return `${path}[${key}]`
+  return /^[A-Za-z_$][\w$]*$/.test(key)
+    ? path
+      ? `${path}.${key}`
+      : key
+    : `${path}[${JSON.stringify(key)}]`
+}
+
+/**
+ * Paths at which two JSON values differ
+ */
+export function diffValues(
+  expected: unknown,
+  actual: unknown,
+  path = "",
+  differences: ValueDifference[] = []
+): ValueDifference[] {
+  if (differences.length >= MAX_DIFFERENCES) {
+    return differences
+  }
+
+  const bothArrays = Array.isArray(expected) && Array.isArray(actual)
+  const bothObjects =
+    !!expected &&
+    !!actual &&
+    typeof expected === "object" &&
+    typeof actual === "object" &&
+    !Array.isArray(expected) &&
+    !Array.isArray(actual)
+
+  if (bothArrays) {
+    const length = Math.max(expected.length, actual.length)
+    for (let i = 0; i < length; i++) {
+      diffValues(expected[i], actual[i], childPath(path, i), differences)
+    }
+  } else if (bothObjects) {
+    const expectedRecord = expected as Record<string, unknown>
+    const actualRecord = actual as Record<string, unknown>
+    const keys = new Set([
+      ...Object.keys(expectedRecord),
+      ...Object.keys(actualRecord),
+    ])
+    for (const key of keys) {
+      diffValues(
+        expectedRecord[key],
+        actualRecord[key],
+        childPath(path, key),
+        differences
+      )
+    }
+  } else if (expected !== actual) {
+    differences.push({ path: path || "(root)", expected, actual })
+  }
+
+  return differences
+}
+
+// The parts of a response worth comparing
+function responseBody(message: JSONRPCMessage) {
+  if (isJSONRPCResultResponse(message)) return { result: message.result }
+  if (isJSONRPCErrorResponse(message)) return { error: message.error }
+  return {}
+}
+
+function isResponse(message: JSONRPCMessage) {
+  return isJSONRPCResultResponse(message) || isJSONRPCErrorResponse(message)
+}
+
+/**
+ * Replay the client's side of `recording` over `transport`, which must be
+ * connected to a fresh server but not yet started
+ */
+export async function replaySession(
+  recording: SessionRecording,
+  transport: Transport,
+  options: ReplayOptions = {}
+): Promise<ReplayReport> {
+  const timeoutMs = options.timeoutMs ?? 10000
+  const normalizer = createNormalizer(
+    options.ignoreKeys ?? DEFAULT_IGNORED_KEYS,
+    recording.hosts,
+    options.hosts
+  )
+
+  // Responses the server gave when the session was recorded, by request ID
+  const recordedResponses = new Map<RequestId, JSONRPCMessage>()
+  for (const { direction, message } of recording.messages) {
+    if (direction === "server" && isResponse(message)) {
+      recordedResponses.set((message as { id: RequestId }).id, message)
+    }
+  }
+
+  // Messages from the server, by ID, with waiters for ones not yet received
+  const received = new Map<string, JSONRPCMessage>()
+  const waiters = new Map<string, (message: JSONRPCMessage) => void>()
+  const deliver = (key: string, message: JSONRPCMessage) => {
+    received.set(key, message)
+    waiters.get(key)?.(message)
+    waiters.delete(key)
+  }
+
+  transport.onmessage = (message) => {
+    if (isResponse(message)) {
+      deliver(`response:${(message as { id: RequestId }).id}`, message)
+    } else if (isJSONRPCRequest(message)) {
+      deliver(`request:${message.id}`, message)
+    }
+  }
+
+  const waitFor = (key: string) =>
+    new Promise<JSONRPCMessage | null>((resolve) => {
+      const message = received.get(key)
+      if (message) return resolve(message)
+      const timer = setTimeout(() => {
+        waiters.delete(key)
+        resolve(null)
+      }, timeoutMs)
+      waiters.set(key, (message) => {
+        clearTimeout(timer)
+        resolve(message)
+      })
+    })
+
+  await transport.start()
+
+  const requests: ReplayedRequest[] = []
+  for (const { direction, message } of recording.messages) {
+    if (direction !== "client") continue
+
+    // The client's answer to a server request goes once the server asks again
+    if (isResponse(message)) {
+      await waitFor(`request:${(message as { id: RequestId }).id}`)
+      await transport.send(message)
+      continue
+    }
+
+    await transport.send(message)
+    if (!isJSONRPCRequest(message)) continue
+
+    const actual = await waitFor(`response:${message.id}`)
+    const expected = recordedResponses.get(message.id)
+    if (!actual || !expected) {
+      requests.push({
+        id: message.id,
+        method: message.method,
+        status: actual || expected ? "missing" : "match",
+        differences: [],
+      })
+      continue
+    }
+
+    const differences = diffValues(
+      normalizeForComparison(responseBody(expected), normalizer),
+      normalizeForComparison(responseBody(actual), normalizer)
+    )
+    requests.push({
+      id: message.id,
+      method: message.method,
+      status: differences.length > 0 ? "differs" : "match",
+      differences,
+    })
+  }
+
+  await transport.close()
+
+  const summary: Record<ReplayStatus, number> = {
+    match: 0,
+    differs: 0,
+    missing: 0,
+  }
+  for (const request of requests) {
+    summary[request.status]++
+  }
+
+  return {
+    sessionId: recording.sessionId,
+    recordedAt: recording.startedAt,
+    replayedAt: new Date().toISOString(),
+    requests,
+    summary,
+  }
+}
+
+const EXCERPT_LENGTH = 120
+
+// Long strings, like app HTML, are shown from just before the first
+// character that differs from the other run
+function formatValue(value: unknown, other: unknown) {
+  if (value === undefined) return "(absent)"
+  let text = JSON.stringify(value)
+  if (typeof value === "string" && typeof other === "string") {
+    const otherText = JSON.stringify(other)
+    let start = 0
+    while (start < text.length && text[start] === otherText[start]) start++
+    if (start > 40) text = `...${text.slice(start - 20)}`
+  }
+  return text.length > EXCERPT_LENGTH
+    ? `${text.slice(0, EXCERPT_LENGTH - 3)}...`
+    : text
+}
+
+/**
+ * Plain-text summary of a replay, listing every request that didn't match
+ */
+export function renderReplayReport(report: ReplayReport): string {
+  const lines = [
+    `Replay of session ${report.sessionId} (recorded ${report.recordedAt})`,
+    `${report.summary.match} matched, ${report.summary.differs} differ, ${report.summary.missing} missing`,
+  ]
+
+  for (const request of report.requests) {
+    if (request.status === "match") continue
+    lines.push("", `#${request.id} ${request.method}: ${request.status}`)
+    if (request.status === "missing") {
+      lines.push("  No response from one of the two runs")
+    }
+    for (const difference of request.differences) {
+      lines.push(
+        `  ${difference.path}`,
+        `    recorded: ${formatValue(difference.expected, difference.actual)}`,
+        `    replayed: ${formatValue(difference.actual, difference.expected)}`
+      )
+    }
+  }
+
+  return lines.join("\n") + "\n"
+}
@@ -48,6 +48,9 @@
   const messageLog = []
   const MAX_MESSAGES = 100
 
+  // Host → app messages that did not match the spec shapes
+  const protocolViolations = []
+
   // ==========================================================================
   // HostContext Schema (for validation)
   // ==========================================================================
@@ -344,12 +347,14 @@
   // Messaging
   // ==========================================================================
 
-  function logMessage(direction, method, content) {
+  function logMessage(direction, method, content, violations) {
+    violations = violations || []
     messageLog.push({
       time: getTimestamp(),
       direction: direction,
       method: method,
       content: content,
+      violations: violations,
     })
     if (messageLog.length > MAX_MESSAGES) {
       messageLog.shift()
@@ -357,7 +362,7 @@
     // Trigger custom event for pages that want to render the log
     window.dispatchEvent(
       new CustomEvent("mcp-message-logged", {
-        detail: { direction, method, content },
+        detail: { direction, method, content, violations },
       })
     )
   }
@@ -391,6 +396,45 @@
     )
   }
 
+  // ==========================================================================
+  // Result Reporting
+  // ==========================================================================
+
+  // App-only server tool that stores inspector results per session + host
+  const REPORT_RESULT_TOOL = "report-inspector-result"
+
+  /**
+   * Submit an inspector's findings to the server so the run can be pulled
+   * later. Resolves with the tool result, or null if the host rejected it.
+   */
+  function reportResult(inspectorId, result) {
+    const args = {
+      inspector: inspectorId,
+      result: result || {},
+    }
+
+    if (currentHostInfo && currentHostInfo.hostInfo) {
+      args.hostInfo = {
+        name: String(currentHostInfo.hostInfo.name || "unknown"),
+        version: String(currentHostInfo.hostInfo.version || "unknown"),
+      }
+    }
+    if (
+      currentHostInfo &&
+      typeof currentHostInfo.protocolVersion === "string"
+    ) {
+      args.protocolVersion = currentHostInfo.protocolVersion
+    }
+
+    return sendRequest("tools/call", {
+      name: REPORT_RESULT_TOOL,
+      arguments: args,
+    }).catch(function (error) {
+      console.warn("[MCP Shell] Failed to report result:", error)
+      return null
+    })
+  }
+
   // ==========================================================================
   // JSON Viewer
   // ==========================================================================
@@ -759,6 +803,203 @@
     return "valid"
   }
 
+  // ==========================================================================
+  // Host Message Validation
+  // ==========================================================================
+
+  // Content blocks only need a string `type`; the rest depends on the type
+  const contentBlockSchema = {
+    type: "object",
+    children: { type: { type: "string" } },
+  }
+
+  const reasonParamsSchema = {
+    type: "object",
+    optional: true,
+    children: { reason: { type: "string", optional: true } },
+  }
+
+  const toolArgumentsSchema = {
+    type: "object",
+    children: { arguments: { type: "object" } },
+  }
+
+  // Expected shapes of host → app messages (SEP-1865, version 2026-01-26).
+  // "ui/initialize" describes the result of the app's request; the others
+  // describe notification / request params.
+  const hostMessageSchemas = {
+    "ui/initialize": {
+      type: "object",
+      children: {
+        protocolVersion: { type: "string" },
+        hostInfo: {
+          type: "object",
+          optional: true,
+          children: {
+            name: { type: "string" },
+            version: { type: "string" },
+          },
+        },
+        hostCapabilities: { type: "object", optional: true },
+        hostContext: {
+          type: "object",
+          optional: true,
+          children: hostContextSchema.hostContext.children,
+        },
+      },
+    },
+    "ui/notifications/host-context-changed": {
+      type: "object",
+      children: hostContextSchema.hostContext.children,
+    },
+    "ui/notifications/tool-input": toolArgumentsSchema,
+    "ui/notifications/tool-input-partial": toolArgumentsSchema,
+    "ui/notifications/tool-result": {
+      type: "object",
+      children: {
+        content: { type: "array", items: contentBlockSchema },
+        structuredContent: { type: "object", optional: true },
+        _meta: { type: "object", optional: true },
+        isError: { type: "boolean", optional: true },
+      },
+    },
+    "ui/notifications/tool-cancelled": reasonParamsSchema,
+    "ui/resource-teardown": reasonParamsSchema,
+  }
+
+  function getValueType(value) {
+    if (value === null) return "null"
+    return Array.isArray(value) ? "array" : typeof value
+  }
+
+  /**
+   * Check a value against a schema entry, collecting { path, message } pairs
+   */
+  function checkShape(value, schema, path, violations) {
+    const label = path || "(root)"
+
+    if (value === undefined) {
+      if (!schema.optional) {
+        violations.push({ path: label, message: "Required but missing" })
+      }
+      return violations
+    }
+
+    const actualType = getValueType(value)
+    const expectedTypes = Array.isArray(schema.type)
+      ? schema.type
+      : [schema.type]
+    if (expectedTypes.indexOf(actualType) === -1) {
+      violations.push({
+        path: label,
+        message:
+          "Expected " + expectedTypes.join(" | ") + ", got " + actualType,
+      })
+      return violations
+    }
+
+    if (schema.enum && schema.enum.indexOf(value) === -1) {
+      violations.push({
+        path: label,
+        message:
+          'Value "' + value + '" not in spec: [' + schema.enum.join(", ") + "]",
+      })
+    }
+
+    if (schema.children && actualType === "object") {
+      for (const key in schema.children) {
+        checkShape(
+          value[key],
+          schema.children[key],
+          path ? path + "." + key : key,
+          violations
+        )
+      }
+    }
+
+    if (schema.items && actualType === "array") {
+      value.forEach(function (item, index) {
+        checkShape(item, schema.items, path + "[" + index + "]", violations)
+      })
+    }
+
+    return violations
+  }
+
+  /**
+   * Validate a host → app message against the spec.
+   * `payload` is the result for "ui/initialize" and the params otherwise.
+   * Returns a list of { path, message } violations (empty when valid).
+   */
+  function validateHostMessage(method, payload, message) {
+    const violations = []
+    const schema = hostMessageSchemas[method]
+
+    if (schema) {
+      checkShape(
+        payload,
+        schema,
+        method === "ui/initialize" ? "result" : "params",
+        violations
+      )
+    }
+
+    if (message && method === "ui/resource-teardown" && !("id" in message)) {
+      violations.push({
+        path: "id",
+        message: "ui/resource-teardown must be a request with an id",
+      })
+    }
+
+    return violations
+  }
+
+  /**
+   * Validate a JSON-RPC error object received in a response
+   */
+  function validateErrorResponse(error) {
+    return checkShape(
+      error,
+      {
+        type: "object",
+        children: {
+          code: { type: "number" },
+          message: { type: "string" },
+        },
+      },
+      "error",
+      []
+    )
+  }
+
+  function recordViolations(method, violations) {
+    if (violations.length === 0) return
+
+    const time = getTimestamp()
+    violations.forEach(function (violation) {
+      protocolViolations.push({
+        time: time,
+        method: method,
+        path: violation.path,
+        message: violation.message,
+      })
+    })
+    console.warn(
+      "[MCP Shell] Host message violates the spec:",
+      method,
+      violations
+    )
+    window.dispatchEvent(
+      new CustomEvent("mcp-protocol-violation", {
+        detail: { method: method, violations: violations },
+      })
+    )
+  }
+
+  function getProtocolViolations() {
+    return protocolViolations.slice()
+  }
+
   // ==========================================================================
   // Test Runner
   // ==========================================================================
@@ -1078,10 +1319,24 @@
       const pending = pendingRequests.get(data.id)
       pendingRequests.delete(data.id)
       if (data.error) {
-        logMessage("received", pending.method + " (error)", data.error)
+        const violations = validateErrorResponse(data.error)
+        logMessage(
+          "received",
+          pending.method + " (error)",
+          data.error,
+          violations
+        )
+        recordViolations(pending.method, violations)
         pending.reject(data.error)
       } else {
-        logMessage("received", pending.method + " (response)", data.result)
+        const violations = validateHostMessage(pending.method, data.result)
+        logMessage(
+          "received",
+          pending.method + " (response)",
+          data.result,
+          violations
+        )
+        recordViolations(pending.method, violations)
         pending.resolve(data.result)
       }
       return
@@ -1089,7 +1344,9 @@
 
     // Handle notifications from host
     if (data.method) {
-      logMessage("received", data.method, data.params)
+      const violations = validateHostMessage(data.method, data.params, data)
+      logMessage("received", data.method, data.params, violations)
+      recordViolations(data.method, violations)
     }
 
     // Handle host-context-changed notification
@@ -1270,15 +1527,10 @@
   // Inspector Navigation
   // ==========================================================================
 
-  const inspectors = [
-    { id: "inspect-host-info", icon: "🖥️", label: "Host Info" },
-    { id: "inspect-host-styles", icon: "🎨", label: "Styles" },
-    { id: "inspect-messaging", icon: "💬", label: "Messaging" },
-    { id: "inspect-tool-data", icon: "🔧", label: "Tool Data" },
-    { id: "inspect-display-modes", icon: "🖼️", label: "Display Modes" },
-    { id: "inspect-model-context", icon: "🧠", label: "Model Context" },
-    { id: "inspect-media-player", icon: "🎬", label: "Media Player" },
-  ]
+  // Injected by the server from the inspector registry (src/inspectors.ts)
+  const inspectors = Array.isArray(window.MCP_APP_BENCH_INSPECTORS)
+    ? window.MCP_APP_BENCH_INSPECTORS
+    : []
   let currentInspectorFooterId = null
 
   function getFooterStructuredContent() {
@@ -1435,6 +1687,7 @@
     getMessageLog: function () {
       return messageLog.slice()
     },
+    getProtocolViolations: getProtocolViolations,
     isReady: checkReady,
 
     // Loading state
@@ -1445,6 +1698,9 @@
     sendNotification: sendNotification,
     sendSizeChanged: sendSizeChanged,
 
+    // Result reporting
+    reportResult: reportResult,
+
     // Theme
     setTheme: setTheme,
     getTheme: getTheme,
@@ -1470,6 +1726,7 @@
     validateHostContext: validateHostContext,
     getPathValidationStatus: getPathValidationStatus,
     hostContextSchema: hostContextSchema,
+    validateHostMessage: validateHostMessage,
 
     // Test Runner
     generateTestCases: generateTestCases,
@@ -0,0 +1,50 @@
+/**
+ * stdio entry point for hosts that launch MCP servers as a subprocess.
+ *
+ * Serves the same tools and resources as the HTTP server. stdout carries
+ * JSON-RPC, so all logging goes to stderr, and with no HTTP server running
+ * the shell assets are embedded in each app.
+ *
+ * Usage: node dist/stdio.js
+ */
+
+import { StdioServerTransport } from "@modelcontextprotocol/sdk/server/stdio.js"
+import { initMcpAppServer } from "./mcp-app-server.js"
+import { useInlineShellAssets } from "./utils/load-app-html.js"
+import {
+  logClientMessage,
+  logSelfLintFailed,
+  logServerMessage,
+  logToStderr,
+} from "./utils/logger.js"
+import { lintServerMetadata } from "./utils/self-lint.js"
+import { recordLocalSession } from "./utils/session-activity.js"
+
+const SESSION_ID = "stdio"
+
+logToStderr()
+useInlineShellAssets()
+
+// Refuse to serve metadata hosts would reject
+const selfLintIssues = await lintServerMetadata(initMcpAppServer())
+if (selfLintIssues.length > 0) {
+  logSelfLintFailed(selfLintIssues)
+  process.exit(1)
+}
+
+const transport = new StdioServerTransport()
+
+transport.onmessage = (message) => {
+  logClientMessage(SESSION_ID, message, "stdio")
+}
+
+const originalSend = transport.send.bind(transport)
+transport.send = async (message) => {
+  logServerMessage(SESSION_ID, message, "stdio")
+  return originalSend(message)
+}
+
+// Counted like an HTTP session, for the inspectors that read its traffic
+recordLocalSession(transport)
+
+await initMcpAppServer().connect(transport)
@@ -0,0 +1,120 @@
+/**
+ * Runtime schemas for the MCP Apps (SEP-1865) metadata types.
+ *
+ * Each schema mirrors an interface in `./mcp-apps.ts` and is checked against
+ * it with `satisfies`, so the two cannot drift apart silently. They are used
+ * to validate what the server actually publishes (see `utils/self-lint.ts`).
+ */
+
+import { z } from "zod"
+import { MCP_APPS_MIME_TYPE } from "../utils/constants.js"
+import {
+  isUIResourceUri,
+  type McpUiToolMeta,
+  type UIResourceCSP,
+  type UIResourceContent,
+  type UIResourceMeta,
+  type UIResourcePermissions,
+} from "./mcp-apps.js"
+
+// =============================================================================
+// Primitives
+// =============================================================================
+
+/** Checks a schema's parsed output against the interface it mirrors */
+type SchemaFor<T> = z.ZodType<T, z.ZodTypeDef, unknown>
+
+const ORIGIN_SCHEMES = ["http:", "https:", "ws:", "wss:"]
+
+/**
+ * Checks that a CSP domain is a bare origin (`scheme://host[:port]`).
+ * A leading `*.` wildcard subdomain is allowed, as the spec permits.
+ */
+export function isValidCspOrigin(value: string): boolean {
+  const candidate = value.replace("://*.", "://")
+  let url: URL
+  try {
+    url = new URL(candidate)
+  } catch {
+    return false
+  }
+  return (
+    ORIGIN_SCHEMES.includes(url.protocol) &&
+    url.hostname.length > 0 &&
+    url.origin === candidate.toLowerCase()
+  )
+}
+
+export const CspOriginSchema = z.string().refine(isValidCspOrigin, (value) => ({
+  message: `"${value}" is not a valid origin (expected scheme://host[:port])`,
+}))
+
+export const UIResourceUriSchema = z
+  .string()
+  .refine(isUIResourceUri, (value) => ({
+    message: `"${value}" is not a ui:// URI`,
+  }))
+
+// =============================================================================
+// UI Resource Schemas
+// =============================================================================
+
+export const UIResourceCSPSchema = z
+  .object({
+    connectDomains: z.array(CspOriginSchema).optional(),
+    resourceDomains: z.array(CspOriginSchema).optional(),
+    frameDomains: z.array(CspOriginSchema).optional(),
+    baseUriDomains: z.array(CspOriginSchema).optional(),
+  })
+  .strict() satisfies SchemaFor<UIResourceCSP>
+
+const permissionSchema = z.object({}).strict().optional()
+
+export const UIResourcePermissionsSchema = z
+  .object({
+    camera: permissionSchema,
+    microphone: permissionSchema,
+    geolocation: permissionSchema,
+    clipboardWrite: permissionSchema,
+  })
+  .strict() satisfies SchemaFor<UIResourcePermissions>
+
+export const UIResourceMetaSchema = z
+  .object({
+    csp: UIResourceCSPSchema.optional(),
+    permissions: UIResourcePermissionsSchema.optional(),
+    domain: z.string().min(1).optional(),
+    prefersBorder: z.boolean().optional(),
+  })
+  .strict() satisfies SchemaFor<UIResourceMeta>
+
+export const UIResourceContentSchema = z
+  .object({
+    uri: UIResourceUriSchema,
+    mimeType: z.literal(MCP_APPS_MIME_TYPE),
+    text: z.string().optional(),
+    blob: z.string().optional(),
+    _meta: z
+      .object({ ui: UIResourceMetaSchema.optional() })
+      .passthrough()
+      .optional(),
+  })
+  .refine(
+    (content) => (content.text === undefined) !== (content.blob === undefined),
+    {
+      message: "Exactly one of text or blob must be set",
+    }
+  ) satisfies SchemaFor<UIResourceContent>
+
+// =============================================================================
+// Tool Metadata Schemas
+// =============================================================================
+
+export const ToolVisibilitySchema = z.enum(["model", "app"])
+
+export const McpUiToolMetaSchema = z
+  .object({
+    resourceUri: UIResourceUriSchema.optional(),
+    visibility: z.array(ToolVisibilitySchema).min(1).optional(),
+  })
+  .strict() satisfies SchemaFor<McpUiToolMeta>
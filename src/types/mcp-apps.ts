@@ -965,6 +965,9 @@ export interface UIResourceConfig {
 
   /** Optional dedicated domain for the app */
   domain?: string
+
+  /** Bytes of padding added to the HTML, to test host size limits */
+  htmlPaddingBytes?: number
 }
 
 /**
@@ -999,9 +1002,70 @@ export interface UIToolConfig<
   handler: (args: TInput) => Promise<{
     text: string
     structuredContent: TOutput
+    _meta?: Record<string, unknown>
   }>
 }
 
+/**
+ * Footer navigation entry for an inspector.
+ */
+export interface InspectorNavEntry {
+  /** Tool name the footer button asks the host to run */
+  id: string
+
+  /** Emoji shown on the footer button */
+  icon: string
+
+  /** Short label shown on the footer button */
+  label: string
+}
+
+/**
+ * Launcher card for an inspector, shown on the MCP App Bench start page.
+ */
+export interface InspectorLauncherEntry {
+  /** Tool name the card asks the host to run */
+  id: string
+
+  /** Emoji shown on the card */
+  icon: string
+
+  /** Card heading */
+  title: string
+
+  /** One or two sentences on what the inspector checks */
+  description: string
+}
+
+/**
+ * Declarative inspector definition.
+ *
+ * A single entry describes both the UI resource and the tool that renders it.
+ * The tool is linked to the resource through `_meta.ui.resourceUri`.
+ */
+export interface InspectorConfig<
+  TInput extends Record<string, unknown> = Record<string, unknown>,
+  TOutput extends Record<string, unknown> = Record<string, unknown>,
+>
+  extends
+    UIResourceConfig,
+    Omit<
+      UIToolConfig<TInput, TOutput>,
+      "title" | "description" | "inputSchema" | "resourceUri"
+    > {
+  /** Tool description, when it differs from the resource description */
+  toolDescription?: string
+
+  /** Zod schema for input validation (footer fields are added automatically) */
+  inputSchema?: ZodSchemaShape
+
+  /** Footer navigation entry; omit to hide the inspector from the footer */
+  nav?: Omit<InspectorNavEntry, "id">
+
+  /** Launcher card; omit to leave the inspector off the start page */
+  launcher?: Omit<InspectorLauncherEntry, "id">
+}
+
 // =============================================================================
 // Spec Version Constant
 // =============================================================================
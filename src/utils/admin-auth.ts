@@ -0,0 +1,66 @@
+/**
+ * Access control for the admin routes.
+ *
+ * Admin routes expose live session IDs and their traffic, so they need the
+ * admin token, and don't exist at all without one. The token is taken from
+ * an `Authorization: Bearer` header, or from `?token=` so the HTML pages work
+ * in a browser. Neither is sent by the browser on its own, so a cross-site
+ * form can't act with the admin's credentials.
+ */
+
+import { createHash, timingSafeEqual } from "crypto"
+import type express from "express"
+import { ADMIN_TOKEN } from "./constants.js"
+
+function digest(value: string) {
+  return createHash("sha256").update(value).digest()
+}
+
+/**
+ * The token a request presents, if any
+ */
+export function getRequestAdminToken(req: express.Request): string | null {
+  const header = req.headers.authorization
+  if (header?.startsWith("Bearer ")) {
+    return header.slice("Bearer ".length).trim()
+  }
+  return typeof req.query.token === "string" ? req.query.token : null
+}
+
+/**
+ * Middleware that answers 404 while no admin token is configured, 401
+ * without a token and 403 with the wrong one
+ */
+export function requireAdminToken(
+  adminToken: string | null = ADMIN_TOKEN
+): express.RequestHandler {
+  return (req, res, next) => {
+    if (!adminToken) {
+      return res.status(404).json({ error: { message: "Not found" } })
+    }
+
+    const token = getRequestAdminToken(req)
+    if (!token) {
+      res.setHeader("WWW-Authenticate", 'Bearer realm="admin"')
+      return res.status(401).json({
+        error: { message: "The admin token is required" },
+      })
+    }
+    // Digests have equal lengths, as timingSafeEqual requires
+    if (!timingSafeEqual(digest(token), digest(adminToken))) {
+      return res.status(403).json({
+        error: { message: "The admin token is not valid" },
+      })
+    }
+    next()
+  }
+}
+
+/**
+ * Append the admin token to a link, so pages can link to each other
+ */
+export function withAdminToken(path: string, token: string | null) {
+  if (!token) return path
+  const separator = path.includes("?") ? "&" : "?"
+  return `${path}${separator}token=${encodeURIComponent(token)}`
+}
@@ -0,0 +1,115 @@
+/**
+ * Server-side view of the MCP Apps capabilities a client advertised in
+ * `initialize`.
+ *
+ * The SDK parses `initialize` with a schema that drops unknown capability
+ * keys, including the standard `extensions` entry, so the observation is made
+ * from the raw message before it reaches the SDK.
+ */
+
+import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js"
+import {
+  isInitializeRequest,
+  type Implementation,
+} from "@modelcontextprotocol/sdk/types.js"
+import {
+  clientSupportsMcpApps,
+  clientSupportsMimeType,
+  getMcpAppsCapabilityLocation,
+  type ClientCapabilitiesWithMcpApps,
+  type McpAppsClientCapabilities,
+} from "../types/mcp-apps.js"
+import { MCP_APPS_EXTENSION_ID, MCP_APPS_MIME_TYPE } from "./constants.js"
+
+export interface ObservedClientCapabilities {
+  clientInfo: Implementation | null
+  /** MCP protocol version the client requested */
+  protocolVersion: string | null
+  supportsMcpApps: boolean
+  /** Where the MCP Apps capability with our MIME type was found */
+  location: "extensions" | "experimental" | null
+  /** The MCP Apps entry under each key, whether or not it is usable */
+  advertised: {
+    extensions: McpAppsClientCapabilities | null
+    experimental: McpAppsClientCapabilities | null
+  }
+  mimeTypes: string[]
+  supportsMcpAppMimeType: boolean
+  features: string[]
+  sandboxPolicies: string[]
+  /** Capabilities exactly as sent on the wire */
+  capabilities: Record<string, unknown>
+  observedAt: string
+}
+
+function asStringArray(value: unknown): string[] {
+  return Array.isArray(value)
+    ? value.filter((item): item is string => typeof item === "string")
+    : []
+}
+
+/**
+ * Summarise the MCP Apps support in a client's `initialize` params
+ */
+export function observeClientCapabilities(params: {
+  protocolVersion?: string
+  capabilities?: Record<string, unknown>
+  clientInfo?: Implementation
+}): ObservedClientCapabilities {
+  const capabilities = (params.capabilities ??
+    {}) as ClientCapabilitiesWithMcpApps
+  const location = getMcpAppsCapabilityLocation(capabilities)
+  const extension =
+    capabilities.extensions?.[MCP_APPS_EXTENSION_ID] ??
+    capabilities.experimental?.[MCP_APPS_EXTENSION_ID]
+
+  return {
+    clientInfo: params.clientInfo ?? null,
+    protocolVersion: params.protocolVersion ?? null,
+    supportsMcpApps: clientSupportsMcpApps(capabilities),
+    location,
+    advertised: {
+      extensions: capabilities.extensions?.[MCP_APPS_EXTENSION_ID] ?? null,
+      experimental: capabilities.experimental?.[MCP_APPS_EXTENSION_ID] ?? null,
+    },
+    mimeTypes: asStringArray(extension?.mimeTypes),
+    supportsMcpAppMimeType: clientSupportsMimeType(
+      capabilities,
+      MCP_APPS_MIME_TYPE
+    ),
+    features: asStringArray(extension?.features),
+    sandboxPolicies: asStringArray(extension?.sandboxPolicies),
+    capabilities: params.capabilities ?? {},
+    observedAt: new Date().toISOString(),
+  }
+}
+
+/**
+ * Call `onObserved` with the client's capabilities whenever the server
+ * receives `initialize` on any transport it connects to.
+ */
+export function observeInitialize(
+  server: McpServer,
+  onObserved: (
+    observed: ObservedClientCapabilities,
+    sessionId: string | undefined
+  ) => void
+) {
+  const connect = server.connect.bind(server)
+
+  server.connect = async (transport) => {
+    await connect(transport)
+
+    // Runs before the SDK's handler, which would strip `extensions`
+    const onmessage = transport.onmessage
+    transport.onmessage = (message, extra) => {
+      if (isInitializeRequest(message)) {
+        onObserved(
+          observeClientCapabilities(message.params),
+          transport.sessionId
+        )
+      }
+      onmessage?.(message, extra)
+    }
+  }
+}
@@ -0,0 +1,702 @@
+/**
+ * MCP Apps host conformance reports.
+ *
+ * Builds a report for one MCP session from the inspector results collected in
+ * the result store, and renders it as JSON, Markdown or standalone HTML so it
+ * can be attached to bug tickets filed against hosts.
+ *
+ * Results come from the apps, so their entries are checked against the shapes
+ * below and malformed ones are left out of the report.
+ */
+
+import express from "express"
+import { z } from "zod"
+import { MCP_APPS_SPEC_VERSION } from "../types/mcp-apps.js"
+import {
+  getRunsForReport,
+  type BenchRun,
+  type InspectorResultRecord,
+  type ReportedHostInfo,
+} from "./result-store.js"
+
+// =============================================================================
+// Report Types
+// =============================================================================
+
+/** Status of a single HostContext check, as produced by shell.js runTestCase */
+export type HostContextCheckStatus =
+  | "provided"
+  | "missing"
+  | "invalid"
+  | "warn"
+  | "pending"
+
+export interface HostContextCheck {
+  path: string
+  required: boolean
+  status: HostContextCheckStatus
+  message: string | null
+}
+
+/** A host → app message that did not match the spec, from shell.js */
+export interface ProtocolViolation {
+  time: string
+  method: string
+  path: string
+  message: string
+}
+
+/** Host Info comparison of the client's initialize capabilities with the iframe */
+export interface CapabilityCheck {
+  check: string
+  wire: string | null
+  iframe: string | null
+  status: "ok" | "mismatch" | "warn" | "info"
+  message: string | null
+}
+
+export interface HostContextReport {
+  /** Letter grade from shell.js getGrade (forced to F on invalid values) */
+  grade: string
+  summary: Record<string, number>
+  checks: HostContextCheck[]
+  unexpected: { path: string; type: string }[]
+  hostCapabilities: Record<string, unknown> | null
+  protocolViolations: ProtocolViolation[]
+  capabilityChecks: CapabilityCheck[]
+  reportedAt: string
+}
+
+export interface DisplayModeRequestOutcome {
+  requested: string
+  actual: string | null
+  error: string | null
+  time: string
+}
+
+export interface DisplayModeReport {
+  inspector: string
+  declaredModes: string[] | null
+  hostAvailableModes: string[] | null
+  currentMode: string | null
+  requests: DisplayModeRequestOutcome[]
+  reportedAt: string
+}
+
+export interface VisibilityReport {
+  appOnlyCall: {
+    tool: string
+    ok: boolean
+    isError?: boolean
+    error?: string
+    time: string
+  } | null
+  reportedAt: string
+}
+
+export interface HostRunReport {
+  host: ReportedHostInfo
+  protocolVersion: string | null
+  createdAt: string
+  updatedAt: string
+  hostContext: HostContextReport | null
+  displayModes: DisplayModeReport[]
+  visibility: VisibilityReport | null
+  /** Results from inspectors without a dedicated report section */
+  otherResults: InspectorResultRecord[]
+}
+
+export interface ConformanceReport {
+  reportId: string
+  specVersion: typeof MCP_APPS_SPEC_VERSION
+  generatedAt: string
+  runs: HostRunReport[]
+}
+
+export type ReportFormat = "json" | "md" | "html"
+
+export const REPORT_FORMATS: ReportFormat[] = ["json", "md", "html"]
+
+// =============================================================================
+// Building
+// =============================================================================
+
+const DISPLAY_MODES_INSPECTOR_PREFIX = "inspect-display-modes"
+
+// Entries the apps submit. Unknown fields are kept for the JSON report, and
+// optional text that is missing or not a string reads as null
+const nullableText = z.string().nullable().catch(null)
+
+const hostContextCheckSchema = z
+  .object({
+    path: z.string(),
+    required: z.boolean().catch(false),
+    status: z.enum(["provided", "missing", "invalid", "warn", "pending"]),
+    message: nullableText,
+  })
+  .passthrough()
+
+const unexpectedPropertySchema = z
+  .object({ path: z.string(), type: z.string() })
+  .passthrough()
+
+const protocolViolationSchema = z
+  .object({
+    time: z.string(),
+    method: z.string(),
+    path: z.string(),
+    message: z.string(),
+  })
+  .passthrough()
+
+const capabilityCheckSchema = z
+  .object({
+    check: z.string(),
+    wire: nullableText,
+    iframe: nullableText,
+    status: z.enum(["ok", "mismatch", "warn", "info"]),
+    message: nullableText,
+  })
+  .passthrough()
+
+const displayModeRequestSchema = z
+  .object({
+    requested: z.string(),
+    actual: nullableText,
+    error: nullableText,
+    time: z.string(),
+  })
+  .passthrough()
+
+const appOnlyCallSchema = z
+  .object({
+    tool: z.string(),
+    ok: z.boolean(),
+    isError: z.boolean().optional(),
+    error: z.string().optional(),
+    time: z.string(),
+  })
+  .passthrough()
+
+// The entries of `value` that match `schema`; anything else is skipped
+function validEntries<T>(
+  schema: z.ZodType<T, z.ZodTypeDef, unknown>,
+  value: unknown
+): T[] {
+  if (!Array.isArray(value)) return []
+  return value.flatMap((entry) => {
+    const parsed = schema.safeParse(entry)
+    return parsed.success ? [parsed.data] : []
+  })
+}
+
+function asStringOrNull(value: unknown): string | null {
+  return typeof value === "string" ? value : null
+}
+
+function asStringArrayOrNull(value: unknown): string[] | null {
+  return Array.isArray(value)
+    ? value.filter((item): item is string => typeof item === "string")
+    : null
+}
+
+function asRecordOrNull(value: unknown): Record<string, unknown> | null {
+  return value && typeof value === "object" && !Array.isArray(value)
+    ? (value as Record<string, unknown>)
+    : null
+}
+
+function buildHostContextReport(
+  record: InspectorResultRecord
+): HostContextReport {
+  const result = record.result
+  const summary = asRecordOrNull(result.summary) ?? {}
+
+  return {
+    grade: asStringOrNull(result.grade) ?? "?",
+    summary: Object.fromEntries(
+      Object.entries(summary).filter(([, value]) => typeof value === "number")
+    ) as Record<string, number>,
+    checks: validEntries(hostContextCheckSchema, result.tests),
+    unexpected: validEntries(unexpectedPropertySchema, result.unexpected),
+    hostCapabilities: asRecordOrNull(result.hostCapabilities),
+    protocolViolations: validEntries(
+      protocolViolationSchema,
+      result.protocolViolations
+    ),
+    capabilityChecks: validEntries(
+      capabilityCheckSchema,
+      result.capabilityChecks
+    ),
+    reportedAt: record.reportedAt,
+  }
+}
+
+function buildDisplayModeReport(
+  record: InspectorResultRecord
+): DisplayModeReport {
+  const result = record.result
+
+  return {
+    inspector: record.inspector,
+    declaredModes: asStringArrayOrNull(result.declaredModes),
+    hostAvailableModes: asStringArrayOrNull(result.hostAvailableModes),
+    currentMode: asStringOrNull(result.currentMode),
+    requests: validEntries(displayModeRequestSchema, result.requests),
+    reportedAt: record.reportedAt,
+  }
+}
+
+function buildVisibilityReport(
+  record: InspectorResultRecord
+): VisibilityReport {
+  const appOnlyCall = appOnlyCallSchema.safeParse(record.result.appOnlyCall)
+
+  return {
+    appOnlyCall: appOnlyCall.success ? appOnlyCall.data : null,
+    reportedAt: record.reportedAt,
+  }
+}
+
+function buildHostRunReport(run: BenchRun): HostRunReport {
+  const report: HostRunReport = {
+    host: run.hostInfo,
+    protocolVersion: run.protocolVersion ?? null,
+    createdAt: run.createdAt,
+    updatedAt: run.updatedAt,
+    hostContext: null,
+    displayModes: [],
+    visibility: null,
+    otherResults: [],
+  }
+
+  for (const record of Object.values(run.results)) {
+    if (record.inspector === "inspect-host-info") {
+      report.hostContext = buildHostContextReport(record)
+    } else if (record.inspector.startsWith(DISPLAY_MODES_INSPECTOR_PREFIX)) {
+      report.displayModes.push(buildDisplayModeReport(record))
+    } else if (record.inspector === "inspect-visibility") {
+      report.visibility = buildVisibilityReport(record)
+    } else {
+      report.otherResults.push(record)
+    }
+  }
+
+  report.displayModes.sort((a, b) => a.inspector.localeCompare(b.inspector))
+
+  return report
+}
+
+/**
+ * Builds the conformance report published under a report ID, or null if no
+ * inspector has reported results under it
+ */
+export function buildConformanceReport(
+  reportId: string
+): ConformanceReport | null {
+  const runs = getRunsForReport(reportId)
+  if (runs.length === 0) {
+    return null
+  }
+
+  return {
+    reportId,
+    specVersion: MCP_APPS_SPEC_VERSION,
+    generatedAt: new Date().toISOString(),
+    runs: runs.map(buildHostRunReport),
+  }
+}
+
+// =============================================================================
+// Markdown Rendering
+// =============================================================================
+
+function mdCell(value: unknown): string {
+  if (value === null || value === undefined || value === "") {
+    return "—"
+  }
+  return String(value).replace(/\|/g, "\\|").replace(/\n/g, " ")
+}
+
+function mdTable(headers: string[], rows: unknown[][]): string[] {
+  return [
+    `| ${headers.join(" | ")} |`,
+    `| ${headers.map(() => "---").join(" | ")} |`,
+    ...rows.map((row) => `| ${row.map(mdCell).join(" | ")} |`),
+  ]
+}
+
+function formatModes(modes: string[] | null): string {
+  return modes ? modes.join(", ") || "(empty)" : "not provided"
+}
+
+function describeAppOnlyCall(visibility: VisibilityReport): string {
+  const call = visibility.appOnlyCall
+  if (!call) {
+    return "Not attempted"
+  }
+  if (!call.ok) {
+    return `Rejected by host: ${call.error ?? "unknown error"}`
+  }
+  return call.isError ? "Delivered with isError: true" : "Delivered"
+}
+
+export function renderReportMarkdown(report: ConformanceReport): string {
+  const lines: string[] = [
+    `# MCP Apps Conformance Report`,
+    "",
+    `- **Report:** \`${report.reportId}\``,
+    `- **Spec version:** ${report.specVersion}`,
+    `- **Generated:** ${report.generatedAt}`,
+  ]
+
+  for (const run of report.runs) {
+    lines.push(
+      "",
+      `## ${run.host.name} ${run.host.version}`,
+      "",
+      `- **Negotiated protocol version:** ${run.protocolVersion ?? "not reported"}`,
+      `- **First result:** ${run.createdAt}`,
+      `- **Last result:** ${run.updatedAt}`,
+      "",
+      "### HostContext Conformance",
+      ""
+    )
+
+    if (run.hostContext) {
+      const { summary } = run.hostContext
+      lines.push(
+        `**Grade: ${run.hostContext.grade}** — ${summary.requiredPercentage ?? 0}% of required properties valid, ${summary.optionalPercentage ?? 0}% optional coverage`,
+        "",
+        ...mdTable(
+          ["Path", "Required", "Status", "Message"],
+          run.hostContext.checks.map((check) => [
+            `\`${check.path}\``,
+            check.required ? "yes" : "no",
+            check.status,
+            check.message,
+          ])
+        )
+      )
+      if (run.hostContext.unexpected.length > 0) {
+        lines.push(
+          "",
+          "Unexpected properties:",
+          "",
+          ...run.hostContext.unexpected.map(
+            (prop) => `- \`${prop.path}\` (${prop.type})`
+          )
+        )
+      }
+      if (run.hostContext.protocolViolations.length > 0) {
+        lines.push(
+          "",
+          "Protocol violations:",
+          "",
+          ...mdTable(
+            ["Time", "Method", "Path", "Message"],
+            run.hostContext.protocolViolations.map((violation) => [
+              violation.time,
+              `\`${violation.method}\``,
+              `\`${violation.path}\``,
+              violation.message,
+            ])
+          )
+        )
+      }
+      if (run.hostContext.capabilityChecks.length > 0) {
+        lines.push(
+          "",
+          "Wire vs. iframe capabilities:",
+          "",
+          ...mdTable(
+            ["Check", "Wire", "Iframe", "Status", "Message"],
+            run.hostContext.capabilityChecks.map((check) => [
+              check.check,
+              check.wire,
+              check.iframe,
+              check.status,
+              check.message,
+            ])
+          )
+        )
+      }
+    } else {
+      lines.push("_Host Info inspector did not report._")
+    }
+
+    lines.push("", "### Display Modes", "")
+    if (run.displayModes.length > 0) {
+      for (const displayModes of run.displayModes) {
+        lines.push(
+          `#### ${displayModes.inspector}`,
+          "",
+          `- **Declared by app:** ${formatModes(displayModes.declaredModes)}`,
+          `- **Host available:** ${formatModes(displayModes.hostAvailableModes)}`,
+          `- **Current mode:** ${displayModes.currentMode ?? "unknown"}`,
+          "",
+          ...mdTable(
+            ["Time", "Requested", "Actual", "Error"],
+            displayModes.requests.map((request) => [
+              request.time,
+              request.requested,
+              request.actual,
+              request.error,
+            ])
+          ),
+          ""
+        )
+      }
+    } else {
+      lines.push("_No display mode requests reported._", "")
+    }
+
+    lines.push("### Visibility", "")
+    lines.push(
+      run.visibility
+        ? `- **App-only tool call:** ${describeAppOnlyCall(run.visibility)}`
+        : "_Visibility inspector did not report._"
+    )
+
+    if (run.otherResults.length > 0) {
+      lines.push("", "### Other Inspectors", "")
+      for (const record of run.otherResults) {
+        lines.push(
+          `#### ${record.inspector}`,
+          "",
+          "```json",
+          JSON.stringify(record.result, null, 2),
+          "```",
+          ""
+        )
+      }
+    }
+  }
+
+  return lines.join("\n").trimEnd() + "\n"
+}
+
+// =============================================================================
+// HTML Rendering
+// =============================================================================
+
+function escapeHtml(value: unknown): string {
+  return String(value ?? "")
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+}
+
+function htmlTable(headers: string[], rows: unknown[][]): string {
+  return (
+    "<table><thead><tr>" +
+    headers.map((header) => `<th>${escapeHtml(header)}</th>`).join("") +
+    "</tr></thead><tbody>" +
+    rows
+      .map(
+        (row) =>
+          "<tr>" +
+          row
+            .map(
+              (cell) =>
+                `<td>${cell === null || cell === undefined ? "—" : escapeHtml(cell)}</td>`
+            )
+            .join("") +
+          "</tr>"
+      )
+      .join("") +
+    "</tbody></table>"
+  )
+}
+
+const REPORT_STYLES = `
+  body { font: 14px/1.5 system-ui, sans-serif; margin: 32px; color: #1f2933; }
+  h1 { font-size: 22px; }
+  h2 { font-size: 18px; margin-top: 32px; border-bottom: 1px solid #e2e8f0; }
+  h3 { font-size: 15px; margin-top: 24px; }
+  code, pre { font-family: ui-monospace, SFMono-Regular, Menlo, monospace; font-size: 12px; }
+  table { border-collapse: collapse; margin: 8px 0; }
+  th, td { border: 1px solid #e2e8f0; padding: 4px 8px; text-align: left; }
+  th { background: #f8fafc; }
+  .grade { display: inline-block; font-weight: 700; font-size: 20px; padding: 2px 10px; border-radius: 6px; }
+  .grade-pass { background: #dcfce7; color: #166534; }
+  .grade-warn { background: #fef9c3; color: #854d0e; }
+  .grade-fail { background: #fee2e2; color: #991b1b; }
+  .status-provided { color: #166534; }
+  .status-invalid { color: #991b1b; }
+  .status-warn { color: #854d0e; }
+  .muted { color: #64748b; }
+`
+
+function gradeClass(grade: string): string {
+  if (grade === "A" || grade === "B") return "grade-pass"
+  if (grade === "C" || grade === "D") return "grade-warn"
+  return "grade-fail"
+}
+
+export function renderReportHtml(report: ConformanceReport): string {
+  const sections = report.runs.map((run) => {
+    let html = `<h2>${escapeHtml(run.host.name)} ${escapeHtml(run.host.version)}</h2>`
+    html += "<ul>"
+    html += `<li><strong>Negotiated protocol version:</strong> ${escapeHtml(run.protocolVersion ?? "not reported")}</li>`
+    html += `<li><strong>First result:</strong> ${escapeHtml(run.createdAt)}</li>`
+    html += `<li><strong>Last result:</strong> ${escapeHtml(run.updatedAt)}</li>`
+    html += "</ul>"
+
+    html += "<h3>HostContext Conformance</h3>"
+    if (run.hostContext) {
+      const { grade, summary } = run.hostContext
+      html += `<p><span class="grade ${gradeClass(grade)}">${escapeHtml(grade)}</span> `
+      html += `${escapeHtml(summary.requiredPercentage ?? 0)}% of required properties valid, `
+      html += `${escapeHtml(summary.optionalPercentage ?? 0)}% optional coverage</p>`
+      html +=
+        "<table><thead><tr><th>Path</th><th>Required</th><th>Status</th><th>Message</th></tr></thead><tbody>" +
+        run.hostContext.checks
+          .map(
+            (check) =>
+              `<tr><td><code>${escapeHtml(check.path)}</code></td>` +
+              `<td>${check.required ? "yes" : "no"}</td>` +
+              `<td class="status-${escapeHtml(check.status)}">${escapeHtml(check.status)}</td>` +
+              `<td>${escapeHtml(check.message ?? "—")}</td></tr>`
+          )
+          .join("") +
+        "</tbody></table>"
+      if (run.hostContext.unexpected.length > 0) {
+        html += "<p>Unexpected properties:</p><ul>"
+        html += run.hostContext.unexpected
+          .map(
+            (prop) =>
+              `<li><code>${escapeHtml(prop.path)}</code> (${escapeHtml(prop.type)})</li>`
+          )
+          .join("")
+        html += "</ul>"
+      }
+      if (run.hostContext.protocolViolations.length > 0) {
+        html += "<p>Protocol violations:</p>"
+        html += htmlTable(
+          ["Time", "Method", "Path", "Message"],
+          run.hostContext.protocolViolations.map((violation) => [
+            violation.time,
+            violation.method,
+            violation.path,
+            violation.message,
+          ])
+        )
+      }
+      if (run.hostContext.capabilityChecks.length > 0) {
+        html += "<p>Wire vs. iframe capabilities:</p>"
+        html += htmlTable(
+          ["Check", "Wire", "Iframe", "Status", "Message"],
+          run.hostContext.capabilityChecks.map((check) => [
+            check.check,
+            check.wire,
+            check.iframe,
+            check.status,
+            check.message,
+          ])
+        )
+      }
+    } else {
+      html += '<p class="muted">Host Info inspector did not report.</p>'
+    }
+
+    html += "<h3>Display Modes</h3>"
+    if (run.displayModes.length > 0) {
+      for (const displayModes of run.displayModes) {
+        html += `<h4><code>${escapeHtml(displayModes.inspector)}</code></h4>`
+        html += "<ul>"
+        html += `<li><strong>Declared by app:</strong> ${escapeHtml(formatModes(displayModes.declaredModes))}</li>`
+        html += `<li><strong>Host available:</strong> ${escapeHtml(formatModes(displayModes.hostAvailableModes))}</li>`
+        html += `<li><strong>Current mode:</strong> ${escapeHtml(displayModes.currentMode ?? "unknown")}</li>`
+        html += "</ul>"
+        html += htmlTable(
+          ["Time", "Requested", "Actual", "Error"],
+          displayModes.requests.map((request) => [
+            request.time,
+            request.requested,
+            request.actual,
+            request.error,
+          ])
+        )
+      }
+    } else {
+      html += '<p class="muted">No display mode requests reported.</p>'
+    }
+
+    html += "<h3>Visibility</h3>"
+    html += run.visibility
+      ? `<p><strong>App-only tool call:</strong> ${escapeHtml(describeAppOnlyCall(run.visibility))}</p>`
+      : '<p class="muted">Visibility inspector did not report.</p>'
+
+    if (run.otherResults.length > 0) {
+      html += "<h3>Other Inspectors</h3>"
+      for (const record of run.otherResults) {
+        html += `<h4><code>${escapeHtml(record.inspector)}</code></h4>`
+        html += `<pre>${escapeHtml(JSON.stringify(record.result, null, 2))}</pre>`
+      }
+    }
+
+    return html
+  })
+
+  return `<!doctype html>
+<html>
+<head>
+  <meta charset="utf-8" />
+  <title>MCP Apps Conformance Report — ${escapeHtml(report.reportId)}</title>
+  <style>${REPORT_STYLES}</style>
+</head>
+<body>
+  <h1>MCP Apps Conformance Report</h1>
+  <ul>
+    <li><strong>Report:</strong> <code>${escapeHtml(report.reportId)}</code></li>
+    <li><strong>Spec version:</strong> ${escapeHtml(report.specVersion)}</li>
+    <li><strong>Generated:</strong> ${escapeHtml(report.generatedAt)}</li>
+  </ul>
+  ${sections.join("\n  ")}
+</body>
+</html>
+`
+}
+
+// =============================================================================
+// Routes
+// =============================================================================
+
+/**
+ * Report routes, mounted at `/reports`: `/reports/<reportId>.<format>`
+ */
+export function createReportsRouter() {
+  const router = express.Router()
+
+  router.get("/:reportId.:format", (req, res) => {
+    const format = req.params.format as ReportFormat
+    if (!REPORT_FORMATS.includes(format)) {
+      return res.status(400).json({
+        error: {
+          message: `Unsupported report format "${req.params.format}". Use one of: ${REPORT_FORMATS.join(", ")}`,
+        },
+      })
+    }
+
+    const report = buildConformanceReport(req.params.reportId)
+    if (!report) {
+      return res.status(404).json({
+        error: { message: "No results reported under this report ID" },
+      })
+    }
+
+    if (format === "md") {
+      res
+        .type("text/markdown; charset=utf-8")
+        .send(renderReportMarkdown(report))
+    } else if (format === "html") {
+      res.type("html").send(renderReportHtml(report))
+    } else {
+      res.json(report)
+    }
+  })
+
+  return router
+}
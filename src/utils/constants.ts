@@ -1,9 +1,112 @@
 import { randomBytes } from "crypto"
+import { tmpdir } from "os"
+import { join } from "path"
 
 export const PORT = process.env.PORT || 6789
 export const BASE_URL =
   process.env.BASE_URL || (`http://localhost:${PORT}` as const)
 
+// Second local origin that serves the CSP probes and is never declared in a
+// resource CSP
+export const PROBE_PORT = process.env.PROBE_PORT || Number(PORT) + 1
+export const PROBE_BASE_URL =
+  process.env.PROBE_BASE_URL || (`http://localhost:${PROBE_PORT}` as const)
+export const CSP_PROBE_PATH = "/probes" as const
+// "local" serves the probe origin from this process on PROBE_PORT. "remote"
+// means PROBE_BASE_URL is a separate deployment of src/probe-server.ts, and
+// its probe hits are fetched from it
+export const PROBE_SERVER: "local" | "remote" =
+  process.env.PROBE_SERVER === "remote" ? "remote" : "local"
+
+// Dedicated origin requested through _meta.ui.domain. The format is
+// host-dependent, so hosts with their own scheme can override it
+export const APP_DOMAIN =
+  process.env.APP_DOMAIN ||
+  new URL(BASE_URL).host.toLowerCase().replace(/[^a-z0-9]+/g, "-")
+
+// Where resumable sessions keep their SSE events: "memory" (default) or
+// "file", which appends them to one NDJSON file per session
+export const EVENT_STORE_KIND: "memory" | "file" =
+  process.env.EVENT_STORE === "file" ? "file" : "memory"
+export const EVENT_STORE_DIR =
+  process.env.EVENT_STORE_DIR || join(tmpdir(), "mcp-app-bench-events")
+
+// When set, every /mcp session's JSON-RPC traffic is recorded to an NDJSON
+// file in this directory, for `pnpm replay`
+export const RECORD_SESSIONS_DIR = process.env.RECORD_SESSIONS_DIR || ""
+
+// Inspector results kept for /results and /reports. Runs expire after the
+// TTL, the oldest runs are dropped beyond the limits, and results larger than
+// the size limit (bytes of JSON) are refused
+export const RESULT_TTL_MS = Number(
+  process.env.RESULT_TTL_MS ?? 24 * 60 * 60 * 1000
+)
+export const RESULT_MAX_RUNS = Number(process.env.RESULT_MAX_RUNS ?? 500)
+export const RESULT_MAX_RUNS_PER_SESSION = 5
+export const RESULT_MAX_INSPECTORS_PER_RUN = 100
+export const RESULT_MAX_BYTES = Number(
+  process.env.RESULT_MAX_BYTES ?? 256 * 1024
+)
+
+// Reconnect delay suggested to hosts in each stream's priming event
+export const SSE_RETRY_INTERVAL_MS = Number(
+  process.env.SSE_RETRY_INTERVAL_MS || 1000
+)
+
+// Comment sent on idle traffic viewer streams, so proxies don't close them
+export const TRAFFIC_HEARTBEAT_INTERVAL_MS = 15 * 1000
+// Traffic viewer history. Strings longer than the length limit (payload-size
+// results, padded app HTML) are cut before a message is kept or streamed, and
+// the oldest messages are dropped once history exceeds the size (bytes of JSON)
+export const TRAFFIC_MAX_STRING_LENGTH = Number(
+  process.env.TRAFFIC_MAX_STRING_LENGTH ?? 16 * 1024
+)
+export const TRAFFIC_MAX_HISTORY_BYTES = Number(
+  process.env.TRAFFIC_MAX_HISTORY_BYTES ?? 4 * 1024 * 1024
+)
+
+// Session lifecycle for /mcp. Idle sessions are closed after the timeout, and
+// the least recently used session is evicted beyond the limit (0 disables)
+export const SESSION_IDLE_TIMEOUT_MS = Number(
+  process.env.SESSION_IDLE_TIMEOUT_MS ?? 30 * 60 * 1000
+)
+export const MAX_SESSIONS = Number(process.env.MAX_SESSIONS ?? 100)
+export const SESSION_SWEEP_INTERVAL_MS = Number(
+  process.env.SESSION_SWEEP_INTERVAL_MS ?? 60 * 1000
+)
+
+// Token for the admin routes (/admin/sessions, /traffic), which expose live
+// session IDs and their traffic. Sent as a Bearer token or ?token=; the
+// routes are disabled when it's unset
+export const ADMIN_TOKEN = process.env.ADMIN_TOKEN || null
+
+// Logging. LOG_FORMAT=json writes one JSON object per line instead of boxes.
+// Method lists are comma-separated, and a trailing "*" matches a prefix
+const envList = (value: string | undefined) =>
+  (value ?? "")
+    .split(",")
+    .map((item) => item.trim())
+    .filter(Boolean)
+
+export const LOG_FORMAT = process.env.LOG_FORMAT || "pretty"
+export const LOG_LEVEL = process.env.LOG_LEVEL || "debug"
+export const LOG_METHODS = envList(process.env.LOG_METHODS)
+export const LOG_IGNORE_METHODS = envList(process.env.LOG_IGNORE_METHODS)
+// Values of these keys are redacted wherever they appear in logged data
+export const LOG_REDACT_FIELDS = envList(
+  process.env.LOG_REDACT_FIELDS ??
+    "authorization,proxy-authorization,cookie,set-cookie,x-api-key"
+)
+// Resource `text` and `blob` bodies longer than this are redacted (0 disables)
+export const LOG_MAX_TEXT_LENGTH = Number(
+  process.env.LOG_MAX_TEXT_LENGTH ?? 2000
+)
+// Any other string longer than this is cut short, e.g. payload-size padding
+// and payloads (0 disables)
+export const LOG_MAX_STRING_LENGTH = Number(
+  process.env.LOG_MAX_STRING_LENGTH ?? 16 * 1024
+)
+
 // Cache-busting hash generated on server start
 export const CACHE_HASH = randomBytes(8).toString("hex")
 
@@ -11,33 +114,55 @@ export const MCP_APPS_EXTENSION_ID = "io.modelcontextprotocol/ui" as const
 export const MCP_APPS_MIME_TYPE = "text/html;profile=mcp-app" as const
 export const MCP_APPS_UI_RESOURCE_SCHEME = "ui://" as const
 
-// Resource URIs
-export const MCP_APP_URI =
-  `${MCP_APPS_UI_RESOURCE_SCHEME}mcp-app-bench` as const
-export const INSPECT_HOST_INFO_URI =
-  `${MCP_APPS_UI_RESOURCE_SCHEME}inspect-host-info` as const
-export const INSPECT_HOST_STYLES_URI =
-  `${MCP_APPS_UI_RESOURCE_SCHEME}inspect-host-styles` as const
-export const INSPECT_MESSAGING_URI =
-  `${MCP_APPS_UI_RESOURCE_SCHEME}inspect-messaging` as const
-export const INSPECT_TOOL_DATA_URI =
-  `${MCP_APPS_UI_RESOURCE_SCHEME}inspect-tool-data` as const
-export const INSPECT_DISPLAY_MODES_URI =
-  `${MCP_APPS_UI_RESOURCE_SCHEME}inspect-display-modes` as const
-export const INSPECT_DISPLAY_MODES_INLINE_PIP_URI =
-  `${MCP_APPS_UI_RESOURCE_SCHEME}inspect-display-modes-inline-pip` as const
-export const INSPECT_DISPLAY_MODES_INLINE_FULLSCREEN_URI =
-  `${MCP_APPS_UI_RESOURCE_SCHEME}inspect-display-modes-inline-fullscreen` as const
-export const INSPECT_DISPLAY_MODES_UNDECLARED_URI =
-  `${MCP_APPS_UI_RESOURCE_SCHEME}inspect-display-modes-undeclared` as const
-export const INSPECT_TRANSPARENCY_URI =
-  `${MCP_APPS_UI_RESOURCE_SCHEME}inspect-transparency` as const
-export const INSPECT_VISIBILITY_URI =
-  `${MCP_APPS_UI_RESOURCE_SCHEME}inspect-visibility` as const
-
-export const INSPECT_MODEL_CONTEXT_URI =
-  `${MCP_APPS_UI_RESOURCE_SCHEME}inspect-model-context` as const
-export const INSPECT_MEDIA_PLAYER_URI =
-  `${MCP_APPS_UI_RESOURCE_SCHEME}inspect-media-player` as const
+// App-only tool the inspectors call to submit their results
+export const REPORT_RESULT_TOOL_NAME = "report-inspector-result" as const
+
+// App-only tool the CSP inspector calls to see which probes reached the server
+export const CSP_PROBE_HITS_TOOL_NAME = "csp-probe-hits" as const
+
+// App-only tools the resumability inspector uses to drop a stream, send
+// messages while it is down, and ask which of them the host got back
+export const RESUMABILITY_PROBE_TOOL_NAME = "resumability-probe" as const
+export const RESUMABILITY_STATUS_TOOL_NAME = "resumability-status" as const
+
+// App-only tool the logging inspector calls to have the server log at chosen
+// levels through notifications/message
+export const SERVER_LOG_EMIT_TOOL_NAME = "server-log-emit" as const
+
+// Tool that runs for a set duration with progress and cancellation, rendered
+// in the Tool Data inspector, and the app-only tool it asks for a run's
+// server-side timeline
+export const LONG_RUNNING_TASK_TOOL_NAME = "long-running-task" as const
+export const LONG_RUNNING_TASK_STATUS_TOOL_NAME =
+  "long-running-task-status" as const
+
+// Tool that returns, and accepts, payloads of a chosen size for the payload
+// size inspector. Sizes are in bytes of ASCII text
+export const PAYLOAD_SIZE_TOOL_NAME = "payload-size" as const
+export const PAYLOAD_MAX_BYTES = 16 * 1024 * 1024
+// Body limit for /mcp: the largest payload plus room for the JSON-RPC
+// envelope, so the bench never refuses a call before the host does
+export const MCP_MAX_BODY_BYTES = PAYLOAD_MAX_BYTES + 1024 * 1024
+// Padding added to the HTML of the payload size inspector's large variant
+export const PAYLOAD_HTML_PADDING_BYTES = Number(
+  process.env.PAYLOAD_HTML_PADDING_BYTES ?? 4 * 1024 * 1024
+)
+
+// App-only tool the tool list inspector calls to add, disable, enable and
+// remove tools at runtime
+export const TOOL_LIST_CONTROL_TOOL_NAME = "tool-list-control" as const
+
+// Tools that fail on purpose, one per error path, rendered in the tool errors
+// inspector
+export const TOOL_ERROR_RESULT_TOOL_NAME = "tool-error-result" as const
+export const TOOL_ERROR_THROWN_TOOL_NAME = "tool-error-thrown" as const
+export const TOOL_ERROR_INVALID_OUTPUT_TOOL_NAME =
+  "tool-error-invalid-output" as const
+export const TOOL_ERROR_INVALID_INPUT_TOOL_NAME =
+  "tool-error-invalid-input" as const
+
+// Tool that returns the client capabilities the server saw in initialize
+export const SERVER_OBSERVED_CAPABILITIES_TOOL_NAME =
+  "server-observed-capabilities" as const
 
 export const APP_ICON = `${BASE_URL}/static/icon.svg` as const
@@ -0,0 +1,182 @@
+/**
+ * CSP probe endpoints for the CSP enforcement inspector.
+ *
+ * The same probe routes are served on the main origin (`BASE_URL`, declared
+ * in the inspector's CSP) and on a second origin (`PROBE_BASE_URL`, never
+ * declared): a second port locally, or a separate deployment. Every request that reaches a probe is recorded under the run ID
+ * the app put in the URL, so the inspector can tell "loaded" from "blocked"
+ * for resource types that give script no reliable signal (fonts, frames).
+ */
+
+import { createHash } from "crypto"
+import type { IncomingMessage, Server } from "http"
+import type { Duplex } from "stream"
+import cors from "cors"
+import express from "express"
+import { CSP_PROBE_PATH, PROBE_BASE_URL } from "./constants.js"
+
+export type CspProbeKind =
+  | "fetch"
+  | "event-source"
+  | "websocket"
+  | "image"
+  | "font"
+  | "frame"
+
+export interface CspProbeHit {
+  probe: CspProbeKind
+  /** Origin the probe was served from (as seen in the Host header) */
+  host: string
+  time: string
+}
+
+const RUN_TTL_MS = 10 * 60 * 1000
+const REMOTE_HITS_TIMEOUT_MS = 3000
+const WEBSOCKET_GUID = "258EAFA5-E914-47DA-95CA-C5AB0DC85B11"
+
+// 1×1 transparent SVG
+const PROBE_IMAGE = `<svg xmlns="http://www.w3.org/2000/svg" width="1" height="1"/>`
+
+const runs = new Map<string, { createdAt: number; hits: CspProbeHit[] }>()
+
+function recordHit(req: IncomingMessage, probe: CspProbeKind) {
+  const url = new URL(req.url ?? "/", "http://probe")
+  const runId = url.searchParams.get("run")
+  if (!runId) return
+
+  const now = Date.now()
+  for (const [key, run] of runs) {
+    if (now - run.createdAt > RUN_TTL_MS) runs.delete(key)
+  }
+
+  const run = runs.get(runId) ?? { createdAt: now, hits: [] }
+  run.hits.push({
+    probe,
+    host: req.headers.host ?? "unknown",
+    time: new Date(now).toISOString(),
+  })
+  runs.set(runId, run)
+}
+
+/**
+ * Returns every probe request recorded for a run
+ */
+export function getCspProbeHits(runId: string): CspProbeHit[] {
+  return runs.get(runId)?.hits ?? []
+}
+
+/**
+ * Probe requests a separate probe deployment recorded for a run. Resolves
+ * with no hits if it can't be reached.
+ */
+export async function fetchRemoteCspProbeHits(
+  runId: string
+): Promise<CspProbeHit[]> {
+  try {
+    const response = await fetch(
+      `${PROBE_BASE_URL}${CSP_PROBE_PATH}/hits?run=${encodeURIComponent(runId)}`,
+      { signal: AbortSignal.timeout(REMOTE_HITS_TIMEOUT_MS) }
+    )
+    const body = (await response.json()) as { hits?: CspProbeHit[] }
+    return Array.isArray(body.hits) ? body.hits : []
+  } catch {
+    return []
+  }
+}
+
+/**
+ * HTTP probe routes, mounted at `CSP_PROBE_PATH` on both origins
+ */
+export function createCspProbeRouter() {
+  const router = express.Router()
+
+  router.get("/fetch", (req, res) => {
+    recordHit(req, "fetch")
+    res.json({ ok: true })
+  })
+
+  router.get("/events", (req, res) => {
+    recordHit(req, "event-source")
+    res.writeHead(200, {
+      "Content-Type": "text/event-stream",
+      "Cache-Control": "no-cache",
+    })
+    res.end("data: ok\n\n")
+  })
+
+  router.get("/image.svg", (req, res) => {
+    recordHit(req, "image")
+    res.type("image/svg+xml").send(PROBE_IMAGE)
+  })
+
+  // The bytes are not a usable font; the inspector only needs the request
+  router.get("/font.woff2", (req, res) => {
+    recordHit(req, "font")
+    res.type("font/woff2").send(Buffer.alloc(0))
+  })
+
+  router.get("/frame", (req, res) => {
+    recordHit(req, "frame")
+    res.type("html").send("<!DOCTYPE html><title>CSP probe</title>ok")
+  })
+
+  // Lets the main server read hits recorded by a separate probe deployment
+  router.get("/hits", (req, res) => {
+    res.json({ hits: getCspProbeHits(String(req.query.run ?? "")) })
+  })
+
+  return router
+}
+
+/**
+ * Accepts WebSocket probes on `CSP_PROBE_PATH/socket`: completes the
+ * handshake, sends one "ok" text frame and closes. Other upgrades are refused.
+ */
+export function attachCspProbeWebSocket(server: Server) {
+  server.on("upgrade", (req: IncomingMessage, socket: Duplex) => {
+    const key = req.headers["sec-websocket-key"]
+    if (
+      !req.url?.startsWith(`${CSP_PROBE_PATH}/socket`) ||
+      typeof key !== "string"
+    ) {
+      socket.destroy()
+      return
+    }
+
+    recordHit(req, "websocket")
+
+    const accept = createHash("sha1")
+      .update(key + WEBSOCKET_GUID)
+      .digest("base64")
+    socket.write(
+      [
+        "HTTP/1.1 101 Switching Protocols",
+        "Upgrade: websocket",
+        "Connection: Upgrade",
+        `Sec-WebSocket-Accept: ${accept}`,
+        "",
+        "",
+      ].join("\r\n")
+    )
+
+    // FIN + text frame with a 2-byte payload, then a close frame
+    socket.write(Buffer.from([0x81, 0x02, 0x6f, 0x6b]))
+    socket.end(Buffer.from([0x88, 0x00]))
+  })
+}
+
+/**
+ * Starts the second origin that serves only the probe routes
+ */
+export function startCspProbeServer(
+  port: string | number,
+  onListening: () => void
+) {
+  const app = express()
+  app.use(cors({ origin: "*" }))
+  app.use(CSP_PROBE_PATH, createCspProbeRouter())
+
+  const server = app.listen(port, onListening)
+  attachCspProbeWebSocket(server)
+  return server
+}
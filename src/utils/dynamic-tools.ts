@@ -0,0 +1,140 @@
+/**
+ * Tools added, disabled and removed while a session is running.
+ *
+ * Every change makes the SDK send `notifications/tools/list_changed`. Each
+ * change notes how many `tools/list` requests session activity had counted,
+ * so the tool list inspector can tell whether the host fetched the list again
+ * after a change or kept serving a cached one.
+ */
+
+import type {
+  McpServer,
+  RegisteredTool,
+} from "@modelcontextprotocol/sdk/server/mcp.js"
+
+export type DynamicToolAction = "add" | "disable" | "enable" | "remove"
+export type DynamicToolState = "enabled" | "disabled" | "removed"
+
+export interface DynamicToolInfo {
+  name: string
+  state: DynamicToolState
+  changedAt: string
+  calls: number
+}
+
+export interface DynamicToolChange {
+  action: DynamicToolAction
+  name: string
+  time: string
+  /** `tools/list` requests received before the change */
+  listRequestsBefore: number
+}
+
+export interface DynamicTools {
+  /**
+   * Apply a change, given the `tools/list` requests received so far; throws
+   * if the tool doesn't exist or is gone
+   */
+  apply(
+    action: DynamicToolAction,
+    name: string | undefined,
+    listRequestsBefore: number
+  ): DynamicToolInfo
+  /** Tools that exist now; removed tools are forgotten */
+  tools(): DynamicToolInfo[]
+  /** Recent changes, oldest first */
+  changes(): DynamicToolChange[]
+}
+
+export const DYNAMIC_TOOL_PREFIX = "dynamic-tool-"
+
+// Tools that may be registered at once, so a looping app can't grow the
+// list without bound. Removed tools are forgotten
+const MAX_DYNAMIC_TOOLS = 20
+// Oldest changes are dropped beyond this
+const MAX_CHANGES = 100
+
+/**
+ * Track runtime tool changes for a server
+ */
+export function createDynamicTools(server: McpServer): DynamicTools {
+  const registered = new Map<
+    string,
+    { tool: RegisteredTool; info: DynamicToolInfo }
+  >()
+  const changes: DynamicToolChange[] = []
+  let added = 0
+
+  const add = () => {
+    if (registered.size >= MAX_DYNAMIC_TOOLS) {
+      throw new Error(
+        `At most ${MAX_DYNAMIC_TOOLS} dynamic tools can exist at once; remove one first`
+      )
+    }
+
+    const name = `${DYNAMIC_TOOL_PREFIX}${++added}`
+    const info: DynamicToolInfo = {
+      name,
+      state: "enabled",
+      changedAt: new Date().toISOString(),
+      calls: 0,
+    }
+    const tool = server.registerTool(
+      name,
+      {
+        title: `Dynamic Tool ${added}`,
+        description:
+          "Added at runtime by the tool list inspector. Returns its own name.",
+        inputSchema: {},
+      },
+      async () => {
+        info.calls++
+        return {
+          content: [{ type: "text", text: `${name} was called.` }],
+        }
+      }
+    )
+    registered.set(name, { tool, info })
+    return info
+  }
+
+  return {
+    apply(action, name, listRequestsBefore) {
+      const time = new Date().toISOString()
+
+      const record = (info: DynamicToolInfo) => {
+        changes.push({ action, name: info.name, time, listRequestsBefore })
+        if (changes.length > MAX_CHANGES) {
+          changes.shift()
+        }
+        return info
+      }
+
+      if (action === "add") {
+        return record(add())
+      }
+
+      const entry = name ? registered.get(name) : undefined
+      if (!entry) {
+        throw new Error(`No dynamic tool named ${name ?? "(none given)"}`)
+      }
+
+      if (action === "remove") {
+        entry.tool.remove()
+        entry.info.state = "removed"
+        registered.delete(entry.info.name)
+      } else if (action === "disable") {
+        entry.tool.disable()
+        entry.info.state = "disabled"
+      } else {
+        entry.tool.enable()
+        entry.info.state = "enabled"
+      }
+      entry.info.changedAt = time
+      return record(entry.info)
+    },
+
+    tools: () => [...registered.values()].map(({ info }) => ({ ...info })),
+    changes: () => [...changes],
+  }
+}
@@ -0,0 +1,309 @@
+/**
+ * Event stores for resumable Streamable HTTP sessions.
+ *
+ * With an event store, the transport gives every SSE event an ID and keeps
+ * it, so a host whose stream drops can reconnect with `Last-Event-ID` and
+ * receive what it missed. Each session gets its own store, because the SDK
+ * uses the same stream ID for every session's standalone GET stream.
+ *
+ * Events are kept in memory by default, or appended to one NDJSON file per
+ * session with `EVENT_STORE=file`. Every replay is recorded, so the
+ * resumability inspector can ask the server whether the host resumed.
+ */
+
+import { appendFile, mkdir, readFile, rename, rm, writeFile } from "fs/promises"
+import { dirname, join } from "path"
+import type {
+  EventId,
+  EventStore,
+  StreamId,
+} from "@modelcontextprotocol/sdk/server/streamableHttp.js"
+import type { JSONRPCMessage } from "@modelcontextprotocol/sdk/types.js"
+import { EVENT_STORE_DIR, EVENT_STORE_KIND } from "./constants.js"
+import { logEventsReplayed } from "./logger.js"
+
+export type EventStoreKind = "memory" | "file"
+
+/** Stream ID the SDK uses for a session's standalone GET stream */
+export const STANDALONE_STREAM_ID = "_GET_stream"
+
+// Oldest events and replays are dropped beyond these, so a long session
+// can't grow the store without bound
+const MAX_EVENTS = 1000
+const MAX_REPLAYS = 100
+// The event file is trimmed back to MAX_EVENTS once it holds this many lines,
+// so it isn't rewritten on every append
+const MAX_FILE_EVENTS = MAX_EVENTS * 2
+
+export interface StoredEvent {
+  id: EventId
+  streamId: StreamId
+  message: JSONRPCMessage
+}
+
+export interface EventReplay {
+  streamId: StreamId
+  lastEventId: EventId
+  /** Messages sent to the host, in order */
+  messages: JSONRPCMessage[]
+  time: string
+}
+
+export interface BenchEventStore extends EventStore {
+  kind: EventStoreKind
+  /** Replays served so far, oldest first */
+  getReplays(): EventReplay[]
+  /** Drop every stored event, e.g. when the session closes */
+  clear(): Promise<void>
+}
+
+interface EventBackend {
+  append(event: StoredEvent): Promise<void>
+  list(): Promise<StoredEvent[]>
+  clear(): Promise<void>
+}
+
+const stores = new Map<string, BenchEventStore>()
+
+// Event IDs carry their stream, so a reconnect can be mapped to its stream
+// without a lookup. Stream IDs are UUIDs or "_GET_stream" and contain no "/"
+function toEventId(streamId: StreamId, sequence: number): EventId {
+  return `${streamId}/${sequence}`
+}
+
+function toStreamId(eventId: EventId): StreamId | undefined {
+  const separator = eventId.lastIndexOf("/")
+  return separator > 0 ? eventId.slice(0, separator) : undefined
+}
+
+// Priming events are stored with an empty message only to get an ID
+function isReplayable(message: JSONRPCMessage) {
+  return "jsonrpc" in message
+}
+
+function createStore(
+  kind: EventStoreKind,
+  backend: EventBackend,
+  onReplay?: (replay: EventReplay) => void
+): BenchEventStore {
+  let sequence = 0
+  const replays: EventReplay[] = []
+
+  return {
+    kind,
+
+    async storeEvent(streamId, message) {
+      const id = toEventId(streamId, ++sequence)
+      await backend.append({ id, streamId, message })
+      return id
+    },
+
+    async getStreamIdForEventId(eventId) {
+      return toStreamId(eventId)
+    },
+
+    async replayEventsAfter(lastEventId, { send }) {
+      const streamId = toStreamId(lastEventId) ?? ""
+      const events = await backend.list()
+      const start = events.findIndex((event) => event.id === lastEventId)
+      const replay: EventReplay = {
+        streamId,
+        lastEventId,
+        messages: [],
+        time: new Date().toISOString(),
+      }
+
+      // An unknown ID has nothing to replay, but the stream still resumes
+      if (start !== -1) {
+        for (const event of events.slice(start + 1)) {
+          if (event.streamId !== streamId || !isReplayable(event.message)) {
+            continue
+          }
+          await send(event.id, event.message)
+          replay.messages.push(event.message)
+        }
+      }
+
+      replays.push(replay)
+      if (replays.length > MAX_REPLAYS) {
+        replays.shift()
+      }
+      onReplay?.(replay)
+      return streamId
+    },
+
+    getReplays() {
+      return replays
+    },
+
+    clear() {
+      return backend.clear()
+    },
+  }
+}
+
+/**
+ * Keeps events in memory for the lifetime of the session
+ */
+export function createMemoryEventStore(
+  onReplay?: (replay: EventReplay) => void
+): BenchEventStore {
+  let events: StoredEvent[] = []
+
+  return createStore(
+    "memory",
+    {
+      async append(event) {
+        events.push(event)
+        if (events.length > MAX_EVENTS) {
+          events = events.slice(-MAX_EVENTS)
+        }
+      },
+      async list() {
+        return events
+      },
+      async clear() {
+        events = []
+      },
+    },
+    onReplay
+  )
+}
+
+/**
+ * Appends events to an NDJSON file, one line per event. The file is trimmed
+ * to the newest MAX_EVENTS events as it grows, like the memory store
+ */
+export function createFileEventStore(
+  path: string,
+  onReplay?: (replay: EventReplay) => void
+): BenchEventStore {
+  let ready: Promise<unknown> | null = null
+  // Appends are chained so events land in the file in order
+  let writes: Promise<void> = Promise.resolve()
+  let lines = 0
+
+  async function readEvents() {
+    const text = await readFile(path, "utf-8").catch(() => "")
+    return text
+      .split("\n")
+      .filter(Boolean)
+      .map((line) => JSON.parse(line) as StoredEvent)
+      .slice(-MAX_EVENTS)
+  }
+
+  // Rewritten beside the file and renamed over it, so a crash mid-trim
+  // leaves the previous file intact
+  async function trim() {
+    const events = await readEvents()
+    const text = events.map((event) => JSON.stringify(event) + "\n").join("")
+    await writeFile(`${path}.tmp`, text, "utf-8")
+    await rename(`${path}.tmp`, path)
+    lines = events.length
+  }
+
+  return createStore(
+    "file",
+    {
+      append(event) {
+        ready ??= mkdir(dirname(path), { recursive: true })
+        const write = writes
+          .then(() => ready)
+          .then(() => appendFile(path, JSON.stringify(event) + "\n", "utf-8"))
+          .then(() => (++lines >= MAX_FILE_EVENTS ? trim() : undefined))
+        // A failed write is reported to its caller without blocking later ones
+        writes = write.catch(() => {})
+        return write
+      },
+      async list() {
+        await writes
+        return readEvents()
+      },
+      async clear() {
+        await writes
+        await rm(path, { force: true })
+      },
+    },
+    onReplay
+  )
+}
+
+/**
+ * Create the configured event store for a session and register it, so tools
+ * can find it by session ID
+ */
+export function createEventStore(sessionId: string): BenchEventStore {
+  const onReplay = (replay: EventReplay) => logEventsReplayed(sessionId, replay)
+  const store =
+    EVENT_STORE_KIND === "file"
+      ? createFileEventStore(
+          join(EVENT_STORE_DIR, `${sessionId}.ndjson`),
+          onReplay
+        )
+      : createMemoryEventStore(onReplay)
+
+  stores.set(sessionId, store)
+  return store
+}
+
+/**
+ * Event store to hand the transport before the session exists. It forwards
+ * to the session's store once `createEventStore` has registered it, so a
+ * failed initialize never creates one. Events without a store aren't kept
+ */
+export function createDeferredEventStore(sessionId: string): EventStore {
+  return {
+    async storeEvent(streamId, message) {
+      const store = stores.get(sessionId)
+      return store
+        ? store.storeEvent(streamId, message)
+        : toEventId(streamId, 0)
+    },
+
+    async getStreamIdForEventId(eventId) {
+      return toStreamId(eventId)
+    },
+
+    async replayEventsAfter(lastEventId, options) {
+      const store = stores.get(sessionId)
+      return store
+        ? store.replayEventsAfter(lastEventId, options)
+        : (toStreamId(lastEventId) ?? "")
+    },
+  }
+}
+
+/**
+ * The event store of a session, if the session is resumable
+ */
+export function getEventStore(sessionId: string) {
+  return stores.get(sessionId)
+}
+
+/**
+ * Clear a session's events and forget its store
+ */
+export async function deleteEventStore(sessionId: string) {
+  const store = stores.get(sessionId)
+  stores.delete(sessionId)
+  await store?.clear()
+}
+
+/**
+ * Resolves with the first replay that matches, or null once `timeoutMs` has
+ * passed without one
+ */
+export async function waitForReplay(
+  store: BenchEventStore,
+  matches: (replay: EventReplay) => boolean,
+  timeoutMs: number
+): Promise<EventReplay | null> {
+  const deadline = Date.now() + timeoutMs
+
+  while (Date.now() < deadline) {
+    const replay = store.getReplays().find(matches)
+    if (replay) return replay
+    await new Promise((resolve) => setTimeout(resolve, 50))
+  }
+  return store.getReplays().find(matches) ?? null
+}
@@ -2,20 +2,99 @@ import { readFileSync } from "fs"
 import { fileURLToPath } from "url"
 import { dirname, join } from "path"
 import { BASE_URL, CACHE_HASH } from "./constants.js"
+import { getInspectorLauncher, getInspectorNav } from "../inspectors.js"
+import { padAppHtml } from "./payload.js"
 
 const __filename = fileURLToPath(import.meta.url)
 const __dirname = dirname(__filename)
 
-export function loadAppHtml(appName: string): string {
-  const staticDir = join(__dirname, "..", "static")
+const staticDir = join(__dirname, "..", "static")
+
+const SHELL_CSS_TAG =
+  /<link[^>]*href="\{\{BASE_URL\}\}\/shell\/shell\.css[^"]*"[^>]*>/
+const SHELL_JS_TAG =
+  /<script[^>]*src="\{\{BASE_URL\}\}\/shell\/shell\.js[^"]*"[^>]*><\/script>/
+
+// Without an HTTP server nothing serves /shell, so the stdio entry point
+// embeds the shell assets in every app instead
+let inlineShell = false
+
+/**
+ * Embed shell.css and shell.js in the app HTML instead of linking them
+ */
+export function useInlineShellAssets() {
+  inlineShell = true
+}
+
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+}
+
+// Every app gets the footer navigation from the registry, ahead of shell.js
+// so the shell can read it as soon as it loads
+function injectInspectorNav(html: string): string {
+  // Escape "<" so the JSON can't close the surrounding <script> tag
+  const nav = JSON.stringify(getInspectorNav()).replace(/</g, "\\u003c")
+  return html.replace(
+    SHELL_JS_TAG,
+    (tag) =>
+      `<script>window.MCP_APP_BENCH_INSPECTORS = ${nav}</script>\n    ${tag}`
+  )
+}
+
+/**
+ * Launcher cards for every inspector with a `launcher` entry, in registry
+ * order
+ */
+export function renderInspectorLauncher(): string {
+  return getInspectorLauncher()
+    .map(
+      (card) =>
+        `<div class="launcher-card" data-tool="${escapeHtml(card.id)}">
+            <span class="launcher-card-icon">${escapeHtml(card.icon)}</span>
+            <h3 class="launcher-card-title">${escapeHtml(card.title)}</h3>
+            <p class="launcher-card-description">${escapeHtml(card.description)}</p>
+            <p class="launcher-card-tool">tool: ${escapeHtml(card.id)}</p>
+          </div>`
+    )
+    .join("\n\n          ")
+}
+
+function inlineShellAssets(html: string): string {
+  const css = readFileSync(join(staticDir, "shell", "shell.css"), "utf-8")
+  const js = readFileSync(join(staticDir, "shell", "shell.js"), "utf-8")
+
+  // Replacer functions, so "$" in the assets isn't read as a pattern
+  return html
+    .replace(SHELL_CSS_TAG, () => `<style>\n${css}</style>`)
+    .replace(
+      SHELL_JS_TAG,
+      () => `<script>\n${js.replace(/<\/script/gi, "<\\/script")}</script>`
+    )
+}
+
+/**
+ * Read an app's HTML with its placeholders filled in, optionally padded with
+ * `paddingBytes` of inert text
+ */
+export function loadAppHtml(appName: string, paddingBytes = 0): string {
   const htmlFile = `${appName}.html`
   const htmlPath = join(staticDir, htmlFile)
 
-  let html = readFileSync(htmlPath, "utf-8")
+  let html = injectInspectorNav(readFileSync(htmlPath, "utf-8"))
+
+  if (inlineShell) {
+    html = inlineShellAssets(html)
+  }
 
   // Replace placeholders with actual values
   html = html.replace(/\{\{BASE_URL\}\}/g, BASE_URL)
   html = html.replace(/\{\{CACHE_HASH\}\}/g, CACHE_HASH)
+  html = html.replace(/\{\{INSPECTOR_LAUNCHER\}\}/g, renderInspectorLauncher)
 
-  return html
+  return paddingBytes > 0 ? padAppHtml(html, paddingBytes) : html
 }
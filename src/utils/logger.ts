@@ -1,6 +1,248 @@
+/**
+ * Server logging.
+ *
+ * Every `log*` helper builds one entry with structured fields and the
+ * decorated box it has always printed. The backend chosen with `LOG_FORMAT`
+ * decides what is written: the box ("pretty", the default) or one JSON object
+ * per line ("json"), which log search tools can index. Entries can be
+ * filtered by level and by MCP method, and configured fields are redacted in
+ * both formats.
+ */
+
 import chalk from "chalk"
 import stringWidth from "string-width"
 import stripAnsi from "strip-ansi"
+import type { ObservedClientCapabilities } from "./client-capabilities.js"
+import {
+  LOG_FORMAT,
+  LOG_IGNORE_METHODS,
+  LOG_LEVEL,
+  LOG_MAX_STRING_LENGTH,
+  LOG_MAX_TEXT_LENGTH,
+  LOG_METHODS,
+  LOG_REDACT_FIELDS,
+} from "./constants.js"
+import type { EventReplay } from "./event-store.js"
+import type { SelfLintIssue } from "./self-lint.js"
+import { publishTraffic } from "./traffic-bus.js"
+
+// Where log output goes. The stdio entry point moves it to stderr, because
+// its stdout carries JSON-RPC
+let writeLog: (text: string) => void = (text) => console.log(text)
+
+/**
+ * Sends all further log output to stderr
+ */
+export const logToStderr = () => {
+  writeLog = (text) => console.error(text)
+}
+
+// =============================================================================
+// Backends
+// =============================================================================
+
+export type LogLevel = "debug" | "info" | "warn" | "error"
+
+export type LogFormat = "pretty" | "json"
+
+export interface LoggerOptions {
+  format: LogFormat
+  /** Entries below this level are dropped */
+  level: LogLevel
+  /** Only log messages with these methods; a trailing "*" matches a prefix */
+  methods: string[]
+  /** Drop messages with these methods */
+  ignoreMethods: string[]
+  /** Keys whose values are redacted wherever they appear */
+  redactFields: string[]
+  /** `text` and `blob` values longer than this are redacted; 0 disables */
+  maxTextLength: number
+  /** Other strings longer than this are cut short; 0 disables */
+  maxStringLength: number
+}
+
+/** An entry as written in NDJSON mode */
+interface LogRecord {
+  time: string
+  level: LogLevel
+  event: string
+  msg: string
+  [field: string]: unknown
+}
+
+interface LogBackend {
+  write(record: LogRecord, renderPretty: () => void): void
+}
+
+interface LogEntry<TFields extends Record<string, unknown>> {
+  level: LogLevel
+  /** Stable name to search logs by, e.g. "session_closed" */
+  event: string
+  msg: string
+  /** MCP method of a logged message, for per-method filtering */
+  method?: string
+  fields: TFields
+  /** The decorated box, drawn from the redacted fields */
+  pretty: (fields: TFields) => void
+}
+
+const LOG_LEVELS: LogLevel[] = ["debug", "info", "warn", "error"]
+
+const BACKENDS: Record<LogFormat, LogBackend> = {
+  pretty: {
+    write: (record, renderPretty) => renderPretty(),
+  },
+  json: {
+    write: (record) => writeLog(JSON.stringify(record)),
+  },
+}
+
+// Resource bodies are stored under these keys, and inlined app HTML makes
+// them far too large to log
+const BODY_KEYS = new Set(["text", "blob"])
+
+let options: LoggerOptions = {
+  format: LOG_FORMAT === "json" ? "json" : "pretty",
+  level: LOG_LEVELS.includes(LOG_LEVEL as LogLevel)
+    ? (LOG_LEVEL as LogLevel)
+    : "debug",
+  methods: LOG_METHODS,
+  ignoreMethods: LOG_IGNORE_METHODS,
+  redactFields: LOG_REDACT_FIELDS,
+  maxTextLength: LOG_MAX_TEXT_LENGTH,
+  maxStringLength: LOG_MAX_STRING_LENGTH,
+}
+let redactedKeys = new Set(options.redactFields.map((key) => key.toLowerCase()))
+
+/**
+ * Overrides the logging options read from the environment
+ */
+export const configureLogger = (overrides: Partial<LoggerOptions>) => {
+  options = { ...options, ...overrides }
+  redactedKeys = new Set(options.redactFields.map((key) => key.toLowerCase()))
+}
+
+const matchesMethod = (patterns: string[], method: string) =>
+  patterns.some((pattern) =>
+    pattern.endsWith("*")
+      ? method.startsWith(pattern.slice(0, -1))
+      : method === pattern
+  )
+
+const isEnabled = (level: LogLevel, method: string | undefined) => {
+  if (LOG_LEVELS.indexOf(level) < LOG_LEVELS.indexOf(options.level)) {
+    return false
+  }
+  if (method === undefined) {
+    return true
+  }
+  if (options.methods.length > 0 && !matchesMethod(options.methods, method)) {
+    return false
+  }
+  return !matchesMethod(options.ignoreMethods, method)
+}
+
+/**
+ * Copies a value with configured fields and large resource bodies redacted,
+ * and other long strings cut short
+ */
+export const redactLogValue = (value: unknown): unknown => {
+  if (
+    typeof value === "string" &&
+    options.maxStringLength > 0 &&
+    value.length > options.maxStringLength
+  ) {
+    return `${value.slice(0, options.maxStringLength)}… [truncated: ${value.length} characters]`
+  }
+  if (Array.isArray(value)) {
+    return value.map(redactLogValue)
+  }
+  if (!value || typeof value !== "object") {
+    return value
+  }
+
+  return Object.fromEntries(
+    Object.entries(value).map(([key, item]) => {
+      if (redactedKeys.has(key.toLowerCase())) {
+        return [key, "[redacted]"]
+      }
+      if (
+        BODY_KEYS.has(key) &&
+        typeof item === "string" &&
+        options.maxTextLength > 0 &&
+        item.length > options.maxTextLength
+      ) {
+        return [key, `[redacted: ${item.length} characters]`]
+      }
+      return [key, redactLogValue(item)]
+    })
+  )
+}
+
+const log = <TFields extends Record<string, unknown>>(
+  entry: LogEntry<TFields>
+) => {
+  if (!isEnabled(entry.level, entry.method)) {
+    return
+  }
+
+  const fields = redactLogValue(entry.fields) as TFields
+  BACKENDS[options.format].write(
+    {
+      time: new Date().toISOString(),
+      level: entry.level,
+      event: entry.event,
+      msg: entry.msg,
+      ...fields,
+    },
+    () => entry.pretty(fields)
+  )
+}
+
+// Methods of requests still waiting for their response, keyed by sender,
+// session and ID, so a response is filtered and logged under its method
+const pendingMethods = new Map<string, string>()
+const MAX_PENDING_METHODS = 1000
+
+const getMessageMethod = (
+  direction: "client" | "server",
+  sessionId: string | undefined,
+  message: any
+): string | undefined => {
+  if (typeof message?.method === "string") {
+    if (message.id !== undefined) {
+      pendingMethods.set(
+        `${direction}:${sessionId ?? ""}:${message.id}`,
+        message.method
+      )
+      if (pendingMethods.size > MAX_PENDING_METHODS) {
+        pendingMethods.delete(pendingMethods.keys().next().value!)
+      }
+    }
+    return message.method
+  }
+  if (message?.id === undefined) {
+    return undefined
+  }
+
+  // The initialize request is logged before its session ID exists
+  const requester = direction === "client" ? "server" : "client"
+  for (const key of [
+    `${requester}:${sessionId ?? ""}:${message.id}`,
+    `${requester}::${message.id}`,
+  ]) {
+    const method = pendingMethods.get(key)
+    if (method !== undefined) {
+      pendingMethods.delete(key)
+      return method
+    }
+  }
+  return undefined
+}
+
+// =============================================================================
+// Pretty Output
+// =============================================================================
 
 /**
  * Truncates a long line to fit within the specified width
@@ -10,10 +252,10 @@ import stripAnsi from "strip-ansi"
  */
 const truncateLine = (line: string, maxWidth: number): string => {
   const stripped = stripAnsi(line)
-  const visualWidth = stringWidth(stripped)
 
-  // If the line fits, return it as-is
-  if (visualWidth <= maxWidth) {
+  // If the line fits, return it as-is. Measuring a line as long as an inlined
+  // app's HTML takes seconds, and it can't fit anyway
+  if (stripped.length <= maxWidth * 2 && stringWidth(stripped) <= maxWidth) {
     return line
   }
 
@@ -82,19 +324,19 @@ export const logBox = (
   const titlePadding = Math.max(0, width - titleWidth - 4)
   const titleLine = color("│ ") + title + " ".repeat(titlePadding) + color(" │")
 
-  console.log(topBorder)
-  console.log(titleLine)
-  console.log(color("├" + "─".repeat(width - 2) + "┤"))
+  writeLog(topBorder)
+  writeLog(titleLine)
+  writeLog(color("├" + "─".repeat(width - 2) + "┤"))
 
   // Process each line, truncating if necessary
   content.forEach((line) => {
     const truncated = truncateLine(line, contentMaxWidth)
     const visualWidth = stringWidth(stripAnsi(truncated))
     const padding = Math.max(0, contentMaxWidth - visualWidth)
-    console.log(color("│ ") + truncated + " ".repeat(padding) + color(" │"))
+    writeLog(color("│ ") + truncated + " ".repeat(padding) + color(" │"))
   })
 
-  console.log(bottomBorder)
+  writeLog(bottomBorder)
 }
 
 /**
@@ -110,67 +352,167 @@ export const formatJSON = (obj: any, indent = 2): string => {
     .join("\n")
 }
 
+// =============================================================================
+// Log Helpers
+// =============================================================================
+
 /**
- * Logs an incoming MCP client message
+ * Logs an incoming MCP client message and publishes it, in full, to the
+ * traffic viewer
  */
 export const logClientMessage = (
   sessionId: string | undefined,
   messageBody: any,
   route?: string
 ) => {
-  const messageType = messageBody.method || "unknown"
-  const isNewSession = !sessionId
-  const routeLabel = route ? chalk.gray(` [${route}]`) : ""
-
-  const title = isNewSession
-    ? chalk.bold.white("📨 Client → Server ") +
-      chalk.yellow("(NEW)") +
-      routeLabel
-    : chalk.bold.white("📨 Client → Server") + routeLabel
-
-  logBox(
-    title,
-    [
-      `${chalk.blue("Session:")} ${
-        sessionId ? chalk.green(sessionId) : chalk.yellow("(initializing)")
-      }`,
-      `${chalk.blue("Method:")} ${chalk.magenta(messageType)}`,
-      `${chalk.blue("Payload:")}`,
-      ...formatJSON(messageBody)
-        .split("\n")
-        .map((line) => `  ${line}`),
-    ],
-    chalk.blue
-  )
+  publishTraffic("client", sessionId, messageBody, route)
+  const method = getMessageMethod("client", sessionId, messageBody)
+
+  log({
+    level: "info",
+    event: "client_message",
+    msg: "Client → Server",
+    method: method ?? "",
+    fields: {
+      sessionId: sessionId ?? null,
+      route: route ?? null,
+      method: method ?? null,
+      payload: messageBody,
+    },
+    pretty: ({ payload }) => {
+      const messageType = payload.method || "unknown"
+      const isNewSession = !sessionId
+      const routeLabel = route ? chalk.gray(` [${route}]`) : ""
+
+      const title = isNewSession
+        ? chalk.bold.white("📨 Client → Server ") +
+          chalk.yellow("(NEW)") +
+          routeLabel
+        : chalk.bold.white("📨 Client → Server") + routeLabel
+
+      logBox(
+        title,
+        [
+          `${chalk.blue("Session:")} ${
+            sessionId ? chalk.green(sessionId) : chalk.yellow("(initializing)")
+          }`,
+          `${chalk.blue("Method:")} ${chalk.magenta(messageType)}`,
+          `${chalk.blue("Payload:")}`,
+          ...formatJSON(payload)
+            .split("\n")
+            .map((line) => `  ${line}`),
+        ],
+        chalk.blue
+      )
+    },
+  })
 }
 
 /**
- * Logs an outgoing MCP server message
+ * Logs an outgoing MCP server message and publishes it, in full, to the
+ * traffic viewer
  */
 export const logServerMessage = (
   sessionId: string | undefined,
   messageBody: any,
   route?: string
 ) => {
-  const messageType =
-    messageBody.method ||
-    (messageBody.result ? "result" : messageBody.error ? "error" : "unknown")
-  const routeLabel = route ? chalk.gray(` [${route}]`) : ""
-
-  logBox(
-    chalk.bold.white("📤 Server → Client") + routeLabel,
-    [
-      `${chalk.blue("Session:")} ${
-        sessionId ? chalk.green(sessionId) : chalk.yellow("(no session)")
-      }`,
-      `${chalk.blue("Type:")} ${chalk.cyan(messageType)}`,
-      `${chalk.blue("Payload:")}`,
-      ...formatJSON(messageBody)
-        .split("\n")
-        .map((line) => `  ${line}`),
-    ],
-    chalk.cyan
-  )
+  publishTraffic("server", sessionId, messageBody, route)
+  const method = getMessageMethod("server", sessionId, messageBody)
+
+  log({
+    level: "info",
+    event: "server_message",
+    msg: "Server → Client",
+    method: method ?? "",
+    fields: {
+      sessionId: sessionId ?? null,
+      route: route ?? null,
+      method: method ?? null,
+      payload: messageBody,
+    },
+    pretty: ({ payload }) => {
+      const messageType =
+        payload.method ||
+        (payload.result ? "result" : payload.error ? "error" : "unknown")
+      // Responses are labelled with the method of the request they answer
+      const responseTo =
+        method && !payload.method ? chalk.gray(` (${method})`) : ""
+      const routeLabel = route ? chalk.gray(` [${route}]`) : ""
+
+      logBox(
+        chalk.bold.white("📤 Server → Client") + routeLabel,
+        [
+          `${chalk.blue("Session:")} ${
+            sessionId ? chalk.green(sessionId) : chalk.yellow("(no session)")
+          }`,
+          `${chalk.blue("Type:")} ${chalk.cyan(messageType)}${responseTo}`,
+          `${chalk.blue("Payload:")}`,
+          ...formatJSON(payload)
+            .split("\n")
+            .map((line) => `  ${line}`),
+        ],
+        chalk.cyan
+      )
+    },
+  })
+}
+
+/**
+ * Logs a new /mcp session being created for an initialize request
+ */
+export const logSessionCreating = (route: string) => {
+  log({
+    level: "debug",
+    event: "session_creating",
+    msg: "Creating new MCP session",
+    fields: { route },
+    pretty: () => {
+      writeLog(chalk.yellow(`🔄 [${route}] Creating new MCP session...`))
+    },
+  })
+}
+
+/**
+ * Logs a request on an existing session's transport
+ */
+export const logSessionReused = (sessionId: string, route: string) => {
+  log({
+    level: "debug",
+    event: "session_reused",
+    msg: "Reusing transport for session",
+    fields: { sessionId, route },
+    pretty: () => {
+      writeLog(
+        chalk.gray(`♻️  [${route}] Reusing transport for session: ${sessionId}`)
+      )
+    },
+  })
+}
+
+/**
+ * Logs a GET (stream) or DELETE (termination) request for a session
+ */
+export const logSessionRequest = (
+  httpMethod: string,
+  sessionId: string,
+  route: string
+) => {
+  log({
+    level: "debug",
+    event: "session_request",
+    msg: `${httpMethod} request for session`,
+    fields: { httpMethod, sessionId, route },
+    pretty: () => {
+      const methodIcon = httpMethod === "GET" ? "📥" : "🗑️"
+      const methodColor = httpMethod === "GET" ? chalk.cyan : chalk.red
+      writeLog(
+        methodColor(
+          `${methodIcon} [${route}] ${httpMethod} request for session: ${sessionId}`
+        )
+      )
+    },
+  })
 }
 
 /**
@@ -181,16 +523,96 @@ export const logSessionInitialized = (
   activeCount: number,
   route?: string
 ) => {
-  const routeLabel = route ? chalk.gray(` [${route}]`) : ""
-
-  logBox(
-    chalk.bold.white("✨ Session Initialized") + routeLabel,
-    [
-      `${chalk.blue("Session ID:")} ${chalk.green(sessionId)}`,
-      `${chalk.blue("Active Sessions:")} ${chalk.cyan(activeCount.toString())}`,
-    ],
-    chalk.green
-  )
+  log({
+    level: "info",
+    event: "session_initialized",
+    msg: "Session initialized",
+    fields: { sessionId, activeSessions: activeCount, route: route ?? null },
+    pretty: () => {
+      const routeLabel = route ? chalk.gray(` [${route}]`) : ""
+
+      logBox(
+        chalk.bold.white("✨ Session Initialized") + routeLabel,
+        [
+          `${chalk.blue("Session ID:")} ${chalk.green(sessionId)}`,
+          `${chalk.blue("Active Sessions:")} ${chalk.cyan(activeCount.toString())}`,
+        ],
+        chalk.green
+      )
+    },
+  })
+}
+
+/**
+ * Logs the MCP Apps capabilities a client advertised in initialize
+ */
+export const logClientCapabilities = (
+  sessionId: string | undefined,
+  observed: ObservedClientCapabilities
+) => {
+  log({
+    level: "info",
+    event: "client_capabilities",
+    msg: "Client capabilities",
+    fields: {
+      sessionId: sessionId ?? null,
+      clientInfo: observed.clientInfo,
+      supportsMcpApps: observed.supportsMcpApps,
+      location: observed.location,
+      mimeTypes: observed.mimeTypes,
+    },
+    pretty: () => {
+      const client = observed.clientInfo
+        ? `${observed.clientInfo.name} ${observed.clientInfo.version}`
+        : "unknown"
+
+      logBox(
+        chalk.bold.white("🧩 Client Capabilities"),
+        [
+          `${chalk.blue("Session:")} ${
+            sessionId ? chalk.green(sessionId) : chalk.yellow("(initializing)")
+          }`,
+          `${chalk.blue("Client:")} ${chalk.magenta(client)}`,
+          `${chalk.blue("MCP Apps:")} ${
+            observed.supportsMcpApps
+              ? chalk.green(`yes (${observed.location})`)
+              : chalk.yellow("not advertised — text-only fallback")
+          }`,
+          `${chalk.blue("MIME Types:")} ${chalk.cyan(observed.mimeTypes.join(", ") || "none")}`,
+        ],
+        observed.supportsMcpApps ? chalk.green : chalk.yellow
+      )
+    },
+  })
+}
+
+/**
+ * Logs a host resuming an SSE stream with Last-Event-ID
+ */
+export const logEventsReplayed = (sessionId: string, replay: EventReplay) => {
+  log({
+    level: "info",
+    event: "stream_resumed",
+    msg: "Stream resumed",
+    fields: {
+      sessionId,
+      streamId: replay.streamId,
+      lastEventId: replay.lastEventId,
+      replayed: replay.messages.length,
+    },
+    pretty: () => {
+      logBox(
+        chalk.bold.white("⏯️  Stream Resumed"),
+        [
+          `${chalk.blue("Session:")} ${chalk.green(sessionId)}`,
+          `${chalk.blue("Stream:")} ${chalk.cyan(replay.streamId)}`,
+          `${chalk.blue("Last-Event-ID:")} ${chalk.magenta(replay.lastEventId)}`,
+          `${chalk.blue("Replayed:")} ${chalk.cyan(replay.messages.length.toString())} message(s)`,
+        ],
+        chalk.cyan
+      )
+    },
+  })
 }
 
 /**
@@ -199,34 +621,59 @@ export const logSessionInitialized = (
 export const logSessionClosed = (
   sessionId: string,
   remainingCount: number,
-  route?: string
+  route?: string,
+  reason?: string
 ) => {
-  const routeLabel = route ? chalk.gray(` [${route}]`) : ""
-
-  logBox(
-    chalk.bold.white("👋 Session Closed") + routeLabel,
-    [
-      `${chalk.blue("Session ID:")} ${chalk.red(sessionId)}`,
-      `${chalk.blue("Remaining Sessions:")} ${chalk.cyan(
-        remainingCount.toString()
-      )}`,
-    ],
-    chalk.red
-  )
+  log({
+    level: "info",
+    event: "session_closed",
+    msg: "Session closed",
+    fields: {
+      sessionId,
+      remainingSessions: remainingCount,
+      route: route ?? null,
+      reason: reason ?? null,
+    },
+    pretty: () => {
+      const routeLabel = route ? chalk.gray(` [${route}]`) : ""
+
+      logBox(
+        chalk.bold.white("👋 Session Closed") + routeLabel,
+        [
+          `${chalk.blue("Session ID:")} ${chalk.red(sessionId)}`,
+          ...(reason
+            ? [`${chalk.blue("Reason:")} ${chalk.yellow(reason)}`]
+            : []),
+          `${chalk.blue("Remaining Sessions:")} ${chalk.cyan(
+            remainingCount.toString()
+          )}`,
+        ],
+        chalk.red
+      )
+    },
+  })
 }
 
 /**
  * Logs tool invocation
  */
 export const logToolInvocation = (toolName: string, action: string) => {
-  logBox(
-    chalk.bold.white("🛠️  Tool Invocation"),
-    [
-      `${chalk.blue("Tool:")} ${chalk.magenta(toolName)}`,
-      `${chalk.blue("Action:")} ${chalk.gray(action)}`,
-    ],
-    chalk.magenta
-  )
+  log({
+    level: "info",
+    event: "tool_invocation",
+    msg: "Tool invocation",
+    fields: { tool: toolName, action },
+    pretty: () => {
+      logBox(
+        chalk.bold.white("🛠️  Tool Invocation"),
+        [
+          `${chalk.blue("Tool:")} ${chalk.magenta(toolName)}`,
+          `${chalk.blue("Action:")} ${chalk.gray(action)}`,
+        ],
+        chalk.magenta
+      )
+    },
+  })
 }
 
 /**
@@ -236,37 +683,127 @@ export const logSessionRequestFailed = (
   method: string,
   sessionId: string | undefined,
   activeCount: number,
-  route?: string
+  route?: string,
+  error = "Session not found"
 ) => {
-  const methodIcon = method === "GET" ? "📥" : "🗑️"
-  const routeLabel = route ? chalk.gray(` [${route}]`) : ""
-
-  logBox(
-    chalk.bold.white(`${methodIcon} ${method} Request Failed`) + routeLabel,
-    [
-      `${chalk.blue("Session:")} ${
-        sessionId ? chalk.red(sessionId) : chalk.red("(missing)")
-      }`,
-      `${chalk.red("Error:")} Session not found`,
-      `${chalk.blue("Active Sessions:")} ${chalk.cyan(activeCount.toString())}`,
-    ],
-    chalk.red
-  )
+  log({
+    level: "warn",
+    event: "session_request_failed",
+    msg: `${method} request failed`,
+    fields: {
+      httpMethod: method,
+      sessionId: sessionId ?? null,
+      activeSessions: activeCount,
+      route: route ?? null,
+      error,
+    },
+    pretty: () => {
+      const methodIcon = method === "GET" ? "📥" : "🗑️"
+      const routeLabel = route ? chalk.gray(` [${route}]`) : ""
+
+      logBox(
+        chalk.bold.white(`${methodIcon} ${method} Request Failed`) + routeLabel,
+        [
+          `${chalk.blue("Session:")} ${
+            sessionId ? chalk.red(sessionId) : chalk.red("(missing)")
+          }`,
+          `${chalk.red("Error:")} ${error}`,
+          `${chalk.blue("Active Sessions:")} ${chalk.cyan(activeCount.toString())}`,
+        ],
+        chalk.red
+      )
+    },
+  })
+}
+
+/**
+ * Logs the creation of an MCP server instance
+ */
+export const logMcpServerInitializing = (
+  extensionId: string,
+  mimeType: string
+) => {
+  log({
+    level: "info",
+    event: "mcp_server_initializing",
+    msg: "Initializing MCP server",
+    fields: { extensionId, mimeType },
+    pretty: () => {
+      writeLog(`\n🚀 Initializing MCP server (SEP-1865 mode)`)
+      writeLog(`   Extension ID: ${extensionId}`)
+      writeLog(`   MIME Type: ${mimeType}`)
+    },
+  })
 }
 
 /**
  * Logs server startup
  */
 export const logServerStarted = (port: string | number) => {
-  console.log("\n")
-  logBox(
-    chalk.bold.white("🚀 MCP Server Started"),
-    [
-      `${chalk.blue("Port:")} ${chalk.green(port.toString())}`,
-      `${chalk.blue("URL:")} ${chalk.cyan(`http://localhost:${port}`)}`,
-      `${chalk.blue("Status:")} ${chalk.green("Ready to accept connections")}`,
-    ],
-    chalk.green
-  )
-  console.log("\n")
+  const url = `http://localhost:${port}`
+
+  log({
+    level: "info",
+    event: "server_started",
+    msg: "MCP server started",
+    fields: { port: Number(port), url },
+    pretty: () => {
+      writeLog("\n")
+      logBox(
+        chalk.bold.white("🚀 MCP Server Started"),
+        [
+          `${chalk.blue("Port:")} ${chalk.green(port.toString())}`,
+          `${chalk.blue("URL:")} ${chalk.cyan(url)}`,
+          `${chalk.blue("Status:")} ${chalk.green("Ready to accept connections")}`,
+        ],
+        chalk.green
+      )
+      writeLog("\n")
+    },
+  })
+}
+
+/**
+ * Logs the second origin that serves the CSP probes
+ */
+export const logProbeServerStarted = (port: string | number) => {
+  const url = `http://localhost:${port}`
+
+  log({
+    level: "info",
+    event: "probe_server_started",
+    msg: "CSP probe origin listening",
+    fields: { port: Number(port), url },
+    pretty: () => {
+      writeLog(chalk.gray(`🛡️  CSP probe origin listening on ${url}`))
+    },
+  })
+}
+
+/**
+ * Logs metadata problems found by the startup self-lint
+ */
+export const logSelfLintFailed = (issues: SelfLintIssue[]) => {
+  log({
+    level: "error",
+    event: "self_lint_failed",
+    msg: "Invalid MCP Apps metadata",
+    fields: { issues },
+    pretty: () => {
+      logBox(
+        chalk.bold.white("🚫 Invalid MCP Apps Metadata"),
+        [
+          ...issues.map(
+            (issue) =>
+              `${chalk.magenta(issue.target)} ${chalk.blue(issue.path)} ${chalk.gray(issue.message)}`
+          ),
+          "",
+          `${chalk.red("Status:")} Refusing to start with ${issues.length} issue${
+            issues.length === 1 ? "" : "s"
+          }`,
+        ],
+        chalk.red
+      )
+    },
+  })
 }
@@ -0,0 +1,140 @@
+/**
+ * Runs of the long-running task tool.
+ *
+ * A run sleeps through its duration in equal steps, sends
+ * `notifications/progress` after each step when the host gave a progress
+ * token, and stops early when the host cancels the request. Each server keeps
+ * a log of its runs, so the Tool Data inspector can ask what the server saw
+ * even for a call whose result never reached the app.
+ */
+
+import type {
+  ProgressToken,
+  ServerNotification,
+} from "@modelcontextprotocol/sdk/types.js"
+
+export type TaskRunStatus = "running" | "completed" | "cancelled"
+
+export interface TaskProgressEvent {
+  progress: number
+  total: number
+  time: string
+}
+
+export interface TaskRun {
+  runId: string
+  durationMs: number
+  steps: number
+  /** Token from the request's `_meta`; progress is only sent when present */
+  progressToken: ProgressToken | null
+  status: TaskRunStatus
+  startedAt: string
+  /** Steps completed, whether or not a notification could be sent */
+  progress: TaskProgressEvent[]
+  progressSent: number
+  cancelledAt: string | null
+  /** Reason from `notifications/cancelled`, if the host gave one */
+  cancelReason: string | null
+  finishedAt: string | null
+}
+
+export interface TaskRunOptions {
+  runId: string
+  durationMs: number
+  steps: number
+  progressToken?: ProgressToken
+  /** The request handler's abort signal, fired on cancellation */
+  signal: AbortSignal
+  sendNotification: (notification: ServerNotification) => Promise<void>
+}
+
+export interface TaskRunLog {
+  /** A run by ID, or the most recent one without an ID */
+  get(runId?: string): TaskRun | null
+  /** Start a run and resolve once it completes or is cancelled */
+  run(options: TaskRunOptions): Promise<TaskRun>
+}
+
+// Resolves after `ms`, or as soon as the signal aborts
+function waitUnlessAborted(ms: number, signal: AbortSignal) {
+  return new Promise<void>((resolve) => {
+    if (signal.aborted) return resolve()
+    const done = () => {
+      clearTimeout(timer)
+      signal.removeEventListener("abort", done)
+      resolve()
+    }
+    const timer = setTimeout(done, ms)
+    signal.addEventListener("abort", done)
+  })
+}
+
+export function createTaskRunLog(): TaskRunLog {
+  const runs = new Map<string, TaskRun>()
+  let latest: TaskRun | null = null
+
+  return {
+    get(runId) {
+      return runId === undefined ? latest : (runs.get(runId) ?? null)
+    },
+
+    async run(options) {
+      const run: TaskRun = {
+        runId: options.runId,
+        durationMs: options.durationMs,
+        steps: options.steps,
+        progressToken: options.progressToken ?? null,
+        status: "running",
+        startedAt: new Date().toISOString(),
+        progress: [],
+        progressSent: 0,
+        cancelledAt: null,
+        cancelReason: null,
+        finishedAt: null,
+      }
+      runs.set(run.runId, run)
+      latest = run
+
+      const { signal } = options
+      const onAbort = () => {
+        run.status = "cancelled"
+        run.cancelledAt = new Date().toISOString()
+        run.cancelReason =
+          typeof signal.reason === "string" ? signal.reason : null
+      }
+      if (signal.aborted) onAbort()
+      signal.addEventListener("abort", onAbort, { once: true })
+
+      const stepMs = options.durationMs / options.steps
+      for (let step = 1; step <= options.steps && !signal.aborted; step++) {
+        await waitUnlessAborted(stepMs, signal)
+        if (signal.aborted) break
+
+        run.progress.push({
+          progress: step,
+          total: options.steps,
+          time: new Date().toISOString(),
+        })
+        if (run.progressToken !== null) {
+          await options.sendNotification({
+            method: "notifications/progress",
+            params: {
+              progressToken: run.progressToken,
+              progress: step,
+              total: options.steps,
+              message: `Step ${step} of ${options.steps}`,
+            },
+          })
+          run.progressSent++
+        }
+      }
+
+      signal.removeEventListener("abort", onAbort)
+      if (run.status === "running") {
+        run.status = "completed"
+      }
+      run.finishedAt = new Date().toISOString()
+      return run
+    },
+  }
+}
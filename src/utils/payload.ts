@@ -0,0 +1,52 @@
+/**
+ * Generated payloads for the payload size inspector.
+ *
+ * Payloads are ASCII, so their length in characters is their size in bytes,
+ * and repeat a fixed pattern, so a receiver can tell an intact payload from a
+ * truncated or altered one by checking its length and its last characters.
+ */
+
+import express from "express"
+import { MCP_MAX_BODY_BYTES } from "./constants.js"
+
+// Repeated to fill a payload; 64 characters, none that JSON or HTML escape
+const PAYLOAD_PATTERN =
+  "0123456789abcdefghijklmnopqrstuvwxyzABCDEFGHIJKLMNOPQRSTUVWXYZ-_"
+
+// Element the padding goes in: template content is parsed but never rendered
+export const HTML_PADDING_ELEMENT_ID = "html-padding"
+
+/**
+ * A payload of exactly `bytes` bytes
+ */
+export function generatePayload(bytes: number): string {
+  const repeats = Math.ceil(bytes / PAYLOAD_PATTERN.length)
+  return PAYLOAD_PATTERN.repeat(repeats).slice(0, bytes)
+}
+
+/**
+ * Whether `payload` is exactly what `generatePayload(bytes)` returns
+ */
+export function isIntactPayload(payload: unknown, bytes: number): boolean {
+  return typeof payload === "string" && payload === generatePayload(bytes)
+}
+
+/**
+ * JSON body parser for /mcp. Its limit fits the largest payload, so a call
+ * the inspector finds too large was refused by the host, not by the bench
+ */
+export function createMcpBodyParser() {
+  return express.json({ limit: MCP_MAX_BODY_BYTES })
+}
+
+/**
+ * Add `bytes` of padding to an app's HTML, in an inert element at the end of
+ * its body
+ */
+export function padAppHtml(html: string, bytes: number): string {
+  const padding = `<template id="${HTML_PADDING_ELEMENT_ID}">${generatePayload(bytes)}</template>\n`
+  const bodyEnd = html.lastIndexOf("</body>")
+  return bodyEnd === -1
+    ? html + padding
+    : html.slice(0, bodyEnd) + padding + html.slice(bodyEnd)
+}
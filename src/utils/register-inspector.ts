@@ -0,0 +1,207 @@
+import type {
+  McpServer,
+  RegisteredResource,
+  RegisteredTool,
+} from "@modelcontextprotocol/sdk/server/mcp.js"
+import { z } from "zod"
+import type { InspectorConfig, UIResourceMeta } from "../types/mcp-apps.js"
+import type { ObservedClientCapabilities } from "./client-capabilities.js"
+import { MCP_APPS_EXTENSION_ID, MCP_APPS_MIME_TYPE } from "./constants.js"
+import { loadAppHtml } from "./load-app-html.js"
+
+export interface RegisteredInspector {
+  tool: RegisteredTool
+  resource: RegisteredResource
+}
+
+const footerJokeInput = z
+  .string()
+  .describe(
+    "A simple one-line joke to display in the app footer for this inspector."
+  )
+  .optional()
+
+const footerJokeOutput = z
+  .string()
+  .describe("The simple one-line joke displayed in the app footer.")
+  .optional()
+
+export function withFooterInputSchema<T extends z.ZodRawShape>(shape: T) {
+  return {
+    ...shape,
+    joke: footerJokeInput,
+  }
+}
+
+export function withFooterOutputSchema<T extends z.ZodRawShape>(shape: T) {
+  return {
+    ...shape,
+    timestamp: z.string().describe("The timestamp of the inspection"),
+    joke: footerJokeOutput,
+  }
+}
+
+export function buildFooterStructuredContent(
+  joke: string | undefined,
+  extra: Record<string, unknown> = {}
+) {
+  return {
+    ...extra,
+    timestamp: new Date().toISOString(),
+    ...(joke ? { joke } : {}),
+  }
+}
+
+/**
+ * Build the `_meta.ui` block for an inspector's resource contents
+ */
+export function buildResourceUiMeta(
+  inspector: InspectorConfig
+): UIResourceMeta {
+  return {
+    ...(inspector.prefersBorder !== undefined
+      ? { prefersBorder: inspector.prefersBorder }
+      : {}),
+    ...(inspector.csp ? { csp: inspector.csp } : {}),
+    ...(inspector.permissions ? { permissions: inspector.permissions } : {}),
+    ...(inspector.domain ? { domain: inspector.domain } : {}),
+  }
+}
+
+/**
+ * Whether a client should get the text-only fallback. Until the server has
+ * seen `initialize` it assumes MCP Apps support.
+ */
+export function isTextOnlyClient(
+  observed: ObservedClientCapabilities | null
+): observed is ObservedClientCapabilities {
+  return observed !== null && !observed.supportsMcpApps
+}
+
+function describeDeclaration(inspector: InspectorConfig): string[] {
+  const lines = Object.entries(inspector.csp ?? {}).map(
+    ([directive, domains]) =>
+      `- CSP \`${directive}\`: ${(domains as string[]).join(", ") || "none"}`
+  )
+  if (inspector.permissions) {
+    const permissions = Object.keys(inspector.permissions)
+    lines.push(
+      `- Permissions: ${permissions.length > 0 ? permissions.join(", ") : "none"}`
+    )
+  }
+  if (inspector.domain) {
+    lines.push(`- Dedicated domain: ${inspector.domain}`)
+  }
+  return lines
+}
+
+/**
+ * Markdown returned in place of the app when the client can't render it:
+ * what the inspector tests and why this client can't run it
+ */
+export function buildTextFallback(
+  inspector: InspectorConfig,
+  observed: ObservedClientCapabilities,
+  text: string
+): string {
+  const reason =
+    observed.mimeTypes.length > 0
+      ? `It advertised \`${MCP_APPS_EXTENSION_ID}\` with ${observed.mimeTypes.map((mimeType) => `\`${mimeType}\``).join(", ")}, but not \`${MCP_APPS_MIME_TYPE}\`.`
+      : `It did not advertise the \`${MCP_APPS_EXTENSION_ID}\` extension in \`initialize\`.`
+  const declaration = describeDeclaration(inspector)
+
+  return [
+    `## ${inspector.title}`,
+    "",
+    `${inspector.description}.`,
+    "",
+    `**This client can't run this inspector.** ${reason} The server has left out the UI resource (\`${inspector.uri}\`); open this tool in a host that supports MCP Apps to run the checks.`,
+    ...(declaration.length > 0
+      ? ["", "The resource would have declared:", ...declaration]
+      : []),
+    "",
+    text,
+  ].join("\n")
+}
+
+/**
+ * Drop an inspector's UI from listings for a client without MCP Apps. Called
+ * while `initialize` is handled, before the client can list anything, so the
+ * registrations are changed in place rather than announced with
+ * `list_changed`.
+ */
+export function hideInspectorUi(registration: RegisteredInspector) {
+  registration.tool._meta = undefined
+  registration.resource.enabled = false
+}
+
+/**
+ * Registers an inspector's UI resource and the tool that renders it. Clients
+ * that don't advertise MCP Apps get the text-only fallback from the tool.
+ */
+export function registerInspector(
+  server: McpServer,
+  inspector: InspectorConfig,
+  getClientCapabilities: () => ObservedClientCapabilities | null = () => null
+): RegisteredInspector {
+  const resource = server.registerResource(
+    inspector.name,
+    inspector.uri,
+    {
+      title: inspector.title,
+      description: inspector.description,
+      mimeType: MCP_APPS_MIME_TYPE,
+    },
+    async () => ({
+      contents: [
+        {
+          uri: inspector.uri,
+          mimeType: MCP_APPS_MIME_TYPE,
+          text: loadAppHtml(inspector.appName, inspector.htmlPaddingBytes),
+          _meta: {
+            ui: buildResourceUiMeta(inspector),
+          },
+        },
+      ],
+    })
+  )
+
+  const tool = server.registerTool(
+    inspector.name,
+    {
+      title: inspector.title,
+      description: inspector.toolDescription ?? inspector.description,
+      inputSchema: withFooterInputSchema(inspector.inputSchema ?? {}),
+      outputSchema: withFooterOutputSchema(inspector.outputSchema ?? {}),
+      _meta: {
+        ui: {
+          resourceUri: inspector.uri,
+          ...(inspector.visibility ? { visibility: inspector.visibility } : {}),
+        },
+      },
+    },
+    async (args) => {
+      const { joke, ...input } = args
+      const result = await inspector.handler(input)
+      const observed = getClientCapabilities()
+
+      return {
+        content: [
+          {
+            type: "text",
+            text: isTextOnlyClient(observed)
+              ? buildTextFallback(inspector, observed, result.text)
+              : result.text,
+          },
+        ],
+        structuredContent: buildFooterStructuredContent(
+          joke,
+          result.structuredContent
+        ),
+        ...(result._meta ? { _meta: result._meta } : {}),
+      }
+    }
+  )
+
+  return { tool, resource }
+}
@@ -0,0 +1,232 @@
+/**
+ * In-memory store for inspector results reported by the apps.
+ *
+ * Inspectors submit their findings through the app-only
+ * `report-inspector-result` tool. Results are grouped into runs keyed by the
+ * MCP session and the host that rendered the app (`hostInfo` from
+ * `ui/initialize`), so a full host conformance run can be pulled later.
+ *
+ * Runs are published under a report ID derived from the session ID, never
+ * under the session ID itself: anyone holding a session ID could use the
+ * session as its host.
+ *
+ * The server is public, so the store is bounded: runs expire, each session
+ * and the store as a whole keep only their most recently updated runs, and
+ * oversized results are refused.
+ */
+
+import { createHmac, randomBytes } from "crypto"
+import express from "express"
+import {
+  RESULT_MAX_BYTES,
+  RESULT_MAX_INSPECTORS_PER_RUN,
+  RESULT_MAX_RUNS,
+  RESULT_MAX_RUNS_PER_SESSION,
+  RESULT_TTL_MS,
+} from "./constants.js"
+
+export interface ReportedHostInfo {
+  name: string
+  version: string
+}
+
+export interface InspectorResultRecord {
+  /** Inspector tool name (e.g. "inspect-host-info") */
+  inspector: string
+
+  /** Structured result submitted by the inspector */
+  result: Record<string, unknown>
+
+  /** ISO timestamp of the latest submission */
+  reportedAt: string
+
+  /** Number of times this inspector has reported in the run */
+  reportCount: number
+}
+
+export interface BenchRun {
+  /** Unique key for the run (report + host) */
+  key: string
+
+  /** Report ID of the session the results were reported on */
+  reportId: string
+
+  /** Host that rendered the apps */
+  hostInfo: ReportedHostInfo
+
+  /** MCP Apps protocol version negotiated in `ui/initialize` */
+  protocolVersion?: string
+
+  /** ISO timestamp of the first result in the run */
+  createdAt: string
+
+  /** ISO timestamp of the latest result in the run */
+  updatedAt: string
+
+  /** Latest result per inspector */
+  results: Record<string, InspectorResultRecord>
+}
+
+export interface InspectorResultSubmission {
+  sessionId: string
+  inspector: string
+  hostInfo?: ReportedHostInfo
+  protocolVersion?: string
+  result: Record<string, unknown>
+}
+
+const UNKNOWN_HOST: ReportedHostInfo = { name: "unknown", version: "unknown" }
+
+// In update order: the least recently updated run comes first
+const runs = new Map<string, BenchRun>()
+
+// Per process, so report IDs can't be computed from session IDs elsewhere
+const REPORT_ID_KEY = randomBytes(32)
+
+/**
+ * The public ID a session's results are published under
+ */
+export function getReportId(sessionId: string) {
+  return createHmac("sha256", REPORT_ID_KEY)
+    .update(sessionId)
+    .digest("base64url")
+    .slice(0, 22)
+}
+
+export function getRunKey(reportId: string, hostInfo: ReportedHostInfo) {
+  return `${reportId}::${hostInfo.name}@${hostInfo.version}`
+}
+
+// Drop expired runs, then the least recently updated beyond the limit
+function pruneRuns() {
+  const expiredBefore = new Date(Date.now() - RESULT_TTL_MS).toISOString()
+  for (const [key, run] of runs) {
+    if (run.updatedAt >= expiredBefore && runs.size <= RESULT_MAX_RUNS) break
+    runs.delete(key)
+  }
+}
+
+// Make room for a new run on a session by dropping its oldest runs
+function pruneSessionRuns(reportId: string) {
+  const sessionKeys = [...runs.values()]
+    .filter((run) => run.reportId === reportId)
+    .map((run) => run.key)
+  sessionKeys
+    .slice(0, Math.max(0, sessionKeys.length - RESULT_MAX_RUNS_PER_SESSION + 1))
+    .forEach((key) => runs.delete(key))
+}
+
+/**
+ * Stores an inspector result, replacing any earlier result from the same
+ * inspector in the same run. Throws if the result is too large or the run
+ * already holds results from too many inspectors.
+ */
+export function recordInspectorResult(
+  submission: InspectorResultSubmission
+): BenchRun {
+  const bytes = Buffer.byteLength(JSON.stringify(submission.result))
+  if (bytes > RESULT_MAX_BYTES) {
+    throw new Error(
+      `Result is ${bytes} bytes; results are limited to ${RESULT_MAX_BYTES} bytes`
+    )
+  }
+
+  const hostInfo = submission.hostInfo ?? UNKNOWN_HOST
+  const reportId = getReportId(submission.sessionId)
+  const key = getRunKey(reportId, hostInfo)
+  const now = new Date().toISOString()
+
+  pruneRuns()
+  let run = runs.get(key)
+  if (
+    run &&
+    !run.results[submission.inspector] &&
+    Object.keys(run.results).length >= RESULT_MAX_INSPECTORS_PER_RUN
+  ) {
+    throw new Error(
+      `A run holds results from at most ${RESULT_MAX_INSPECTORS_PER_RUN} inspectors`
+    )
+  }
+
+  if (!run) {
+    pruneSessionRuns(reportId)
+    run = {
+      key,
+      reportId,
+      hostInfo,
+      createdAt: now,
+      updatedAt: now,
+      results: {},
+    }
+    runs.set(key, run)
+  }
+
+  if (submission.protocolVersion) {
+    run.protocolVersion = submission.protocolVersion
+  }
+
+  const previous = run.results[submission.inspector]
+  run.results[submission.inspector] = {
+    inspector: submission.inspector,
+    result: submission.result,
+    reportedAt: now,
+    reportCount: (previous?.reportCount ?? 0) + 1,
+  }
+  run.updatedAt = now
+
+  // Move the run to the end, keeping the map in update order
+  runs.delete(key)
+  runs.set(key, run)
+  pruneRuns()
+
+  return run
+}
+
+/**
+ * Returns every run, most recently updated first
+ */
+export function listRuns(): BenchRun[] {
+  pruneRuns()
+  return [...runs.values()].sort((a, b) =>
+    b.updatedAt.localeCompare(a.updatedAt)
+  )
+}
+
+/**
+ * Returns the runs published under a report ID (one per host that reported)
+ */
+export function getRunsForReport(reportId: string): BenchRun[] {
+  return listRuns().filter((run) => run.reportId === reportId)
+}
+
+/**
+ * Returns the runs reported on a session
+ */
+export function getRunsForSession(sessionId: string): BenchRun[] {
+  return getRunsForReport(getReportId(sessionId))
+}
+
+/**
+ * Result routes, mounted at `/results`
+ */
+export function createResultsRouter() {
+  const router = express.Router()
+
+  // List every run (one per session + host) with its inspector results
+  router.get("/", (req, res) => {
+    res.json({ runs: listRuns() })
+  })
+
+  // Runs reported on a single MCP session, by its report ID
+  router.get("/:reportId", (req, res) => {
+    const reportRuns = getRunsForReport(req.params.reportId)
+    if (reportRuns.length === 0) {
+      return res.status(404).json({
+        error: { message: "No results reported under this report ID" },
+      })
+    }
+    res.json({ runs: reportRuns })
+  })
+
+  return router
+}
@@ -0,0 +1,139 @@
+/**
+ * Startup self-lint for the MCP Apps metadata the server publishes.
+ *
+ * Connects an in-memory client to a server instance and checks what it
+ * actually emits over the wire — tools/list, resources/list and every
+ * resources/read of a `ui://` resource — against the zod schemas for the
+ * MCP Apps types, plus cross-references between tools and resources.
+ */
+
+import { Client } from "@modelcontextprotocol/sdk/client/index.js"
+import { InMemoryTransport } from "@modelcontextprotocol/sdk/inMemory.js"
+import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js"
+import type { ClientCapabilities } from "@modelcontextprotocol/sdk/types.js"
+import type { z } from "zod"
+import {
+  McpUiToolMetaSchema,
+  UIResourceContentSchema,
+} from "../types/mcp-apps-schemas.js"
+import { isUIResourceUri } from "../types/mcp-apps.js"
+import { MCP_APPS_EXTENSION_ID, MCP_APPS_MIME_TYPE } from "./constants.js"
+
+export interface SelfLintIssue {
+  /** Tool name or resource URI the issue was found on */
+  target: string
+
+  /** Dotted path to the offending field */
+  path: string
+
+  message: string
+}
+
+function toIssues(
+  target: string,
+  basePath: string,
+  error: z.ZodError
+): SelfLintIssue[] {
+  return error.issues.map((issue) => ({
+    target,
+    path: [basePath, ...issue.path].join("."),
+    message: issue.message,
+  }))
+}
+
+/**
+ * Lists and reads everything the server publishes and returns every metadata
+ * problem found. An empty array means the server is safe to start.
+ */
+export async function lintServerMetadata(
+  server: McpServer
+): Promise<SelfLintIssue[]> {
+  const issues: SelfLintIssue[] = []
+  const [clientTransport, serverTransport] =
+    InMemoryTransport.createLinkedPair()
+  // Advertise MCP Apps, or the server would serve its text-only fallback
+  const client = new Client(
+    { name: "mcp-app-bench-self-lint", version: "1" },
+    {
+      capabilities: {
+        extensions: {
+          [MCP_APPS_EXTENSION_ID]: { mimeTypes: [MCP_APPS_MIME_TYPE] },
+        },
+      } as ClientCapabilities,
+    }
+  )
+
+  await server.connect(serverTransport)
+  await client.connect(clientTransport)
+
+  try {
+    const { resources } = await client.listResources()
+    const uiResourceUris = new Set<string>()
+
+    for (const resource of resources) {
+      if (!isUIResourceUri(resource.uri)) continue
+      uiResourceUris.add(resource.uri)
+
+      if (resource.mimeType !== MCP_APPS_MIME_TYPE) {
+        issues.push({
+          target: resource.uri,
+          path: "resources/list.mimeType",
+          message: `Expected "${MCP_APPS_MIME_TYPE}", got "${resource.mimeType}"`,
+        })
+      }
+
+      const { contents } = await client.readResource({ uri: resource.uri })
+      if (contents.length === 0) {
+        issues.push({
+          target: resource.uri,
+          path: "resources/read.contents",
+          message: "Resource returned no contents",
+        })
+      }
+      contents.forEach((content, index) => {
+        const parsed = UIResourceContentSchema.safeParse(content)
+        if (!parsed.success) {
+          issues.push(
+            ...toIssues(
+              resource.uri,
+              `resources/read.contents.${index}`,
+              parsed.error
+            )
+          )
+        } else if (content.uri !== resource.uri) {
+          issues.push({
+            target: resource.uri,
+            path: `resources/read.contents.${index}.uri`,
+            message: `Contents URI "${content.uri}" does not match the resource`,
+          })
+        }
+      })
+    }
+
+    const { tools } = await client.listTools()
+    for (const tool of tools) {
+      const uiMeta = tool._meta?.ui
+      if (uiMeta === undefined) continue
+
+      const parsed = McpUiToolMetaSchema.safeParse(uiMeta)
+      if (!parsed.success) {
+        issues.push(...toIssues(tool.name, "_meta.ui", parsed.error))
+        continue
+      }
+
+      const { resourceUri } = parsed.data
+      if (resourceUri && !uiResourceUris.has(resourceUri)) {
+        issues.push({
+          target: tool.name,
+          path: "_meta.ui.resourceUri",
+          message: `"${resourceUri}" does not resolve to a registered ui:// resource`,
+        })
+      }
+    }
+  } finally {
+    await client.close()
+    await server.close()
+  }
+
+  return issues
+}
@@ -0,0 +1,94 @@
+/**
+ * MCP logging from the server to the client.
+ *
+ * The server declares `capabilities.logging`, so a client may send
+ * `logging/setLevel` and expects `notifications/message` at or above that
+ * level only. Each server instance keeps the level its client set, the
+ * setLevel requests it received, and drops messages below the threshold.
+ */
+
+import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js"
+import {
+  LoggingLevelSchema,
+  SetLevelRequestSchema,
+  type LoggingLevel,
+  type ServerNotification,
+} from "@modelcontextprotocol/sdk/types.js"
+
+/** RFC 5424 severities, least severe first */
+export const LOG_LEVELS: readonly LoggingLevel[] = LoggingLevelSchema.options
+
+// Logger name on the notifications the server sends
+export const SERVER_LOGGER = "mcp-app-bench"
+
+export interface SetLevelRecord {
+  level: LoggingLevel
+  time: string
+}
+
+export interface ServerLogging {
+  /** Level the client set, or null if it never sent `logging/setLevel` */
+  getLevel(): LoggingLevel | null
+  /** Every `logging/setLevel` request received, in order */
+  getSetLevelRequests(): SetLevelRecord[]
+  /** Whether a message at `level` is below the client's threshold */
+  isSuppressed(level: LoggingLevel): boolean
+  /**
+   * Send a log message unless it is suppressed. `send` defaults to the
+   * server's own notification channel; pass a handler's `sendNotification`
+   * to send on the request's stream. Resolves to whether it was sent.
+   */
+  log(
+    level: LoggingLevel,
+    data: unknown,
+    send?: (notification: ServerNotification) => Promise<void>
+  ): Promise<boolean>
+}
+
+/**
+ * Severity rank of a level: 0 for debug up to 7 for emergency
+ */
+export function logLevelSeverity(level: LoggingLevel): number {
+  return LOG_LEVELS.indexOf(level)
+}
+
+/**
+ * Take over `logging/setLevel` for a server. All of its log notifications
+ * must go through the returned logger, since `server.sendLoggingMessage`
+ * no longer sees the client's level.
+ */
+export function createServerLogging(server: McpServer): ServerLogging {
+  const setLevelRequests: SetLevelRecord[] = []
+  let level: LoggingLevel | null = null
+
+  // Replaces the SDK's handler, which keeps the level where it can't be read
+  server.server.setRequestHandler(SetLevelRequestSchema, async (request) => {
+    level = request.params.level
+    setLevelRequests.push({ level, time: new Date().toISOString() })
+    return {}
+  })
+
+  const isSuppressed = (candidate: LoggingLevel) =>
+    level !== null && logLevelSeverity(candidate) < logLevelSeverity(level)
+
+  return {
+    getLevel: () => level,
+    getSetLevelRequests: () => [...setLevelRequests],
+    isSuppressed,
+
+    async log(
+      messageLevel,
+      data,
+      send = (notification) => server.server.notification(notification)
+    ) {
+      if (isSuppressed(messageLevel)) {
+        return false
+      }
+      await send({
+        method: "notifications/message",
+        params: { level: messageLevel, logger: SERVER_LOGGER, data },
+      })
+      return true
+    },
+  }
+}
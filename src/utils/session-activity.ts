@@ -0,0 +1,173 @@
+/**
+ * Per-session record of the MCP traffic on the Streamable HTTP endpoint.
+ *
+ * The server counts every message by method in each direction, keeps the
+ * client's `initialize` details and notes which inspector tools were called.
+ * The session admin pages and the tool list inspector are built from this
+ * record.
+ */
+
+import type { Transport } from "@modelcontextprotocol/sdk/shared/transport.js"
+import {
+  isInitializeRequest,
+  type JSONRPCMessage,
+} from "@modelcontextprotocol/sdk/types.js"
+import { INSPECTORS } from "../inspectors.js"
+import {
+  observeClientCapabilities,
+  type ObservedClientCapabilities,
+} from "./client-capabilities.js"
+
+export interface InspectorCallRecord {
+  count: number
+  firstCalledAt: string
+  lastCalledAt: string
+}
+
+export interface SessionActivity {
+  /** What the client sent in `initialize`, once it has */
+  client: ObservedClientCapabilities | null
+  /** Requests and notifications by method */
+  messages: {
+    client: Record<string, number>
+    server: Record<string, number>
+  }
+  /** Responses, which carry no method, by direction */
+  responses: {
+    client: number
+    server: number
+  }
+  /** Calls to inspector tools by tool name */
+  inspectorCalls: Record<string, InspectorCallRecord>
+  /** `tools/list` requests, with the times of the most recent, oldest first */
+  toolListRequests: { count: number; recent: string[] }
+}
+
+/** Session ID for transports that have none, such as stdio and in-memory */
+export const LOCAL_SESSION_ID = "local"
+
+// Oldest `tools/list` times are dropped beyond this; the count keeps going
+const MAX_RECENT_TOOL_LIST_REQUESTS = 100
+
+const INSPECTOR_TOOL_NAMES = new Set(
+  INSPECTORS.map((inspector) => inspector.name)
+)
+
+const activities = new Map<string, SessionActivity>()
+
+/**
+ * Start recording a new session's traffic. Messages on sessions that were
+ * never started, or have been deleted, are not recorded
+ */
+export function createSessionActivity(sessionId: string): SessionActivity {
+  const activity: SessionActivity = {
+    client: null,
+    messages: { client: {}, server: {} },
+    responses: { client: 0, server: 0 },
+    inspectorCalls: {},
+    toolListRequests: { count: 0, recent: [] },
+  }
+  activities.set(sessionId, activity)
+  return activity
+}
+
+function countMessage(
+  activity: SessionActivity,
+  direction: "client" | "server",
+  message: JSONRPCMessage
+) {
+  if ("method" in message) {
+    const counts = activity.messages[direction]
+    counts[message.method] = (counts[message.method] ?? 0) + 1
+  } else {
+    activity.responses[direction]++
+  }
+}
+
+/**
+ * Count a message the client sent on a session
+ */
+export function recordClientMessage(
+  sessionId: string,
+  message: JSONRPCMessage
+) {
+  const activity = activities.get(sessionId)
+  if (!activity) return
+  countMessage(activity, "client", message)
+
+  if (isInitializeRequest(message)) {
+    activity.client = observeClientCapabilities(message.params)
+  }
+
+  if ("method" in message && message.method === "tools/list") {
+    const requests = activity.toolListRequests
+    requests.count++
+    requests.recent.push(new Date().toISOString())
+    if (requests.recent.length > MAX_RECENT_TOOL_LIST_REQUESTS) {
+      requests.recent.shift()
+    }
+  }
+
+  if ("method" in message && message.method === "tools/call") {
+    const name = message.params?.name
+    if (typeof name === "string" && INSPECTOR_TOOL_NAMES.has(name)) {
+      const now = new Date().toISOString()
+      const call = activity.inspectorCalls[name]
+      if (call) {
+        call.count++
+        call.lastCalledAt = now
+      } else {
+        activity.inspectorCalls[name] = {
+          count: 1,
+          firstCalledAt: now,
+          lastCalledAt: now,
+        }
+      }
+    }
+  }
+}
+
+/**
+ * Count a message the server sent on a session
+ */
+export function recordServerMessage(
+  sessionId: string,
+  message: JSONRPCMessage
+) {
+  const activity = activities.get(sessionId)
+  if (activity) countMessage(activity, "server", message)
+}
+
+/**
+ * Record a transport without session IDs as the local session, starting
+ * afresh. Call before connecting the server, which keeps these handlers
+ */
+export function recordLocalSession(transport: Transport) {
+  createSessionActivity(LOCAL_SESSION_ID)
+
+  const onmessage = transport.onmessage
+  transport.onmessage = (message, extra) => {
+    recordClientMessage(LOCAL_SESSION_ID, message)
+    onmessage?.(message, extra)
+  }
+
+  const send = transport.send.bind(transport)
+  transport.send = async (message, options) => {
+    recordServerMessage(LOCAL_SESSION_ID, message)
+    return send(message, options)
+  }
+}
+
+/**
+ * Traffic recorded on a session, if it has sent or received anything
+ */
+export function getSessionActivity(sessionId: string) {
+  return activities.get(sessionId)
+}
+
+/**
+ * Forget a closed session's traffic
+ */
+export function deleteSessionActivity(sessionId: string) {
+  activities.delete(sessionId)
+}
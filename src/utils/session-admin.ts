@@ -0,0 +1,349 @@
+/**
+ * Session admin views.
+ *
+ * Combines the session manager's lifecycle data with the traffic recorded in
+ * the session activity store, and renders it as JSON or as standalone HTML
+ * pages listing every active session, with a detail page per session. The
+ * routes need the admin token.
+ */
+
+import express from "express"
+import type { Implementation } from "@modelcontextprotocol/sdk/types.js"
+import { ADMIN_TOKEN } from "./constants.js"
+import { requireAdminToken, withAdminToken } from "./admin-auth.js"
+import { getReportId } from "./result-store.js"
+import {
+  describeClosedSession,
+  type SessionInfo,
+  type SessionManager,
+} from "./session-manager.js"
+import {
+  getSessionActivity,
+  type InspectorCallRecord,
+  type SessionActivity,
+} from "./session-activity.js"
+
+export interface AdminSession extends SessionInfo {
+  clientInfo: Implementation | null
+  protocolVersion: string | null
+  /** Capabilities exactly as sent in `initialize` */
+  capabilities: Record<string, unknown> | null
+  supportsMcpApps: boolean
+  messageCount: number
+  messages: SessionActivity["messages"]
+  responses: SessionActivity["responses"]
+  inspectorCalls: Record<string, InspectorCallRecord>
+}
+
+export interface AdminSessionList {
+  generatedAt: string
+  sessions: AdminSession[]
+}
+
+function sum(counts: Record<string, number>) {
+  return Object.values(counts).reduce((total, count) => total + count, 0)
+}
+
+/**
+ * Merge a session's lifecycle data with its recorded traffic
+ */
+export function buildAdminSession(
+  info: SessionInfo,
+  activity: SessionActivity | undefined
+): AdminSession {
+  const messages = activity?.messages ?? { client: {}, server: {} }
+  const responses = activity?.responses ?? { client: 0, server: 0 }
+
+  return {
+    ...info,
+    clientInfo: activity?.client?.clientInfo ?? null,
+    protocolVersion: activity?.client?.protocolVersion ?? null,
+    capabilities: activity?.client?.capabilities ?? null,
+    supportsMcpApps: activity?.client?.supportsMcpApps ?? false,
+    messageCount:
+      sum(messages.client) +
+      sum(messages.server) +
+      responses.client +
+      responses.server,
+    messages,
+    responses,
+    inspectorCalls: activity?.inspectorCalls ?? {},
+  }
+}
+
+// =============================================================================
+// HTML Rendering
+// =============================================================================
+
+function escapeHtml(value: unknown): string {
+  return String(value ?? "")
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+}
+
+function htmlTable(headers: string[], rows: string[][]): string {
+  return (
+    "<table><thead><tr>" +
+    headers.map((header) => `<th>${escapeHtml(header)}</th>`).join("") +
+    "</tr></thead><tbody>" +
+    rows.map((row) => `<tr><td>${row.join("</td><td>")}</td></tr>`).join("") +
+    "</tbody></table>"
+  )
+}
+
+function describeClient(session: AdminSession): string {
+  return session.clientInfo
+    ? `${session.clientInfo.name} ${session.clientInfo.version}`
+    : "not initialized"
+}
+
+function sessionPath(sessionId: string) {
+  return `/admin/sessions/${encodeURIComponent(sessionId)}`
+}
+
+// A form, so closing works without scripts on the page
+function closeButton(sessionId: string, token: string | null): string {
+  const action = withAdminToken(`${sessionPath(sessionId)}/close`, token)
+  return (
+    `<form method="post" action="${escapeHtml(action)}">` +
+    '<button type="submit">Close</button></form>'
+  )
+}
+
+function page(title: string, body: string): string {
+  return `<!doctype html>
+<html>
+<head>
+  <meta charset="utf-8" />
+  <title>${escapeHtml(title)}</title>
+  <style>${ADMIN_STYLES}</style>
+</head>
+<body>
+  ${body}
+</body>
+</html>
+`
+}
+
+const ADMIN_STYLES = `
+  body { font: 14px/1.5 system-ui, sans-serif; margin: 32px; color: #1f2933; }
+  h1 { font-size: 22px; }
+  h2 { font-size: 18px; margin-top: 32px; border-bottom: 1px solid #e2e8f0; }
+  code, pre { font-family: ui-monospace, SFMono-Regular, Menlo, monospace; font-size: 12px; }
+  table { border-collapse: collapse; margin: 8px 0; }
+  th, td { border: 1px solid #e2e8f0; padding: 4px 8px; text-align: left; vertical-align: top; }
+  th { background: #f8fafc; }
+  form { margin: 0; }
+  button { font: inherit; cursor: pointer; }
+  .muted { color: #64748b; }
+`
+
+/**
+ * Links on the page carry `token`, the admin token the page was opened with
+ */
+export function renderSessionListHtml(
+  list: AdminSessionList,
+  token: string | null = null
+): string {
+  const rows = list.sessions.map((session) => [
+    `<a href="${escapeHtml(withAdminToken(sessionPath(session.sessionId), token))}"><code>${escapeHtml(session.sessionId)}</code></a>`,
+    escapeHtml(describeClient(session)),
+    session.supportsMcpApps ? "yes" : "no",
+    escapeHtml(session.createdAt),
+    escapeHtml(session.lastActivityAt),
+    escapeHtml(session.openRequests),
+    escapeHtml(session.messageCount),
+    escapeHtml(Object.keys(session.inspectorCalls).join(", ") || "—"),
+    closeButton(session.sessionId, token),
+  ])
+
+  const body =
+    `<h1>MCP Sessions</h1>` +
+    `<p class="muted">${escapeHtml(list.sessions.length)} active · generated ${escapeHtml(list.generatedAt)} · <a href="${escapeHtml(withAdminToken("/admin/sessions?format=json", token))}">JSON</a> · <a href="${escapeHtml(withAdminToken("/traffic", token))}">Live traffic</a></p>` +
+    (rows.length > 0
+      ? htmlTable(
+          [
+            "Session",
+            "Client",
+            "MCP Apps",
+            "Created",
+            "Last activity",
+            "Open requests",
+            "Messages",
+            "Inspectors called",
+            "",
+          ],
+          rows
+        )
+      : '<p class="muted">No active sessions.</p>')
+
+  return page("MCP Sessions", body)
+}
+
+function countRows(counts: Record<string, number>): string[][] {
+  return Object.entries(counts)
+    .sort(([a], [b]) => a.localeCompare(b))
+    .map(([method, count]) => [
+      `<code>${escapeHtml(method)}</code>`,
+      escapeHtml(count),
+    ])
+}
+
+export function renderSessionHtml(
+  session: AdminSession,
+  token: string | null = null
+): string {
+  const path = sessionPath(session.sessionId)
+  let body = `<p><a href="${escapeHtml(withAdminToken("/admin/sessions", token))}">← All sessions</a></p>`
+  body += `<h1>Session <code>${escapeHtml(session.sessionId)}</code></h1>`
+  body += "<ul>"
+  body += `<li><strong>Client:</strong> ${escapeHtml(describeClient(session))}</li>`
+  body += `<li><strong>Protocol version:</strong> ${escapeHtml(session.protocolVersion ?? "—")}</li>`
+  body += `<li><strong>MCP Apps:</strong> ${session.supportsMcpApps ? "advertised" : "not advertised"}</li>`
+  body += `<li><strong>Created:</strong> ${escapeHtml(session.createdAt)}</li>`
+  body += `<li><strong>Last activity:</strong> ${escapeHtml(session.lastActivityAt)}</li>`
+  body += `<li><strong>Open requests:</strong> ${escapeHtml(session.openRequests)}</li>`
+  body += `<li><a href="${escapeHtml(withAdminToken(`${path}?format=json`, token))}">JSON</a> · `
+  body += `<a href="${escapeHtml(withAdminToken(`/traffic?session=${encodeURIComponent(session.sessionId)}`, token))}">Live traffic</a> · `
+  body += `<a href="/reports/${getReportId(session.sessionId)}.html">Conformance report</a></li>`
+  body += "</ul>"
+  body += closeButton(session.sessionId, token)
+
+  body += "<h2>Inspector Tools Called</h2>"
+  const calls = Object.entries(session.inspectorCalls)
+  body +=
+    calls.length > 0
+      ? htmlTable(
+          ["Tool", "Calls", "First", "Last"],
+          calls.map(([name, call]) => [
+            `<code>${escapeHtml(name)}</code>`,
+            escapeHtml(call.count),
+            escapeHtml(call.firstCalledAt),
+            escapeHtml(call.lastCalledAt),
+          ])
+        )
+      : '<p class="muted">No inspector tools called yet.</p>'
+
+  body += "<h2>Messages</h2>"
+  body += `<p>${escapeHtml(session.messageCount)} in total, including ${escapeHtml(session.responses.client)} responses from the client and ${escapeHtml(session.responses.server)} from the server.</p>`
+  for (const [direction, title] of [
+    ["client", "Client → server"],
+    ["server", "Server → client"],
+  ] as const) {
+    const rows = countRows(session.messages[direction])
+    body += `<h3>${title}</h3>`
+    body +=
+      rows.length > 0
+        ? htmlTable(["Method", "Count"], rows)
+        : '<p class="muted">None.</p>'
+  }
+
+  body += "<h2>Capabilities</h2>"
+  body += session.capabilities
+    ? `<pre>${escapeHtml(JSON.stringify(session.capabilities, null, 2))}</pre>`
+    : '<p class="muted">The client has not initialized.</p>'
+
+  return page(`MCP Session ${session.sessionId}`, body)
+}
+
+// =============================================================================
+// Routes
+// =============================================================================
+
+type AdminSessionSource = Pick<
+  SessionManager<{ close(): Promise<void> }>,
+  "list" | "get" | "close" | "getClosed"
+>
+
+// ?format=json or ?format=html picks the view; otherwise browsers get HTML
+function wantsHtml(req: express.Request) {
+  return req.query.format
+    ? req.query.format === "html"
+    : req.accepts(["json", "html"]) === "html"
+}
+
+// Only a token from the URL is carried into links; a header can't be
+function getLinkToken(req: express.Request) {
+  return typeof req.query.token === "string" ? req.query.token : null
+}
+
+/**
+ * Session admin routes, mounted at `/admin/sessions`. Every route needs the
+ * admin token, and none exist without one
+ */
+export function createSessionAdminRouter(
+  sessions: AdminSessionSource,
+  adminToken: string | null = ADMIN_TOKEN
+) {
+  const router = express.Router()
+  router.use(requireAdminToken(adminToken))
+
+  const getAdminSession = (sessionId: string) => {
+    const info = sessions.list().find((s) => s.sessionId === sessionId)
+    return info && buildAdminSession(info, getSessionActivity(sessionId))
+  }
+
+  const sendSessionGone = (res: express.Response, sessionId: string) => {
+    res.status(404).json({
+      error: {
+        message: describeClosedSession(
+          sessionId,
+          sessions.getClosed(sessionId)
+        ),
+      },
+    })
+  }
+
+  router.get("/", (req, res) => {
+    const list = {
+      generatedAt: new Date().toISOString(),
+      sessions: sessions
+        .list()
+        .map((info) =>
+          buildAdminSession(info, getSessionActivity(info.sessionId))
+        ),
+    }
+
+    if (wantsHtml(req)) {
+      res.type("html").send(renderSessionListHtml(list, getLinkToken(req)))
+    } else {
+      res.json(list)
+    }
+  })
+
+  router.get("/:sessionId", (req, res) => {
+    const session = getAdminSession(req.params.sessionId)
+    if (!session) {
+      return sendSessionGone(res, req.params.sessionId)
+    }
+
+    if (wantsHtml(req)) {
+      res.type("html").send(renderSessionHtml(session, getLinkToken(req)))
+    } else {
+      res.json(session)
+    }
+  })
+
+  router.delete("/:sessionId", async (req, res) => {
+    const sessionId = req.params.sessionId
+    if (!sessions.get(sessionId)) {
+      return sendSessionGone(res, sessionId)
+    }
+    await sessions.close(sessionId, "admin")
+    res.json({ sessionId, closed: true })
+  })
+
+  // HTML forms can't send DELETE, so the dashboard posts here instead
+  router.post("/:sessionId/close", async (req, res) => {
+    const sessionId = req.params.sessionId
+    if (!sessions.get(sessionId)) {
+      return sendSessionGone(res, sessionId)
+    }
+    await sessions.close(sessionId, "admin")
+    res.redirect(303, withAdminToken("/admin/sessions", getLinkToken(req)))
+  })
+
+  return router
+}
@@ -0,0 +1,243 @@
+/**
+ * Session lifecycle for the Streamable HTTP endpoint.
+ *
+ * Tracks every live session's transport and closes sessions that have been
+ * idle too long or that are the least recently used once the session limit
+ * is reached. Closed sessions leave a short record behind, so a client that
+ * comes back with an evicted session ID can be told to reinitialize rather
+ * than getting a bare "not found".
+ */
+
+export type SessionCloseReason = "client" | "idle" | "evicted" | "admin"
+
+export interface SessionInfo {
+  sessionId: string
+  createdAt: string
+  lastActivityAt: string
+  /** Requests still being answered; open GET streams aren't counted */
+  openRequests: number
+}
+
+export interface ClosedSession {
+  reason: SessionCloseReason
+  closedAt: string
+}
+
+export interface SessionManagerOptions {
+  /** Close sessions with no request for this long; 0 disables */
+  idleTimeoutMs: number
+  /** Evict the least recently used session beyond this many; 0 disables */
+  maxSessions: number
+  /** How often to look for idle sessions */
+  sweepIntervalMs: number
+  onClosed?: (
+    sessionId: string,
+    reason: SessionCloseReason,
+    remaining: number
+  ) => void
+  now?: () => number
+}
+
+interface Closable {
+  close(): Promise<void>
+}
+
+interface SessionEntry<T> {
+  transport: T
+  createdAt: number
+  lastActivityAt: number
+  openRequests: number
+}
+
+// Enough to explain recent evictions without keeping every ID forever
+const MAX_CLOSED_SESSIONS = 1000
+
+export const SESSION_CLOSE_REASONS: Record<SessionCloseReason, string> = {
+  client: "closed by the client",
+  idle: "closed after being idle",
+  evicted: "evicted to make room for newer sessions",
+  admin: "closed from the session admin page",
+}
+
+/**
+ * Message for a client that used a session the server has closed
+ */
+export function describeClosedSession(
+  sessionId: string,
+  closed: ClosedSession | undefined
+) {
+  const reason = closed
+    ? `was ${SESSION_CLOSE_REASONS[closed.reason]} at ${closed.closedAt}`
+    : "was not found"
+  return `Session ${sessionId} ${reason}. Reinitialize: send a new initialize request without an Mcp-Session-Id header.`
+}
+
+export function createSessionManager<T extends Closable>(
+  options: SessionManagerOptions
+) {
+  const now = options.now ?? Date.now
+  // Map order doubles as recency order: the first entry is the LRU session
+  const sessions = new Map<string, SessionEntry<T>>()
+  const closed = new Map<string, ClosedSession>()
+  let sweepTimer: ReturnType<typeof setInterval> | null = null
+
+  function touch(sessionId: string, entry: SessionEntry<T>) {
+    entry.lastActivityAt = now()
+    sessions.delete(sessionId)
+    sessions.set(sessionId, entry)
+  }
+
+  async function close(sessionId: string, reason: SessionCloseReason) {
+    const entry = sessions.get(sessionId)
+    if (!entry) return
+
+    // Removed first, so the transport's onclose finds nothing left to close
+    sessions.delete(sessionId)
+    closed.set(sessionId, {
+      reason,
+      closedAt: new Date(now()).toISOString(),
+    })
+    if (closed.size > MAX_CLOSED_SESSIONS) {
+      closed.delete(closed.keys().next().value!)
+    }
+
+    options.onClosed?.(sessionId, reason, sessions.size)
+    // A client close is reported by the transport, which has already closed
+    if (reason !== "client") {
+      await entry.transport.close().catch(() => {})
+    }
+  }
+
+  function isIdle(entry: SessionEntry<T>, at: number) {
+    return (
+      options.idleTimeoutMs > 0 &&
+      entry.openRequests === 0 &&
+      at - entry.lastActivityAt >= options.idleTimeoutMs
+    )
+  }
+
+  // Sessions still answering a request, e.g. a long-running task, are never
+  // evicted
+  function findEvictable() {
+    for (const [sessionId, entry] of sessions) {
+      if (entry.openRequests === 0) return sessionId
+    }
+    return undefined
+  }
+
+  async function sweep() {
+    const at = now()
+    const idle = [...sessions].filter(([, entry]) => isIdle(entry, at))
+    for (const [sessionId] of idle) {
+      await close(sessionId, "idle")
+    }
+    return idle.length
+  }
+
+  return {
+    /**
+     * Start tracking a new session, evicting the least recently used idle
+     * sessions if the limit is reached. When every session has a request
+     * open, the new session is admitted over the limit
+     */
+    add(sessionId: string, transport: T) {
+      // close() forgets the session before it awaits the transport
+      while (options.maxSessions > 0 && sessions.size >= options.maxSessions) {
+        const evictable = findEvictable()
+        if (evictable === undefined) break
+        void close(evictable, "evicted")
+      }
+      const at = now()
+      sessions.set(sessionId, {
+        transport,
+        createdAt: at,
+        lastActivityAt: at,
+        openRequests: 0,
+      })
+    },
+
+    get(sessionId: string): T | undefined {
+      return sessions.get(sessionId)?.transport
+    },
+
+    /**
+     * Count a request as activity, and keep the session from going idle
+     * until `done` is called
+     */
+    beginRequest(sessionId: string) {
+      const entry = sessions.get(sessionId)
+      if (!entry) return () => {}
+
+      touch(sessionId, entry)
+      entry.openRequests++
+      let done = false
+      return () => {
+        if (done) return
+        done = true
+        entry.openRequests--
+        entry.lastActivityAt = now()
+      }
+    },
+
+    /**
+     * Count a standalone GET stream opening, and closing when `done` is
+     * called, as activity. Hosts keep the stream open for the whole session,
+     * so it doesn't keep the session from going idle or being evicted
+     */
+    beginStream(sessionId: string) {
+      const entry = sessions.get(sessionId)
+      if (!entry) return () => {}
+
+      touch(sessionId, entry)
+      return () => {
+        entry.lastActivityAt = now()
+      }
+    },
+
+    close,
+
+    /**
+     * Why a session the server no longer tracks was closed, if it was
+     */
+    getClosed(sessionId: string) {
+      return closed.get(sessionId)
+    },
+
+    /**
+     * Close every session that has been idle longer than the timeout
+     */
+    sweep,
+
+    get size() {
+      return sessions.size
+    },
+
+    list(): SessionInfo[] {
+      return [...sessions].map(([sessionId, entry]) => ({
+        sessionId,
+        createdAt: new Date(entry.createdAt).toISOString(),
+        lastActivityAt: new Date(entry.lastActivityAt).toISOString(),
+        openRequests: entry.openRequests,
+      }))
+    },
+
+    /**
+     * Sweep for idle sessions on an interval that doesn't keep the process
+     * alive
+     */
+    start() {
+      if (sweepTimer || options.idleTimeoutMs <= 0) return
+      sweepTimer = setInterval(() => void sweep(), options.sweepIntervalMs)
+      sweepTimer.unref()
+    },
+
+    stop() {
+      if (sweepTimer) clearInterval(sweepTimer)
+      sweepTimer = null
+    },
+  }
+}
+
+export type SessionManager<T extends Closable> = ReturnType<
+  typeof createSessionManager<T>
+>
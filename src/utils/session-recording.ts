@@ -0,0 +1,148 @@
+/**
+ * Session recordings for regression replay.
+ *
+ * With `RECORD_SESSIONS_DIR` set, every /mcp session's JSON-RPC traffic is
+ * appended to `<dir>/<sessionId>.ndjson`: a header line, then one line per
+ * message in the order the server saw it. `pnpm replay` sends the client's
+ * side of a recording to a fresh server and reports responses that differ.
+ */
+
+import { appendFile, mkdir, readFile } from "fs/promises"
+import { dirname, join } from "path"
+import type { JSONRPCMessage } from "@modelcontextprotocol/sdk/types.js"
+import {
+  APP_DOMAIN,
+  BASE_URL,
+  PROBE_BASE_URL,
+  RECORD_SESSIONS_DIR,
+} from "./constants.js"
+
+export type RecordedDirection = "client" | "server"
+
+/** Host names the server puts in its responses, by role */
+export type ServerHosts = Record<string, string>
+
+export interface RecordingHeader {
+  type: "session"
+  sessionId: string
+  startedAt: string
+  /** Lets a replay on another port or domain match URLs in responses */
+  hosts: ServerHosts
+}
+
+export interface RecordedMessage {
+  type: "message"
+  direction: RecordedDirection
+  time: string
+  message: JSONRPCMessage
+}
+
+export interface SessionRecording {
+  sessionId: string
+  startedAt: string
+  hosts: ServerHosts
+  messages: RecordedMessage[]
+}
+
+export interface SessionRecorder {
+  path: string
+  record(direction: RecordedDirection, message: JSONRPCMessage): void
+  /** Resolves once every recorded message is on disk */
+  flush(): Promise<void>
+}
+
+/**
+ * Hosts this server process puts in URLs and `_meta.ui.domain`
+ */
+export function getServerHosts(): ServerHosts {
+  return {
+    server: new URL(BASE_URL).host,
+    probe: new URL(PROBE_BASE_URL).host,
+    appDomain: APP_DOMAIN,
+  }
+}
+
+/**
+ * Appends a session's messages to an NDJSON file, starting with a header
+ */
+export function createSessionRecorder(
+  path: string,
+  sessionId: string
+): SessionRecorder {
+  const header: RecordingHeader = {
+    type: "session",
+    sessionId,
+    startedAt: new Date().toISOString(),
+    hosts: getServerHosts(),
+  }
+  // Appends are chained so lines land in the file in order
+  let writes: Promise<unknown> = mkdir(dirname(path), { recursive: true }).then(
+    () => appendFile(path, JSON.stringify(header) + "\n", "utf-8")
+  )
+
+  return {
+    path,
+
+    record(direction, message) {
+      const line: RecordedMessage = {
+        type: "message",
+        direction,
+        time: new Date().toISOString(),
+        message,
+      }
+      // A failed write loses one line; recording must never break a session
+      writes = writes
+        .catch(() => {})
+        .then(() => appendFile(path, JSON.stringify(line) + "\n", "utf-8"))
+    },
+
+    async flush() {
+      await writes.catch(() => {})
+    },
+  }
+}
+
+/**
+ * A recorder for a new /mcp session, or null when recording is off
+ */
+export function recordSession(sessionId: string): SessionRecorder | null {
+  if (!RECORD_SESSIONS_DIR) {
+    return null
+  }
+  return createSessionRecorder(
+    join(RECORD_SESSIONS_DIR, `${sessionId}.ndjson`),
+    sessionId
+  )
+}
+
+/**
+ * Parse a recording file written by a session recorder
+ */
+export function parseSessionRecording(text: string): SessionRecording {
+  const lines = text
+    .split("\n")
+    .filter((line) => line.trim())
+    .map((line) => JSON.parse(line) as RecordingHeader | RecordedMessage)
+
+  const header = lines.find(
+    (line): line is RecordingHeader => line.type === "session"
+  )
+  if (!header) {
+    throw new Error("Not a session recording: the header line is missing")
+  }
+
+  return {
+    sessionId: header.sessionId,
+    startedAt: header.startedAt,
+    hosts: header.hosts ?? {},
+    messages: lines.filter(
+      (line): line is RecordedMessage => line.type === "message"
+    ),
+  }
+}
+
+export async function readSessionRecording(
+  path: string
+): Promise<SessionRecording> {
+  return parseSessionRecording(await readFile(path, "utf-8"))
+}
@@ -0,0 +1,151 @@
+/**
+ * Tools that fail on purpose, one per error path a tool call can take.
+ *
+ * Each one renders in the tool errors inspector, so a host that runs it for
+ * the model shows what it forwards in `ui/notifications/tool-result`. The
+ * inspector also calls each one itself and shows what the host hands back.
+ * The SDK turns a thrown error and failed input or output validation into a
+ * result with `isError: true`, so every case reaches the host as a result,
+ * never as a JSON-RPC error.
+ */
+
+import type {
+  McpServer,
+  RegisteredTool,
+} from "@modelcontextprotocol/sdk/server/mcp.js"
+import { z } from "zod"
+import {
+  TOOL_ERROR_INVALID_INPUT_TOOL_NAME,
+  TOOL_ERROR_INVALID_OUTPUT_TOOL_NAME,
+  TOOL_ERROR_RESULT_TOOL_NAME,
+  TOOL_ERROR_THROWN_TOOL_NAME,
+} from "./constants.js"
+
+export type ToolErrorCaseId =
+  | "is-error"
+  | "thrown"
+  | "invalid-output"
+  | "invalid-input"
+
+export interface ToolErrorCase {
+  id: ToolErrorCaseId
+  tool: string
+  /** Arguments the inspector calls the tool with */
+  arguments: Record<string, unknown>
+  /** Text the error content contains when it reaches the app intact */
+  expectedText: string
+}
+
+// In the text of the errors the bench raises itself
+export const TOOL_ERROR_MARKER = "mcp-app-bench tool error"
+
+export const TOOL_ERROR_CASES: ToolErrorCase[] = [
+  {
+    id: "is-error",
+    tool: TOOL_ERROR_RESULT_TOOL_NAME,
+    arguments: {},
+    expectedText: TOOL_ERROR_MARKER,
+  },
+  {
+    id: "thrown",
+    tool: TOOL_ERROR_THROWN_TOOL_NAME,
+    arguments: {},
+    expectedText: TOOL_ERROR_MARKER,
+  },
+  {
+    id: "invalid-output",
+    tool: TOOL_ERROR_INVALID_OUTPUT_TOOL_NAME,
+    arguments: {},
+    expectedText: "Output validation error",
+  },
+  {
+    id: "invalid-input",
+    tool: TOOL_ERROR_INVALID_INPUT_TOOL_NAME,
+    arguments: { count: "three" },
+    expectedText: "Input validation error",
+  },
+]
+
+/**
+ * Register the failing tools, each rendering the resource at `resourceUri`
+ */
+export function registerToolErrorTools(
+  server: McpServer,
+  resourceUri: `ui://${string}`
+): RegisteredTool[] {
+  const _meta = { ui: { resourceUri } }
+
+  return [
+    server.registerTool(
+      TOOL_ERROR_RESULT_TOOL_NAME,
+      {
+        title: "Tool Error: isError Result",
+        description:
+          "Always fails by returning a result with isError: true and an explanation in its text content. Renders in the tool errors inspector.",
+        inputSchema: {},
+        _meta,
+      },
+      async () => ({
+        content: [
+          {
+            type: "text",
+            text: `${TOOL_ERROR_MARKER}: this tool returns isError: true on purpose.`,
+          },
+        ],
+        isError: true,
+      })
+    ),
+
+    server.registerTool(
+      TOOL_ERROR_THROWN_TOOL_NAME,
+      {
+        title: "Tool Error: Thrown",
+        description:
+          "Always fails by throwing inside its handler. Renders in the tool errors inspector.",
+        inputSchema: {},
+        _meta,
+      },
+      async () => {
+        throw new Error(
+          `${TOOL_ERROR_MARKER}: this tool throws from its handler on purpose.`
+        )
+      }
+    ),
+
+    server.registerTool(
+      TOOL_ERROR_INVALID_OUTPUT_TOOL_NAME,
+      {
+        title: "Tool Error: Invalid Output",
+        description:
+          "Always fails by returning structuredContent that violates its outputSchema. Renders in the tool errors inspector.",
+        inputSchema: {},
+        outputSchema: {
+          count: z.number().describe("Declared as a number, sent as a string"),
+        },
+        _meta,
+      },
+      async () => ({
+        content: [{ type: "text", text: "Returned an invalid count." }],
+        structuredContent: { count: "three" } as unknown as { count: number },
+      })
+    ),
+
+    server.registerTool(
+      TOOL_ERROR_INVALID_INPUT_TOOL_NAME,
+      {
+        title: "Tool Error: Invalid Input",
+        description:
+          "Requires an integer count. Call it with anything else to see the input validation error. Renders in the tool errors inspector.",
+        inputSchema: {
+          count: z.number().int().describe("Any integer"),
+        },
+        _meta,
+      },
+      async (args) => ({
+        content: [
+          { type: "text", text: `Valid input: count is ${args.count}.` },
+        ],
+      })
+    ),
+  ]
+}
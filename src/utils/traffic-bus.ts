@@ -0,0 +1,138 @@
+/**
+ * In-process bus for the JSON-RPC traffic the server sends and receives.
+ *
+ * The logger publishes every message it logs, without its redaction, and the
+ * traffic viewer streams them to the browser over SSE. That way a server
+ * running somewhere without access to stdout can still be debugged. Recent
+ * messages are kept, so a viewer opened late, or reconnecting, starts with
+ * history. Only very long strings are cut, so multi-megabyte payloads don't
+ * pile up in it.
+ */
+
+import {
+  TRAFFIC_MAX_HISTORY_BYTES,
+  TRAFFIC_MAX_STRING_LENGTH,
+} from "./constants.js"
+
+export type TrafficDirection = "client" | "server"
+
+export type TrafficKind = "request" | "notification" | "response" | "error"
+
+export interface TrafficEvent {
+  /** Increasing number, used as the SSE event ID */
+  seq: number
+  time: string
+  sessionId: string | null
+  route: string | null
+  /** Who sent the message */
+  direction: TrafficDirection
+  kind: TrafficKind
+  /** Method for requests and notifications; null for responses */
+  method: string | null
+  /** JSON-RPC ID for requests and responses, to pair them up */
+  id: string | number | null
+  message: unknown
+}
+
+export type TrafficListener = (event: TrafficEvent) => void
+
+// Payloads can be whole app HTML documents, so history is kept short
+const MAX_RECENT_EVENTS = 200
+
+let seq = 0
+// Each event with its size in bytes of JSON, oldest first
+const recent: { event: TrafficEvent; bytes: number }[] = []
+let recentBytes = 0
+const listeners = new Set<TrafficListener>()
+
+/**
+ * Copies a message with strings beyond TRAFFIC_MAX_STRING_LENGTH cut short
+ */
+export function truncateTrafficMessage(value: unknown): unknown {
+  if (typeof value === "string") {
+    return value.length > TRAFFIC_MAX_STRING_LENGTH
+      ? `${value.slice(0, TRAFFIC_MAX_STRING_LENGTH)}… [truncated: ${value.length} characters]`
+      : value
+  }
+  if (Array.isArray(value)) {
+    return value.map(truncateTrafficMessage)
+  }
+  if (!value || typeof value !== "object") {
+    return value
+  }
+  return Object.fromEntries(
+    Object.entries(value).map(([key, item]) => [
+      key,
+      truncateTrafficMessage(item),
+    ])
+  )
+}
+
+function classify(message: Record<string, unknown>): TrafficKind {
+  if (typeof message.method === "string") {
+    return "id" in message ? "request" : "notification"
+  }
+  return "error" in message ? "error" : "response"
+}
+
+/**
+ * Publish a message to every subscriber and keep it in the recent history
+ */
+export function publishTraffic(
+  direction: TrafficDirection,
+  sessionId: string | undefined,
+  message: unknown,
+  route?: string
+) {
+  const body = (message ?? {}) as Record<string, unknown>
+  const id = body.id
+  const event: TrafficEvent = {
+    seq: ++seq,
+    time: new Date().toISOString(),
+    sessionId: sessionId ?? null,
+    route: route ?? null,
+    direction,
+    kind: classify(body),
+    method: typeof body.method === "string" ? body.method : null,
+    id: typeof id === "string" || typeof id === "number" ? id : null,
+    message: truncateTrafficMessage(message),
+  }
+
+  const bytes = Buffer.byteLength(JSON.stringify(event))
+  recent.push({ event, bytes })
+  recentBytes += bytes
+  while (
+    recent.length > MAX_RECENT_EVENTS ||
+    recentBytes > TRAFFIC_MAX_HISTORY_BYTES
+  ) {
+    recentBytes -= recent.shift()!.bytes
+  }
+
+  for (const listener of listeners) {
+    try {
+      listener(event)
+    } catch {
+      // A broken viewer mustn't affect the MCP traffic it is watching
+    }
+  }
+}
+
+/**
+ * Call `listener` with every message published from now on. Returns a
+ * function that unsubscribes
+ */
+export function subscribeTraffic(listener: TrafficListener) {
+  listeners.add(listener)
+  return () => {
+    listeners.delete(listener)
+  }
+}
+
+/**
+ * Recent messages, oldest first, optionally only those after `afterSeq`
+ */
+export function getRecentTraffic(afterSeq = 0): TrafficEvent[] {
+  return recent
+    .map(({ event }) => event)
+    .filter((event) => event.seq > afterSeq)
+}
@@ -0,0 +1,72 @@
+/**
+ * Live traffic viewer routes.
+ *
+ * Serves the viewer page and an SSE stream of every JSON-RPC message on the
+ * traffic bus. The stream starts with recent history, and a reconnect with
+ * `Last-Event-ID` continues after the last message the page received. The
+ * traffic includes live session IDs, so the routes need the admin token.
+ */
+
+import express from "express"
+import { dirname, join } from "path"
+import { fileURLToPath } from "url"
+import {
+  ADMIN_TOKEN,
+  SSE_RETRY_INTERVAL_MS,
+  TRAFFIC_HEARTBEAT_INTERVAL_MS,
+} from "./constants.js"
+import { requireAdminToken } from "./admin-auth.js"
+import {
+  getRecentTraffic,
+  subscribeTraffic,
+  type TrafficEvent,
+} from "./traffic-bus.js"
+
+const __filename = fileURLToPath(import.meta.url)
+const __dirname = dirname(__filename)
+
+const viewerPath = join(__dirname, "..", "static", "traffic.html")
+
+/**
+ * Viewer routes, mounted at `/traffic`. None exist without an admin token
+ */
+export function createTrafficViewerRouter(
+  adminToken: string | null = ADMIN_TOKEN
+) {
+  const router = express.Router()
+  router.use(requireAdminToken(adminToken))
+
+  router.get("/", (req, res) => {
+    res.sendFile(viewerPath)
+  })
+
+  router.get("/events", (req, res) => {
+    const lastEventId = Number(req.headers["last-event-id"]) || 0
+
+    res.writeHead(200, {
+      "Content-Type": "text/event-stream",
+      "Cache-Control": "no-cache, no-transform",
+      Connection: "keep-alive",
+      // Stops reverse proxies from buffering the stream
+      "X-Accel-Buffering": "no",
+    })
+    res.write(`retry: ${SSE_RETRY_INTERVAL_MS}\n\n`)
+
+    const send = (event: TrafficEvent) => {
+      res.write(`id: ${event.seq}\ndata: ${JSON.stringify(event)}\n\n`)
+    }
+
+    getRecentTraffic(lastEventId).forEach(send)
+    const unsubscribe = subscribeTraffic(send)
+    const heartbeat = setInterval(() => {
+      res.write(": heartbeat\n\n")
+    }, TRAFFIC_HEARTBEAT_INTERVAL_MS)
+
+    req.on("close", () => {
+      clearInterval(heartbeat)
+      unsubscribe()
+    })
+  })
+
+  return router
+}
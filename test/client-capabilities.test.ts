@@ -0,0 +1,103 @@
+import { describe, expect, it } from "vitest"
+import { observeClientCapabilities } from "../src/utils/client-capabilities.js"
+import {
+  MCP_APPS_EXTENSION_ID,
+  MCP_APPS_MIME_TYPE,
+  SERVER_OBSERVED_CAPABILITIES_TOOL_NAME,
+} from "../src/utils/constants.js"
+import { connectBench } from "./helpers.js"
+
+const mcpApps = { mimeTypes: [MCP_APPS_MIME_TYPE] }
+
+describe("observeClientCapabilities", () => {
+  it("finds MCP Apps under extensions", () => {
+    const observed = observeClientCapabilities({
+      protocolVersion: "2025-06-18",
+      capabilities: {
+        extensions: {
+          [MCP_APPS_EXTENSION_ID]: {
+            ...mcpApps,
+            features: ["streaming"],
+            sandboxPolicies: ["allow-scripts"],
+          },
+        },
+      },
+      clientInfo: { name: "host", version: "1" },
+    })
+
+    expect(observed).toMatchObject({
+      clientInfo: { name: "host", version: "1" },
+      protocolVersion: "2025-06-18",
+      supportsMcpApps: true,
+      location: "extensions",
+      mimeTypes: [MCP_APPS_MIME_TYPE],
+      supportsMcpAppMimeType: true,
+      features: ["streaming"],
+      sandboxPolicies: ["allow-scripts"],
+    })
+  })
+
+  it("finds MCP Apps under experimental", () => {
+    const observed = observeClientCapabilities({
+      capabilities: { experimental: { [MCP_APPS_EXTENSION_ID]: mcpApps } },
+    })
+
+    expect(observed.location).toBe("experimental")
+    expect(observed.advertised).toEqual({
+      extensions: null,
+      experimental: mcpApps,
+    })
+  })
+
+  it("does not count an entry without the MCP App MIME type", () => {
+    const observed = observeClientCapabilities({
+      capabilities: {
+        extensions: { [MCP_APPS_EXTENSION_ID]: { mimeTypes: ["text/html"] } },
+      },
+    })
+
+    expect(observed.supportsMcpApps).toBe(false)
+    expect(observed.location).toBeNull()
+    expect(observed.mimeTypes).toEqual(["text/html"])
+  })
+})
+
+describe(SERVER_OBSERVED_CAPABILITIES_TOOL_NAME, () => {
+  async function callTool(capabilities: Record<string, unknown>) {
+    const bench = await connectBench(capabilities)
+    try {
+      const result = await bench.client.callTool({
+        name: SERVER_OBSERVED_CAPABILITIES_TOOL_NAME,
+        arguments: {},
+      })
+      return result.structuredContent as Record<string, unknown>
+    } finally {
+      await bench.close()
+    }
+  }
+
+  // The SDK drops `extensions` when it parses initialize
+  it("sees the extensions key the SDK strips", async () => {
+    const observed = await callTool({
+      extensions: { [MCP_APPS_EXTENSION_ID]: mcpApps },
+    })
+
+    expect(observed).toMatchObject({
+      observed: true,
+      clientInfo: { name: "mcp-app-bench-tests" },
+      supportsMcpApps: true,
+      location: "extensions",
+    })
+  })
+
+  it("reports clients that do not advertise MCP Apps", async () => {
+    const observed = await callTool({})
+
+    expect(observed).toMatchObject({
+      observed: true,
+      supportsMcpApps: false,
+      location: null,
+      capabilities: {},
+    })
+  })
+})
@@ -0,0 +1,197 @@
+import express from "express"
+import type { AddressInfo } from "net"
+import { afterAll, beforeAll, describe, expect, it } from "vitest"
+import {
+  buildConformanceReport,
+  createReportsRouter,
+  renderReportHtml,
+  renderReportMarkdown,
+} from "../src/utils/conformance-report.js"
+import {
+  getReportId,
+  recordInspectorResult,
+} from "../src/utils/result-store.js"
+
+const HOST = { name: "<b>test-host</b>", version: "1.0.0" }
+
+function reportResults(sessionId: string) {
+  recordInspectorResult({
+    sessionId,
+    inspector: "inspect-host-info",
+    hostInfo: HOST,
+    result: {
+      grade: "B",
+      summary: { requiredPercentage: 100, optionalPercentage: 50 },
+      tests: [
+        { path: "theme", required: true, status: "provided", message: null },
+        null,
+        { path: 42, status: "provided" },
+        { path: "locale", required: false, status: "missing" },
+      ],
+      unexpected: [null, { path: "extra", type: "string" }],
+      protocolViolations: "not an array",
+      capabilityChecks: [
+        { check: "features", wire: null, iframe: null, status: "bogus" },
+      ],
+    },
+  })
+  recordInspectorResult({
+    sessionId,
+    inspector: "inspect-display-modes",
+    hostInfo: HOST,
+    result: {
+      declaredModes: ["inline", null, 3, "fullscreen"],
+      hostAvailableModes: null,
+      currentMode: 7,
+      requests: [
+        null,
+        {
+          requested: "fullscreen",
+          actual: "inline",
+          error: null,
+          time: "2026-01-01T00:00:00.000Z",
+        },
+      ],
+    },
+  })
+  recordInspectorResult({
+    sessionId,
+    inspector: "inspect-visibility",
+    hostInfo: HOST,
+    result: { appOnlyCall: { ok: "yes" } },
+  })
+  recordInspectorResult({
+    sessionId,
+    inspector: "inspect-csp",
+    hostInfo: HOST,
+    result: { verdicts: [null, { directive: "connect-src" }] },
+  })
+}
+
+describe("conformance report", () => {
+  it("skips malformed entries submitted by the apps", () => {
+    reportResults("malformed")
+    const [run] = buildConformanceReport(getReportId("malformed"))!.runs
+
+    expect(run.hostContext?.checks.map((check) => check.path)).toEqual([
+      "theme",
+      "locale",
+    ])
+    expect(run.hostContext?.checks[1].message).toBeNull()
+    expect(run.hostContext?.unexpected).toEqual([
+      { path: "extra", type: "string" },
+    ])
+    expect(run.hostContext?.protocolViolations).toEqual([])
+    expect(run.hostContext?.capabilityChecks).toEqual([])
+    expect(run.displayModes[0]).toMatchObject({
+      declaredModes: ["inline", "fullscreen"],
+      hostAvailableModes: null,
+      currentMode: null,
+      requests: [{ requested: "fullscreen", actual: "inline" }],
+    })
+    expect(run.visibility?.appOnlyCall).toBeNull()
+    expect(run.otherResults.map((record) => record.inspector)).toEqual([
+      "inspect-csp",
+    ])
+  })
+
+  it("returns null for a session without results", () => {
+    expect(buildConformanceReport(getReportId("nobody"))).toBeNull()
+  })
+
+  it("renders Markdown", () => {
+    reportResults("markdown")
+    const markdown = renderReportMarkdown(
+      buildConformanceReport(getReportId("markdown"))!
+    )
+
+    expect(markdown).toContain("# MCP Apps Conformance Report")
+    expect(markdown).toContain("## <b>test-host</b> 1.0.0")
+    expect(markdown).toContain("**Grade: B**")
+    expect(markdown).toContain("| `theme` | yes | provided | — |")
+    expect(markdown).toContain(
+      "| 2026-01-01T00:00:00.000Z | fullscreen | inline | — |"
+    )
+    expect(markdown).toContain("- **App-only tool call:** Not attempted")
+    expect(markdown).toContain("#### inspect-csp")
+  })
+
+  it("renders escaped, standalone HTML", () => {
+    reportResults("html")
+    const html = renderReportHtml(buildConformanceReport(getReportId("html"))!)
+
+    expect(html).toMatch(/^<!doctype html>/)
+    expect(html).toContain("<h2>&lt;b&gt;test-host&lt;/b&gt; 1.0.0</h2>")
+    expect(html).not.toContain("<b>test-host</b>")
+    expect(html).toContain('<span class="grade grade-pass">B</span>')
+    expect(html).toContain("<td><code>locale</code></td>")
+  })
+})
+
+describe("/reports routes", () => {
+  const reportId = getReportId("routes")
+  let baseUrl: string
+  let close: () => void
+
+  beforeAll(async () => {
+    const app = express()
+    app.use("/reports", createReportsRouter())
+    const server = app.listen(0)
+    await new Promise((resolve) => server.once("listening", resolve))
+    baseUrl = `http://localhost:${(server.address() as AddressInfo).port}`
+    close = () => server.close()
+
+    reportResults("routes")
+  })
+
+  afterAll(() => close())
+
+  it("serves the report as JSON", async () => {
+    const response = await fetch(`${baseUrl}/reports/${reportId}.json`)
+
+    expect(response.status).toBe(200)
+    expect(response.headers.get("content-type")).toMatch(/^application\/json/)
+    const report = await response.json()
+    expect(report).toMatchObject({ reportId, runs: [{ host: HOST }] })
+    // The session ID would let anyone use the session as its host
+    expect(JSON.stringify(report)).not.toContain("routes")
+  })
+
+  it("serves the report as Markdown", async () => {
+    const response = await fetch(`${baseUrl}/reports/${reportId}.md`)
+
+    expect(response.status).toBe(200)
+    expect(response.headers.get("content-type")).toMatch(/^text\/markdown/)
+    expect(await response.text()).toContain("# MCP Apps Conformance Report")
+  })
+
+  it("serves the report as HTML", async () => {
+    const response = await fetch(`${baseUrl}/reports/${reportId}.html`)
+
+    expect(response.status).toBe(200)
+    expect(response.headers.get("content-type")).toMatch(/^text\/html/)
+    expect(await response.text()).toContain(
+      "<h1>MCP Apps Conformance Report</h1>"
+    )
+  })
+
+  it("404s for a report ID without results, and for session IDs", async () => {
+    for (const id of ["nobody", "routes"]) {
+      const response = await fetch(`${baseUrl}/reports/${id}.json`)
+
+      expect(response.status).toBe(404)
+      expect(await response.json()).toMatchObject({
+        error: { message: "No results reported under this report ID" },
+      })
+    }
+  })
+
+  it("400s for an unknown format", async () => {
+    const response = await fetch(`${baseUrl}/reports/${reportId}.pdf`)
+
+    expect(response.status).toBe(400)
+    expect(await response.json()).toMatchObject({
+      error: { message: expect.stringContaining('"pdf"') },
+    })
+  })
+})
@@ -0,0 +1,104 @@
+import { createHash } from "crypto"
+import http from "http"
+import type { AddressInfo } from "net"
+import { afterAll, beforeAll, describe, expect, it } from "vitest"
+import { CSP_PROBE_PATH } from "../src/utils/constants.js"
+import {
+  getCspProbeHits,
+  startCspProbeServer,
+} from "../src/utils/csp-probes.js"
+
+describe("CSP probe endpoints", () => {
+  let server: http.Server
+  let origin: string
+
+  beforeAll(async () => {
+    await new Promise<void>((resolve) => {
+      server = startCspProbeServer(0, resolve)
+    })
+    origin = `http://localhost:${(server.address() as AddressInfo).port}`
+  })
+
+  afterAll(async () => {
+    await new Promise((resolve) => server.close(resolve))
+  })
+
+  it("serves every HTTP probe with CORS and records a hit per run", async () => {
+    const probes = {
+      fetch: "application/json",
+      events: "text/event-stream",
+      "image.svg": "image/svg+xml",
+      "font.woff2": "font/woff2",
+      frame: "text/html",
+    }
+
+    for (const [path, contentType] of Object.entries(probes)) {
+      const response = await fetch(
+        `${origin}${CSP_PROBE_PATH}/${path}?run=http-run`
+      )
+      expect(response.status, path).toBe(200)
+      expect(response.headers.get("content-type"), path).toContain(contentType)
+      expect(response.headers.get("access-control-allow-origin")).toBe("*")
+      await response.arrayBuffer()
+    }
+
+    expect(getCspProbeHits("http-run").map((hit) => hit.probe)).toEqual([
+      "fetch",
+      "event-source",
+      "image",
+      "font",
+      "frame",
+    ])
+    expect(getCspProbeHits("unknown-run")).toEqual([])
+  })
+
+  it("completes the WebSocket handshake on the socket probe", async () => {
+    const key = Buffer.from("csp-probe-test!!").toString("base64")
+
+    const { statusCode, accept } = await new Promise<{
+      statusCode?: number
+      accept?: string
+    }>((resolve, reject) => {
+      const request = http.request(
+        `${origin}${CSP_PROBE_PATH}/socket?run=socket-run`,
+        {
+          headers: {
+            Connection: "Upgrade",
+            Upgrade: "websocket",
+            "Sec-WebSocket-Key": key,
+            "Sec-WebSocket-Version": "13",
+          },
+        }
+      )
+      request.on("upgrade", (response, socket) => {
+        socket.destroy()
+        resolve({
+          statusCode: response.statusCode,
+          accept: response.headers["sec-websocket-accept"],
+        })
+      })
+      request.on("error", reject)
+      request.end()
+    })
+
+    expect(statusCode).toBe(101)
+    expect(accept).toBe(
+      createHash("sha1")
+        .update(key + "258EAFA5-E914-47DA-95CA-C5AB0DC85B11")
+        .digest("base64")
+    )
+    expect(getCspProbeHits("socket-run")).toMatchObject([
+      { probe: "websocket" },
+    ])
+  })
+  it("serves a run's hits, for a main server using a remote probe origin", async () => {
+    await fetch(`${origin}${CSP_PROBE_PATH}/fetch?run=remote-run`)
+
+    const response = await fetch(
+      `${origin}${CSP_PROBE_PATH}/hits?run=remote-run`
+    )
+    expect(await response.json()).toMatchObject({
+      hits: [{ probe: "fetch", host: new URL(origin).host }],
+    })
+  })
+})
@@ -0,0 +1,142 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest"
+import {
+  ToolListChangedNotificationSchema,
+  type CallToolResult,
+} from "@modelcontextprotocol/sdk/types.js"
+import { TOOL_LIST_CONTROL_TOOL_NAME } from "../src/utils/constants.js"
+import { connectBench } from "./helpers.js"
+
+describe("tool list control", () => {
+  let bench: Awaited<ReturnType<typeof connectBench>>
+  let listChanged: number
+
+  const control = async (action: string, name?: string) =>
+    (await bench.client.callTool({
+      name: TOOL_LIST_CONTROL_TOOL_NAME,
+      arguments: name ? { action, name } : { action },
+    })) as CallToolResult
+
+  const toolNames = async () =>
+    (await bench.client.listTools()).tools.map((tool) => tool.name)
+
+  beforeEach(async () => {
+    bench = await connectBench()
+    listChanged = 0
+    bench.client.setNotificationHandler(
+      ToolListChangedNotificationSchema,
+      async () => {
+        listChanged++
+      }
+    )
+  })
+
+  afterEach(async () => {
+    await bench.close()
+  })
+
+  it("adds a tool that can be listed and called at once", async () => {
+    const added = await control("add")
+    expect(added.structuredContent?.tool).toMatchObject({
+      name: "dynamic-tool-1",
+      state: "enabled",
+    })
+
+    const called = (await bench.client.callTool({
+      name: "dynamic-tool-1",
+      arguments: {},
+    })) as CallToolResult
+    expect(called.isError).toBeFalsy()
+    expect(called.content[0]).toMatchObject({
+      text: "dynamic-tool-1 was called.",
+    })
+
+    expect(await toolNames()).toContain("dynamic-tool-1")
+    await vi.waitFor(() => expect(listChanged).toBe(1))
+  })
+
+  it("sends list_changed for every change and hides disabled or removed tools", async () => {
+    await control("add")
+    await control("disable", "dynamic-tool-1")
+    expect(await toolNames()).not.toContain("dynamic-tool-1")
+
+    const disabled = (await bench.client.callTool({
+      name: "dynamic-tool-1",
+      arguments: {},
+    })) as CallToolResult
+    expect(disabled.isError).toBe(true)
+
+    await control("enable", "dynamic-tool-1")
+    expect(await toolNames()).toContain("dynamic-tool-1")
+
+    const removed = await control("remove", "dynamic-tool-1")
+    expect(removed.structuredContent?.tool).toMatchObject({ state: "removed" })
+    expect(await toolNames()).not.toContain("dynamic-tool-1")
+
+    await vi.waitFor(() => expect(listChanged).toBe(4))
+  })
+
+  it("counts the tools/list requests made before each change", async () => {
+    await bench.client.listTools()
+    await control("add")
+    await bench.client.listTools()
+    await bench.client.listTools()
+
+    const status = await control("status")
+    expect(status.structuredContent).toMatchObject({
+      action: "status",
+      tool: null,
+      changes: [{ action: "add", listRequestsBefore: 1 }],
+      listRequestCount: 3,
+      listRequests: [
+        expect.any(String),
+        expect.any(String),
+        expect.any(String),
+      ],
+    })
+  })
+
+  it("keeps counting tools/list requests past the times it keeps", async () => {
+    for (let i = 0; i < 105; i++) {
+      await bench.client.listTools()
+    }
+
+    const status = await control("status")
+    const { listRequestCount, listRequests } = status.structuredContent as {
+      listRequestCount: number
+      listRequests: string[]
+    }
+    expect(listRequestCount).toBe(105)
+    expect(listRequests).toHaveLength(100)
+  })
+
+  it("forgets removed tools and keeps only recent changes", async () => {
+    for (let i = 1; i <= 60; i++) {
+      await control("add")
+      await control("remove", `dynamic-tool-${i}`)
+    }
+
+    const status = await control("status")
+    const { tools, changes } = status.structuredContent as {
+      tools: unknown[]
+      changes: { action: string; name: string }[]
+    }
+    expect(tools).toEqual([])
+    expect(changes).toHaveLength(100)
+    expect(changes.at(-1)).toEqual(
+      expect.objectContaining({ action: "remove", name: "dynamic-tool-60" })
+    )
+
+    const again = await control("enable", "dynamic-tool-60")
+    expect(again.isError).toBe(true)
+  })
+
+  it("fails with isError for a tool that doesn't exist", async () => {
+    const result = await control("disable", "dynamic-tool-7")
+
+    expect(result.isError).toBe(true)
+    expect(result.content[0]).toMatchObject({
+      text: expect.stringContaining("dynamic-tool-7"),
+    })
+    expect(listChanged).toBe(0)
+  })
+})
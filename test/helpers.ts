@@ -0,0 +1,108 @@
+import { Client } from "@modelcontextprotocol/sdk/client/index.js"
+import { InMemoryTransport } from "@modelcontextprotocol/sdk/inMemory.js"
+import type { ClientCapabilities } from "@modelcontextprotocol/sdk/types.js"
+import { initMcpAppServer } from "../src/mcp-app-server.js"
+import {
+  DEFAULT_CLIENT_CAPABILITIES,
+  createReferenceHost,
+  type MountedApp,
+  type ReferenceHostMessage,
+  type ReferenceHostOptions,
+} from "../src/reference-host/reference-host.js"
+import type { ClientCapabilitiesWithMcpApps } from "../src/types/mcp-apps.js"
+import { REPORT_RESULT_TOOL_NAME } from "../src/utils/constants.js"
+import { recordLocalSession } from "../src/utils/session-activity.js"
+
+/**
+ * Connects an in-memory client to a fresh bench server. The client advertises
+ * MCP Apps unless other capabilities are given.
+ */
+export async function connectBench(
+  capabilities: ClientCapabilitiesWithMcpApps = DEFAULT_CLIENT_CAPABILITIES
+) {
+  const server = initMcpAppServer()
+  const [clientTransport, serverTransport] =
+    InMemoryTransport.createLinkedPair()
+  recordLocalSession(serverTransport)
+  const client = new Client(
+    { name: "mcp-app-bench-tests", version: "0.0.0" },
+    { capabilities: capabilities as ClientCapabilities }
+  )
+
+  await server.connect(serverTransport)
+  await client.connect(clientTransport)
+
+  return {
+    client,
+    async close() {
+      await client.close()
+      await server.close()
+    },
+  }
+}
+
+/**
+ * Connects a reference host to a fresh bench server
+ */
+export async function connectHost(
+  options: Omit<ReferenceHostOptions, "client"> = {},
+  capabilities: ClientCapabilitiesWithMcpApps = DEFAULT_CLIENT_CAPABILITIES
+) {
+  const bench = await connectBench(capabilities)
+  return {
+    ...bench,
+    host: createReferenceHost({ client: bench.client, ...options }),
+  }
+}
+
+/**
+ * Matches the app → host `tools/call` an inspector makes to report results
+ */
+export function isReportCall(inspector: string) {
+  return (entry: ReferenceHostMessage) => {
+    const message = entry.message as {
+      method?: string
+      params?: { name?: string; arguments?: { inspector?: string } }
+    }
+    return (
+      entry.direction === "app→host" &&
+      message.method === "tools/call" &&
+      message.params?.name === REPORT_RESULT_TOOL_NAME &&
+      message.params.arguments?.inspector === inspector
+    )
+  }
+}
+
+/**
+ * Returns the `result` an inspector submitted in a report call
+ */
+export function getReportedResult(entry: ReferenceHostMessage) {
+  const message = entry.message as {
+    params: { arguments: { result: Record<string, unknown> } }
+  }
+  return message.params.arguments.result
+}
+
+export function isMethod(method: string) {
+  return (entry: ReferenceHostMessage) =>
+    (entry.message as { method?: string }).method === method
+}
+
+/**
+ * Waits until the server has answered an inspector's report call and returns
+ * the submitted result
+ */
+export async function waitForReport(
+  app: MountedApp,
+  inspector: string,
+  timeoutMs?: number
+) {
+  const call = await app.waitForMessage(isReportCall(inspector), timeoutMs)
+  const { id } = call.message as { id: string | number }
+  await app.waitForMessage(
+    (entry) =>
+      entry.direction === "host→app" &&
+      (entry.message as { id?: unknown }).id === id
+  )
+  return getReportedResult(call)
+}
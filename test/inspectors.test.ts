@@ -0,0 +1,882 @@
+import { afterEach, describe, expect, it, vi } from "vitest"
+import { INSPECTORS } from "../src/inspectors.js"
+import {
+  DEFAULT_HOST_CAPABILITIES,
+  type MountToolOptions,
+  type MountedApp,
+  type ReferenceHostOptions,
+} from "../src/reference-host/reference-host.js"
+import { ToolListChangedNotificationSchema } from "@modelcontextprotocol/sdk/types.js"
+import type { HostContext } from "../src/types/mcp-apps.js"
+import { UI_METHODS } from "../src/types/mcp-apps.js"
+import { buildConformanceReport } from "../src/utils/conformance-report.js"
+import { getReportId } from "../src/utils/result-store.js"
+import {
+  APP_DOMAIN,
+  BASE_URL,
+  MCP_APPS_EXTENSION_ID,
+  MCP_APPS_MIME_TYPE,
+  PAYLOAD_HTML_PADDING_BYTES,
+} from "../src/utils/constants.js"
+import {
+  connectHost,
+  getReportedResult,
+  isMethod,
+  isReportCall,
+  waitForReport,
+} from "./helpers.js"
+
+type ShellWindow = MountedApp["window"] & {
+  MCPAppShell?: {
+    isReady(): boolean
+    getProtocolViolations(): { method: string; path: string }[]
+  }
+}
+
+let cleanup: (() => Promise<void>) | null = null
+
+afterEach(async () => {
+  await cleanup?.()
+  cleanup = null
+})
+
+async function mount(
+  name: string,
+  hostInfo: { name: string; version: string },
+  hostOptions: Omit<ReferenceHostOptions, "client" | "hostInfo"> = {},
+  mountOptions?: MountToolOptions
+) {
+  const bench = await connectHost({ ...hostOptions, hostInfo })
+  const app = await bench.host.mountTool(name, mountOptions)
+  cleanup = async () => {
+    await app.teardown()
+    await bench.close()
+  }
+  return app
+}
+
+async function waitForReady(app: MountedApp, timeoutMs = 5000) {
+  const window = app.window as ShellWindow
+  const deadline = Date.now() + timeoutMs
+  while (!window.MCPAppShell?.isReady()) {
+    if (Date.now() > deadline) {
+      throw new Error(`${app.uri} did not reach its ready state`)
+    }
+    await new Promise((resolve) => setTimeout(resolve, 20))
+  }
+}
+
+describe.each(INSPECTORS.map((inspector) => [inspector.name, inspector]))(
+  "%s",
+  (name, inspector) => {
+    it("completes the ui/initialize handshake", async () => {
+      const app = await mount(name, { name: `handshake-${name}`, version: "1" })
+      await app.initialized
+
+      const request = await app.waitForMessage(isMethod(UI_METHODS.INITIALIZE))
+      expect(request.direction).toBe("app→host")
+      expect(request.message).toMatchObject({
+        jsonrpc: "2.0",
+        id: expect.anything(),
+        params: { appInfo: { name: expect.any(String) } },
+      })
+    })
+
+    // The transparency app runs without the shell, so it has no ready state
+    // to wait for; "inspect-transparency" below covers it instead
+    it.skipIf(inspector.appName === "transparency")(
+      "reaches its ready state after the tool result",
+      async () => {
+        const app = await mount(name, { name: `ready-${name}`, version: "1" })
+        await app.initialized
+        await waitForReady(app)
+
+        const content = app.window.document.getElementById("app-content")
+        expect(content?.classList.contains("is-ready")).toBe(true)
+
+        const window = app.window as ShellWindow
+        expect(window.MCPAppShell?.getProtocolViolations()).toEqual([])
+      }
+    )
+  }
+)
+
+describe("inspect-transparency", () => {
+  it("runs its checks once the host has answered ui/initialize", async () => {
+    const app = await mount("inspect-transparency", {
+      name: "transparency-in-memory",
+      version: "1",
+    })
+    await app.waitForMessage(isMethod(UI_METHODS.INITIALIZED))
+
+    const document = app.window.document
+    await vi.waitFor(() =>
+      expect(
+        document.getElementById("theme-alignment-result")?.textContent
+      ).toMatch(/Host theme: (light|dark)/)
+    )
+    expect(
+      document.getElementById("transparency-result")?.className
+    ).not.toContain("unknown")
+  })
+})
+
+describe("inspect-csp", () => {
+  it("calls failed probes unreachable, not blocked, without evidence", async () => {
+    const app = await mount("inspect-csp", {
+      name: "csp-unreachable",
+      version: "1",
+    })
+
+    // Nothing serves the probe origins in memory, so every network probe fails
+    const result = (await waitForReport(app, "inspect-csp", 20_000)) as {
+      reachable: { allowed: boolean; disallowed: boolean }
+      directives: {
+        probe: string
+        disallowed: { outcome: string }
+        verdict: string
+      }[]
+      summary: { enforced: number }
+    }
+
+    expect(result.reachable).toEqual({ allowed: false, disallowed: false })
+    expect(result.summary.enforced).toBe(0)
+    for (const entry of result.directives) {
+      expect(entry.disallowed.outcome, entry.probe).not.toBe("blocked")
+      if (entry.probe !== "base") {
+        expect(entry.verdict, entry.probe).toBe("inconclusive")
+      }
+    }
+  })
+})
+
+describe("inspect-host-info", () => {
+  it("reports a complete grade for the reference host context", async () => {
+    const hostInfo = { name: "host-info-complete", version: "1" }
+    const app = await mount("inspect-host-info", hostInfo)
+
+    const result = (await waitForReport(app, "inspect-host-info", 20_000)) as {
+      grade: string
+      summary: {
+        requiredMissing: number
+        invalidCount: number
+        capabilityMismatchCount: number
+      }
+      tests: { status: string }[]
+      unexpected: { path: string }[]
+      capabilityChecks: { check: string; status: string }[]
+    }
+
+    expect(result.grade).toBe("A")
+    expect(result.summary.requiredMissing).toBe(0)
+    expect(result.summary.invalidCount).toBe(0)
+    expect(result.tests.every((test) => test.status !== "pending")).toBe(true)
+    expect(result.unexpected).toEqual([])
+    expect(result.summary.capabilityMismatchCount).toBe(0)
+    expect(result.capabilityChecks).toContainEqual(
+      expect.objectContaining({ check: "capability key", status: "ok" })
+    )
+  })
+
+  it("warns when the client advertises MCP Apps under experimental", async () => {
+    const bench = await connectHost(
+      { hostInfo: { name: "host-info-wire", version: "1" } },
+      {
+        experimental: {
+          [MCP_APPS_EXTENSION_ID]: { mimeTypes: [MCP_APPS_MIME_TYPE] },
+        },
+      }
+    )
+    const app = await bench.host.mountTool("inspect-host-info")
+    cleanup = async () => {
+      await app.teardown()
+      await bench.close()
+    }
+
+    const report = await app.waitForMessage(
+      (entry) =>
+        isReportCall("inspect-host-info")(entry) &&
+        (getReportedResult(entry).capabilityChecks as unknown[]).length > 0,
+      20_000
+    )
+    const result = getReportedResult(report) as {
+      summary: { capabilityMismatchCount: number }
+      capabilityChecks: { check: string; wire: unknown; status: string }[]
+    }
+
+    expect(result.summary.capabilityMismatchCount).toBe(0)
+    expect(result.capabilityChecks).toEqual(
+      expect.arrayContaining([
+        expect.objectContaining({ check: "MCP Apps support", status: "ok" }),
+        expect.objectContaining({
+          check: "capability key",
+          wire: "experimental",
+          status: "warn",
+        }),
+      ])
+    )
+  })
+
+  it("flags properties outside the spec's HostContext", async () => {
+    const hostContext = { vendorExtension: true } as HostContext
+    const app = await mount(
+      "inspect-host-info",
+      { name: "host-info-unexpected", version: "1" },
+      { hostContext }
+    )
+
+    const result = (await waitForReport(app, "inspect-host-info", 20_000)) as {
+      unexpected: { path: string }[]
+    }
+
+    expect(result.unexpected).toContainEqual(
+      expect.objectContaining({ path: "hostContext.vendorExtension" })
+    )
+  })
+})
+
+describe("inspect-display-modes", () => {
+  it("reports honoured and refused display mode requests", async () => {
+    const app = await mount(
+      "inspect-display-modes",
+      { name: "display-modes", version: "1" },
+      { hostContext: { availableDisplayModes: ["inline", "fullscreen"] } }
+    )
+    await waitForReady(app)
+
+    const document = app.window.document
+    document.getElementById("btn-mode-fullscreen")?.click()
+    await waitForReport(app, "inspect-display-modes")
+    document.getElementById("btn-mode-pip")?.click()
+
+    const report = await app.waitForMessage(
+      (entry) =>
+        isReportCall("inspect-display-modes")(entry) &&
+        (getReportedResult(entry).requests as unknown[]).length === 2
+    )
+    const result = getReportedResult(report)
+
+    expect(result.currentMode).toBe("fullscreen")
+    expect(result.requests).toMatchObject([
+      { requested: "fullscreen", actual: "fullscreen" },
+      { requested: "pip", actual: "fullscreen" },
+    ])
+    expect(app.hostContext.displayMode).toBe("fullscreen")
+  })
+})
+
+describe("inspect-visibility", () => {
+  it("reports a successful app-only tool call through the host", async () => {
+    const app = await mount("inspect-visibility", {
+      name: "visibility",
+      version: "1",
+    })
+    await waitForReady(app)
+
+    app.window.document.getElementById("call-app-only-btn")?.click()
+    const result = await waitForReport(app, "inspect-visibility")
+
+    expect(result).toMatchObject({
+      appOnlyCall: { tool: "visibility-app-only", ok: true, isError: false },
+    })
+  })
+
+  it("refuses app calls to tools hidden from apps", async () => {
+    const app = await mount("inspect-visibility", {
+      name: "visibility-model-only",
+      version: "1",
+    })
+    await waitForReady(app)
+    const shell = (app.window as ShellWindow).MCPAppShell as unknown as {
+      sendRequest(method: string, params: unknown): Promise<unknown>
+    }
+
+    await expect(
+      shell.sendRequest("tools/call", {
+        name: "visibility-model-only",
+        arguments: {},
+      })
+    ).rejects.toMatchObject({
+      code: -32602,
+      message: expect.stringContaining("visibility-model-only"),
+    })
+    await expect(
+      shell.sendRequest("tools/call", {
+        name: "visibility-both",
+        arguments: {},
+      })
+    ).resolves.toMatchObject({
+      structuredContent: { visibility: ["model", "app"] },
+    })
+  })
+})
+
+describe("inspect-sandbox-proxy", () => {
+  it("is fully approved by the reference host's default sandbox", async () => {
+    const app = await mount("inspect-sandbox-proxy", {
+      name: "sandbox-proxy-default",
+      version: "1",
+    })
+
+    const result = (await waitForReport(app, "inspect-sandbox-proxy")) as {
+      csp: { checks: { approved: boolean | null }[] }
+      permissions: { checks: { approved: boolean | null }[] }
+    }
+
+    expect(result.csp.checks.length).toBeGreaterThan(0)
+    expect(
+      [...result.csp.checks, ...result.permissions.checks].every(
+        (check) => check.approved === true
+      )
+    ).toBe(true)
+  })
+
+  it("compares the declared sandbox with what the host approved", async () => {
+    const app = await mount(
+      "inspect-sandbox-proxy",
+      { name: "sandbox-proxy", version: "1" },
+      {
+        hostCapabilities: {
+          ...DEFAULT_HOST_CAPABILITIES,
+          sandbox: {
+            csp: { connectDomains: [BASE_URL] },
+            permissions: {},
+          },
+        },
+      }
+    )
+
+    const result = (await waitForReport(app, "inspect-sandbox-proxy")) as {
+      topology: { proxied: boolean }
+      handshake: { leakedToApp: unknown[] }
+      csp: {
+        checks: {
+          directive: string
+          domain: string
+          approved: boolean | null
+          delivered: boolean | null
+        }[]
+      }
+      permissions: {
+        checks: { permission: string; approved: boolean | null }[]
+      }
+    }
+
+    // The reference host renders apps directly, without a proxy or meta CSP
+    expect(result.topology.proxied).toBe(false)
+    expect(result.handshake.leakedToApp).toEqual([])
+    expect(result.csp.checks).toContainEqual({
+      field: "connectDomains",
+      directive: "connect-src",
+      domain: BASE_URL,
+      approved: true,
+      delivered: null,
+    })
+    expect(result.csp.checks).toContainEqual(
+      expect.objectContaining({
+        directive: "font-src",
+        domain: "https://fonts.gstatic.com",
+        approved: false,
+      })
+    )
+    expect(result.permissions.checks).toEqual([
+      expect.objectContaining({
+        permission: "clipboardWrite",
+        approved: false,
+      }),
+    ])
+  })
+})
+
+describe("inspect-permissions", () => {
+  type PermissionsResult = {
+    summary: { matched: number; mismatched: number; unknown: number }
+    permissions: { permission: string; verdict: string }[]
+  }
+
+  const verdicts = (result: PermissionsResult) =>
+    Object.fromEntries(
+      result.permissions.map((entry) => [entry.permission, entry.verdict])
+    )
+
+  it("matches the declaration when the host delegates exactly what was declared", async () => {
+    const app = await mount("inspect-permissions-camera", {
+      name: "permissions-default",
+      version: "1",
+    })
+
+    const result = (await waitForReport(
+      app,
+      "inspect-permissions-camera"
+    )) as PermissionsResult
+
+    expect(result.summary).toEqual({ matched: 4, mismatched: 0, unknown: 0 })
+    expect(verdicts(result)).toEqual({
+      camera: "granted",
+      microphone: "withheld",
+      geolocation: "withheld",
+      clipboardWrite: "withheld",
+    })
+  })
+
+  it("flags dropped and silently granted permissions", async () => {
+    const app = await mount(
+      "inspect-permissions-geolocation",
+      { name: "permissions-mismatch", version: "1" },
+      {
+        hostCapabilities: {
+          ...DEFAULT_HOST_CAPABILITIES,
+          sandbox: { permissions: { camera: {}, clipboardWrite: {} } },
+        },
+      }
+    )
+
+    const result = (await waitForReport(
+      app,
+      "inspect-permissions-geolocation"
+    )) as PermissionsResult
+
+    expect(result.summary).toEqual({ matched: 1, mismatched: 3, unknown: 0 })
+    expect(verdicts(result)).toEqual({
+      camera: "silently granted",
+      microphone: "withheld",
+      geolocation: "dropped",
+      clipboardWrite: "silently granted",
+    })
+  })
+})
+
+describe("inspect-dedicated-origin", () => {
+  type DedicatedOriginResult = {
+    origin: string
+    hostnameMatch: boolean | null
+    domainHonoured: boolean | null
+    storage: { visits: number; persisted: boolean | null }
+    peers: { name: string; verdict: string }[]
+  }
+
+  async function connectOriginHost(
+    resolveAppOrigin?: (domain: string | undefined) => string
+  ) {
+    const bench = await connectHost({
+      hostInfo: { name: "dedicated-origin", version: "1" },
+      resolveAppOrigin,
+    })
+    const mounted: MountedApp[] = []
+    cleanup = async () => {
+      for (const app of mounted) await app.teardown()
+      await bench.close()
+    }
+
+    return async (name: string) => {
+      const app = await bench.host.mountTool(name)
+      mounted.push(app)
+      return (await waitForReport(app, name)) as DedicatedOriginResult
+    }
+  }
+
+  const peerVerdict = (result: DedicatedOriginResult, name: string) =>
+    result.peers.find((peer) => peer.name === name)?.verdict
+
+  it("serves declared domains from one persistent origin, isolated from the default", async () => {
+    const run = await connectOriginHost()
+
+    const first = await run("inspect-dedicated-origin")
+    expect(first.origin).toBe(`https://${APP_DOMAIN}`)
+    expect(first.hostnameMatch).toBe(true)
+    expect(first.domainHonoured).toBeNull()
+    expect(first.storage).toMatchObject({ visits: 1, persisted: null })
+
+    const second = await run("inspect-dedicated-origin")
+    expect(second.origin).toBe(first.origin)
+    expect(second.domainHonoured).toBe(true)
+    expect(second.storage).toMatchObject({ visits: 2, persisted: true })
+
+    const peer = await run("inspect-dedicated-origin-peer")
+    expect(peer.origin).toBe(first.origin)
+    expect(peerVerdict(peer, "inspect-dedicated-origin")).toBe("shared")
+
+    const fallback = await run("inspect-dedicated-origin-default")
+    expect(fallback.origin).toBe(BASE_URL)
+    expect(fallback.domainHonoured).toBeNull()
+    expect(peerVerdict(fallback, "inspect-dedicated-origin")).toBe("isolated")
+    expect(peerVerdict(fallback, "inspect-dedicated-origin-peer")).toBe(
+      "isolated"
+    )
+  })
+
+  it("honours a domain mapped onto the host's own sandbox hostname", async () => {
+    const run = await connectOriginHost((domain) =>
+      domain ? "https://a1b2c3.sandbox.example" : BASE_URL
+    )
+
+    await run("inspect-dedicated-origin-default")
+    const first = await run("inspect-dedicated-origin")
+    const peer = await run("inspect-dedicated-origin-peer")
+
+    expect(first.hostnameMatch).toBe(false)
+    expect(peer.origin).toBe(first.origin)
+    expect(peer.domainHonoured).toBe(true)
+  })
+
+  it("flags a host that serves declared domains from the default origin", async () => {
+    const run = await connectOriginHost(() => BASE_URL)
+
+    await run("inspect-dedicated-origin-default")
+    const declared = await run("inspect-dedicated-origin")
+    expect(declared.domainHonoured).toBe(false)
+    expect(peerVerdict(declared, "inspect-dedicated-origin-default")).toBe(
+      "not isolated"
+    )
+
+    const fallback = await run("inspect-dedicated-origin-default")
+    expect(fallback.domainHonoured).toBe(false)
+  })
+})
+
+describe("host message validation", () => {
+  // tool-result without content, and with a non-boolean isError
+  const malformedToolResult = { isError: "yes", structuredContent: {} }
+
+  it("flags spec violations inline in the message log", async () => {
+    const app = await mount(
+      "inspect-messaging",
+      { name: "malformed-messaging", version: "1" },
+      {},
+      { withholdResult: true }
+    )
+    await app.initialized
+    app.sendNotification(
+      UI_METHODS.NOTIFICATIONS.TOOL_RESULT,
+      malformedToolResult
+    )
+    await waitForReady(app)
+
+    const window = app.window as ShellWindow
+    expect(window.MCPAppShell?.getProtocolViolations()).toMatchObject([
+      { method: UI_METHODS.NOTIFICATIONS.TOOL_RESULT, path: "params.content" },
+      { method: UI_METHODS.NOTIFICATIONS.TOOL_RESULT, path: "params.isError" },
+    ])
+
+    const flagged = [
+      ...window.document.querySelectorAll(".message-violation"),
+    ].map((element) => element.textContent)
+    expect(flagged).toHaveLength(2)
+    expect(flagged[1]).toContain("Expected boolean, got string")
+  })
+
+  it("counts violations in the host info scorecard", async () => {
+    const app = await mount(
+      "inspect-host-info",
+      { name: "malformed-host-info", version: "1" },
+      {},
+      { withholdResult: true }
+    )
+    await app.initialized
+    app.sendNotification(
+      UI_METHODS.NOTIFICATIONS.TOOL_RESULT,
+      malformedToolResult
+    )
+
+    const result = (await waitForReport(app, "inspect-host-info", 20_000)) as {
+      summary: { protocolViolationCount: number }
+      protocolViolations: unknown[]
+    }
+
+    expect(result.summary.protocolViolationCount).toBe(2)
+    expect(result.protocolViolations).toHaveLength(2)
+    expect(
+      app.window.document.querySelector(".test-count.is-invalid")?.textContent
+    ).toContain("2 protocol violations")
+  })
+})
+
+describe("conformance report", () => {
+  it("collects reported results per host", async () => {
+    const hostInfo = { name: "report-host", version: "2.0.0" }
+    const app = await mount("inspect-host-info", hostInfo)
+    await waitForReport(app, "inspect-host-info", 20_000)
+
+    const run = buildConformanceReport(getReportId("local"))?.runs.find(
+      (item) => item.host.name === hostInfo.name
+    )
+
+    expect(run?.host).toMatchObject(hostInfo)
+    expect(run?.hostContext?.grade).toBe("A")
+  })
+})
+
+describe("inspect-resumability", () => {
+  it("reports both streams as not testable without an event store", async () => {
+    const app = await mount("inspect-resumability", {
+      name: "resumability-in-memory",
+      version: "1",
+    })
+
+    const result = (await waitForReport(app, "inspect-resumability")) as {
+      eventStore: string | null
+      request: { verdict: string; dropped: boolean }
+      standalone: { verdict: string; dropped: boolean }
+      summary: { resumed: number; failed: number; notTestable: number }
+    }
+
+    expect(result.eventStore).toBeNull()
+    expect(result.request).toMatchObject({
+      verdict: "not testable",
+      dropped: false,
+    })
+    expect(result.standalone).toMatchObject({
+      verdict: "not testable",
+      dropped: false,
+    })
+    expect(result.summary).toEqual({ resumed: 0, failed: 0, notTestable: 2 })
+  })
+})
+
+describe("inspect-logging", () => {
+  it("logs at every level and reports what the server sent", async () => {
+    const app = await mount("inspect-logging", {
+      name: "logging-in-memory",
+      version: "1",
+    })
+
+    const result = (await waitForReport(app, "inspect-logging")) as {
+      clientLevel: string | null
+      sent: string[]
+      suppressed: string[]
+      levels: { level: string; status: string; shown: boolean | null }[]
+      lowestShown: string | null
+    }
+
+    expect(result.clientLevel).toBeNull()
+    expect(result.sent).toHaveLength(8)
+    expect(result.suppressed).toEqual([])
+    expect(result.levels[0]).toEqual({
+      level: "debug",
+      status: "sent",
+      shown: null,
+    })
+    expect(result.lowestShown).toBeNull()
+  })
+})
+
+describe("long-running-task", () => {
+  it("shows the server's progress in the Tool Data timeline", async () => {
+    const app = await mount(
+      "long-running-task",
+      { name: "long-running-task-in-memory", version: "1" },
+      {},
+      { arguments: { durationMs: 30, steps: 3 } }
+    )
+    await waitForReady(app)
+
+    const timeline = app.window.document.getElementById("timeline-content")
+    const events = [...timeline!.querySelectorAll(".host-data-key-segment")]
+      .map((element) => element.textContent)
+      .filter((event) => event !== "progress")
+    expect(events).toEqual(["started", "finished", "tool-input", "tool-result"])
+    expect(timeline!.textContent).toContain("3/3 (not sent, no progress token)")
+  })
+})
+
+describe("inspect-tool-errors", () => {
+  type ToolErrorsResult = {
+    rendering: { tool: string | null; isError: boolean | null }
+    cases: { id: string; verdict: string; isError: boolean | null }[]
+    summary: Record<string, number>
+  }
+
+  it("reports every failing tool's isError result as forwarded", async () => {
+    const app = await mount("inspect-tool-errors", {
+      name: "tool-errors-in-memory",
+      version: "1",
+    })
+
+    const result = (await waitForReport(
+      app,
+      "inspect-tool-errors"
+    )) as ToolErrorsResult
+
+    expect(result.rendering).toMatchObject({
+      tool: "inspect-tool-errors",
+      isError: false,
+    })
+    expect(result.cases.map((entry) => [entry.id, entry.verdict])).toEqual([
+      ["is-error", "forwarded"],
+      ["thrown", "forwarded"],
+      ["invalid-output", "forwarded"],
+      ["invalid-input", "forwarded"],
+    ])
+    expect(result.summary).toEqual({
+      forwarded: 4,
+      rejected: 0,
+      dropped: 0,
+      noResponse: 0,
+    })
+  })
+
+  it("shows the isError result it was rendered with", async () => {
+    const app = await mount("tool-error-thrown", {
+      name: "tool-errors-rendered-by-failure",
+      version: "1",
+    })
+
+    const result = (await waitForReport(
+      app,
+      "inspect-tool-errors"
+    )) as ToolErrorsResult
+
+    expect(result.rendering).toMatchObject({
+      tool: "tool-error-thrown",
+      isError: true,
+    })
+    expect(result.cases).toHaveLength(4)
+  })
+})
+
+describe("inspect-payload-size", () => {
+  type Limit = {
+    largestAccepted: number
+    smallestRejected: number | null
+    limitFound: boolean
+    rejection: string | null
+  }
+  type PayloadSizeResult = {
+    html: { declaredBytes: number; receivedBytes: number; intact: boolean }
+    limits: Record<"toolResult" | "toolCall" | "modelContext", Limit> | null
+  }
+
+  it("binary-searches the limit of each channel", async () => {
+    const app = await mount(
+      "inspect-payload-size",
+      { name: "payload-size-in-memory", version: "1" },
+      {
+        onAppRequest: (method, params) => {
+          const { content } = params as { content?: { text: string }[] }
+          if (
+            method === UI_METHODS.UPDATE_MODEL_CONTEXT &&
+            (content?.[0]?.text.length ?? 0) > 16 * 1024
+          ) {
+            throw new Error("Model context too large")
+          }
+          return {}
+        },
+      },
+      { arguments: { maxBytes: 64 * 1024 } }
+    )
+
+    const { limits } = (await waitForReport(
+      app,
+      "inspect-payload-size",
+      15000
+    )) as PayloadSizeResult
+
+    expect(limits?.toolResult).toMatchObject({
+      largestAccepted: 64 * 1024,
+      limitFound: false,
+    })
+    expect(limits?.toolCall).toMatchObject({
+      largestAccepted: 64 * 1024,
+      limitFound: false,
+    })
+    expect(limits?.modelContext).toMatchObject({
+      largestAccepted: 16 * 1024,
+      smallestRejected: 20 * 1024,
+      limitFound: true,
+      rejection: "Model context too large",
+    })
+  })
+
+  it("receives the whole padded HTML in the large variant", async () => {
+    const app = await mount("inspect-payload-size-large-html", {
+      name: "payload-size-large-html",
+      version: "1",
+    })
+
+    const { html, limits } = (await waitForReport(
+      app,
+      "inspect-payload-size-large-html"
+    )) as PayloadSizeResult
+
+    expect(html.declaredBytes).toBe(PAYLOAD_HTML_PADDING_BYTES)
+    expect(html).toMatchObject({
+      receivedBytes: PAYLOAD_HTML_PADDING_BYTES,
+      intact: true,
+    })
+    expect(limits).toBeNull()
+  })
+})
+
+describe("inspect-tool-list", () => {
+  type ToolListResult = {
+    steps: {
+      action: string
+      refreshed: boolean
+      callable: boolean
+      callAsExpected: boolean
+    }[]
+    summary: {
+      refreshed: number
+      cached: number
+      newToolCallable: boolean
+      unexpectedCalls: number
+    }
+  }
+
+  it("reports a host that caches tools/list as never refreshing", async () => {
+    const bench = await connectHost({
+      hostInfo: { name: "tool-list-cached", version: "1" },
+    })
+    // Ignoring list_changed keeps the reference host's tool list cached
+    bench.client.setNotificationHandler(
+      ToolListChangedNotificationSchema,
+      async () => {}
+    )
+    const app = await bench.host.mountTool("inspect-tool-list", {
+      arguments: { refreshWaitMs: 300 },
+    })
+    cleanup = async () => {
+      await app.teardown()
+      await bench.close()
+    }
+
+    const result = (await waitForReport(
+      app,
+      "inspect-tool-list",
+      10000
+    )) as ToolListResult
+
+    expect(
+      result.steps.map((step) => [step.action, step.refreshed, step.callable])
+    ).toEqual([
+      ["add", false, true],
+      ["disable", false, false],
+      ["enable", false, true],
+      ["remove", false, false],
+    ])
+    expect(result.summary).toMatchObject({
+      refreshed: 0,
+      cached: 4,
+      newToolCallable: true,
+      unexpectedCalls: 0,
+    })
+  })
+
+  it("sees the tools/list a host sends after list_changed", async () => {
+    const app = await mount(
+      "inspect-tool-list",
+      { name: "tool-list-refreshing", version: "1" },
+      {},
+      { arguments: { refreshWaitMs: 2000 } }
+    )
+
+    const result = (await waitForReport(
+      app,
+      "inspect-tool-list",
+      15000
+    )) as ToolListResult
+
+    expect(result.steps.every((step) => step.refreshed)).toBe(true)
+    expect(result.summary).toMatchObject({ refreshed: 4, cached: 0 })
+  })
+})
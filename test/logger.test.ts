@@ -0,0 +1,149 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest"
+import {
+  configureLogger,
+  logClientMessage,
+  logServerMessage,
+  logSessionClosed,
+  logSessionReused,
+  redactLogValue,
+  type LoggerOptions,
+} from "../src/utils/logger.js"
+
+const DEFAULTS: LoggerOptions = {
+  format: "json",
+  level: "debug",
+  methods: [],
+  ignoreMethods: [],
+  redactFields: ["authorization"],
+  maxTextLength: 100,
+  maxStringLength: 200,
+}
+
+let output: string[]
+
+beforeEach(() => {
+  output = []
+  vi.spyOn(console, "log").mockImplementation((text) => {
+    output.push(String(text))
+  })
+  configureLogger(DEFAULTS)
+})
+
+afterEach(() => {
+  vi.restoreAllMocks()
+})
+
+const records = () => output.map((line) => JSON.parse(line))
+
+describe("logger", () => {
+  it("writes one JSON object per line in json mode", () => {
+    logSessionClosed("s1", 2, "/mcp", "closed after being idle")
+
+    expect(output).toHaveLength(1)
+    expect(records()[0]).toMatchObject({
+      level: "info",
+      event: "session_closed",
+      sessionId: "s1",
+      remainingSessions: 2,
+      route: "/mcp",
+      reason: "closed after being idle",
+    })
+    expect(Date.parse(records()[0].time)).not.toBeNaN()
+  })
+
+  it("draws a box in pretty mode", () => {
+    configureLogger({ format: "pretty" })
+    logSessionClosed("s1", 2)
+
+    expect(output[0]).toContain("╭")
+    expect(output.join("\n")).toContain("Session Closed")
+  })
+
+  it("drops entries below the configured level", () => {
+    configureLogger({ level: "info" })
+    logSessionReused("s1", "/mcp")
+    logSessionClosed("s1", 0)
+
+    expect(records().map((record) => record.event)).toEqual(["session_closed"])
+  })
+
+  it("filters messages by method, logging responses under their request's method", () => {
+    configureLogger({ methods: ["tools/*"], ignoreMethods: ["tools/list"] })
+
+    logClientMessage("s2", { jsonrpc: "2.0", id: 1, method: "tools/call" })
+    logClientMessage("s2", { jsonrpc: "2.0", id: 2, method: "tools/list" })
+    logClientMessage("s2", { jsonrpc: "2.0", id: 3, method: "ping" })
+    logServerMessage("s2", { jsonrpc: "2.0", id: 3, result: {} })
+    logServerMessage("s2", { jsonrpc: "2.0", id: 1, result: {} })
+
+    expect(records().map((record) => [record.event, record.method])).toEqual([
+      ["client_message", "tools/call"],
+      ["server_message", "tools/call"],
+    ])
+  })
+
+  it("pairs the initialize response, which has a session ID its request lacked", () => {
+    configureLogger({ methods: ["initialize"] })
+
+    logClientMessage(undefined, { jsonrpc: "2.0", id: 0, method: "initialize" })
+    logServerMessage("s3", { jsonrpc: "2.0", id: 0, result: {} })
+
+    expect(records().map((record) => record.sessionId)).toEqual([null, "s3"])
+  })
+
+  it("redacts configured fields and large resource bodies", () => {
+    const html = "<html>".repeat(50)
+    logServerMessage("s4", {
+      jsonrpc: "2.0",
+      id: 5,
+      result: {
+        contents: [{ uri: "ui://app", text: html }],
+        _meta: { Authorization: "Bearer secret", note: "short text" },
+      },
+    })
+
+    const [record] = records()
+    expect(record.payload.result.contents[0].text).toBe(
+      "[redacted: 300 characters]"
+    )
+    expect(record.payload.result._meta).toEqual({
+      Authorization: "[redacted]",
+      note: "short text",
+    })
+    expect(output[0]).not.toContain("secret")
+  })
+
+  it("cuts long strings under any key, like payload-size bulk", () => {
+    const padding = "0123456789".repeat(100)
+    logClientMessage("s5", {
+      jsonrpc: "2.0",
+      id: 6,
+      method: "tools/call",
+      params: { name: "payload-size", arguments: { bytes: 0, padding } },
+    })
+    logServerMessage("s5", {
+      jsonrpc: "2.0",
+      id: 6,
+      result: { structuredContent: { payload: padding, bytes: 1000 } },
+    })
+
+    const [call, result] = records()
+    expect(call.payload.params.arguments.padding).toBe(
+      `${padding.slice(0, 200)}… [truncated: 1000 characters]`
+    )
+    expect(result.payload.result.structuredContent).toEqual({
+      payload: `${padding.slice(0, 200)}… [truncated: 1000 characters]`,
+      bytes: 1000,
+    })
+    expect(output.join("\n").length).toBeLessThan(1000)
+  })
+
+  it("leaves the logged object untouched", () => {
+    const value = { authorization: "secret", nested: [{ text: "x" }] }
+    expect(redactLogValue(value)).toEqual({
+      authorization: "[redacted]",
+      nested: [{ text: "x" }],
+    })
+    expect(value.authorization).toBe("secret")
+  })
+})
@@ -0,0 +1,98 @@
+import { afterEach, beforeEach, describe, expect, it } from "vitest"
+import type { Progress } from "@modelcontextprotocol/sdk/types.js"
+import {
+  LONG_RUNNING_TASK_STATUS_TOOL_NAME,
+  LONG_RUNNING_TASK_TOOL_NAME,
+} from "../src/utils/constants.js"
+import type { TaskRun } from "../src/utils/long-running-task.js"
+import { connectBench } from "./helpers.js"
+
+let bench: Awaited<ReturnType<typeof connectBench>>
+
+beforeEach(async () => {
+  bench = await connectBench()
+})
+
+afterEach(async () => {
+  await bench.close()
+})
+
+async function getStatus(runId?: string) {
+  const result = await bench.client.callTool({
+    name: LONG_RUNNING_TASK_STATUS_TOOL_NAME,
+    arguments: runId ? { runId } : {},
+  })
+  return result.structuredContent as { found: boolean; run: TaskRun | null }
+}
+
+describe("long-running task", () => {
+  it("sends progress against the request's token and completes", async () => {
+    const progress: Progress[] = []
+    const result = await bench.client.callTool(
+      {
+        name: LONG_RUNNING_TASK_TOOL_NAME,
+        arguments: { durationMs: 60, steps: 3, runId: "run-1" },
+      },
+      undefined,
+      { onprogress: (update) => progress.push(update) }
+    )
+
+    expect(progress.map((update) => [update.progress, update.total])).toEqual([
+      [1, 3],
+      [2, 3],
+      [3, 3],
+    ])
+    expect(result.structuredContent).toMatchObject({
+      runId: "run-1",
+      status: "completed",
+      progressToken: expect.anything(),
+      progressSent: 3,
+      cancelledAt: null,
+    })
+  })
+
+  it("counts steps without sending progress when there is no token", async () => {
+    const result = await bench.client.callTool({
+      name: LONG_RUNNING_TASK_TOOL_NAME,
+      arguments: { durationMs: 20, steps: 2 },
+    })
+
+    const run = result.structuredContent as unknown as TaskRun
+    expect(run.progressToken).toBeNull()
+    expect(run.progress).toHaveLength(2)
+    expect(run.progressSent).toBe(0)
+    expect((await getStatus()).run?.runId).toBe(run.runId)
+  })
+
+  it("stops when the request is cancelled and records when", async () => {
+    const controller = new AbortController()
+    const call = bench.client.callTool(
+      {
+        name: LONG_RUNNING_TASK_TOOL_NAME,
+        arguments: { durationMs: 5000, steps: 5, runId: "run-2" },
+      },
+      undefined,
+      { signal: controller.signal }
+    )
+    await new Promise((resolve) => setTimeout(resolve, 50))
+    controller.abort("Stopped by the user")
+
+    await expect(call).rejects.toThrow()
+    await new Promise((resolve) => setTimeout(resolve, 50))
+
+    const { found, run } = await getStatus("run-2")
+    expect(found).toBe(true)
+    expect(run).toMatchObject({
+      status: "cancelled",
+      cancelReason: "Stopped by the user",
+      progress: [],
+    })
+    expect(Date.parse(run!.cancelledAt!)).toBeLessThanOrEqual(
+      Date.parse(run!.finishedAt!)
+    )
+  })
+
+  it("reports a missing run", async () => {
+    expect(await getStatus("unknown")).toEqual({ found: false, run: null })
+  })
+})
@@ -0,0 +1,134 @@
+import express from "express"
+import type { AddressInfo } from "net"
+import { Client } from "@modelcontextprotocol/sdk/client/index.js"
+import { StreamableHTTPClientTransport } from "@modelcontextprotocol/sdk/client/streamableHttp.js"
+import { StreamableHTTPServerTransport } from "@modelcontextprotocol/sdk/server/streamableHttp.js"
+import { afterAll, beforeAll, describe, expect, it } from "vitest"
+import { initMcpAppServer } from "../src/mcp-app-server.js"
+import {
+  PAYLOAD_HTML_PADDING_BYTES,
+  PAYLOAD_SIZE_TOOL_NAME,
+} from "../src/utils/constants.js"
+import {
+  createMcpBodyParser,
+  generatePayload,
+  isIntactPayload,
+  padAppHtml,
+} from "../src/utils/payload.js"
+import { connectBench } from "./helpers.js"
+
+describe("payloads", () => {
+  it("generates payloads of exactly the requested size", () => {
+    for (const bytes of [0, 1, 64, 65, 100000]) {
+      expect(generatePayload(bytes)).toHaveLength(bytes)
+    }
+    expect(isIntactPayload(generatePayload(1000), 1000)).toBe(true)
+    expect(isIntactPayload(generatePayload(1000).slice(1), 999)).toBe(false)
+  })
+
+  it("pads HTML inside an inert element before </body>", () => {
+    const html = padAppHtml("<html><body><p>app</p></body></html>", 10)
+    expect(html).toBe(
+      '<html><body><p>app</p><template id="html-padding">0123456789</template>\n</body></html>'
+    )
+  })
+})
+
+describe("payload-size tool", () => {
+  let bench: Awaited<ReturnType<typeof connectBench>>
+
+  beforeAll(async () => {
+    bench = await connectBench()
+  })
+
+  afterAll(async () => {
+    await bench.close()
+  })
+
+  it("returns text and structuredContent of the requested size", async () => {
+    const result = await bench.client.callTool({
+      name: PAYLOAD_SIZE_TOOL_NAME,
+      arguments: { bytes: 300000 },
+    })
+
+    expect(result.content).toEqual([
+      { type: "text", text: generatePayload(300000) },
+    ])
+    expect(result.structuredContent).toEqual({
+      bytes: 300000,
+      payload: generatePayload(300000),
+      receivedBytes: null,
+      receivedIntact: null,
+    })
+  })
+
+  it("reports the size of the padding it was sent", async () => {
+    const result = await bench.client.callTool({
+      name: PAYLOAD_SIZE_TOOL_NAME,
+      arguments: { bytes: 0, padding: generatePayload(5000) },
+    })
+
+    expect(result.structuredContent).toMatchObject({
+      receivedBytes: 5000,
+      receivedIntact: true,
+    })
+  })
+
+  it("serves the large HTML variant with its padding", async () => {
+    const { contents } = await bench.client.readResource({
+      uri: "ui://inspect-payload-size-large-html",
+    })
+    const html = "text" in contents[0] ? contents[0].text : ""
+
+    expect(html.length).toBeGreaterThan(PAYLOAD_HTML_PADDING_BYTES)
+    expect(html).toContain('<template id="html-padding">')
+  })
+})
+
+describe("payload-size over Streamable HTTP", () => {
+  let client: Client
+  let close: () => Promise<void>
+
+  beforeAll(async () => {
+    const transport = new StreamableHTTPServerTransport({
+      sessionIdGenerator: () => "payload-session",
+    })
+    await initMcpAppServer().connect(transport)
+
+    // The same parser as /mcp, ahead of the transport
+    const app = express()
+    app.use("/mcp", createMcpBodyParser())
+    app.all("/mcp", (req, res) => {
+      void transport.handleRequest(req, res, req.body)
+    })
+    const server = app.listen(0)
+    await new Promise((resolve) => server.once("listening", resolve))
+    const { port } = server.address() as AddressInfo
+
+    client = new Client({ name: "payload-tests", version: "0.0.0" })
+    await client.connect(
+      new StreamableHTTPClientTransport(new URL(`http://localhost:${port}/mcp`))
+    )
+    close = async () => {
+      await client.close()
+      server.closeAllConnections()
+      await new Promise((resolve) => server.close(resolve))
+    }
+  })
+
+  afterAll(() => close())
+
+  // Well past express.json()'s default 100 kB limit
+  it("accepts app → server calls larger than 100 kB", async () => {
+    const result = await client.callTool({
+      name: PAYLOAD_SIZE_TOOL_NAME,
+      arguments: { bytes: 0, padding: generatePayload(1024 * 1024) },
+    })
+
+    expect(result.isError).toBeFalsy()
+    expect(result.structuredContent).toMatchObject({
+      receivedBytes: 1024 * 1024,
+      receivedIntact: true,
+    })
+  })
+})
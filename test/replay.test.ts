@@ -0,0 +1,178 @@
+import { mkdtemp, readFile, rm } from "fs/promises"
+import { tmpdir } from "os"
+import { join } from "path"
+import { afterEach, beforeEach, describe, expect, it } from "vitest"
+import { Client } from "@modelcontextprotocol/sdk/client/index.js"
+import { InMemoryTransport } from "@modelcontextprotocol/sdk/inMemory.js"
+import type {
+  ClientCapabilities,
+  JSONRPCMessage,
+} from "@modelcontextprotocol/sdk/types.js"
+import { initMcpAppServer } from "../src/mcp-app-server.js"
+import { DEFAULT_CLIENT_CAPABILITIES } from "../src/reference-host/reference-host.js"
+import {
+  DEFAULT_IGNORED_KEYS,
+  createNormalizer,
+  normalizeForComparison,
+  renderReplayReport,
+  replaySession,
+} from "../src/replay/replay.js"
+import {
+  createSessionRecorder,
+  getServerHosts,
+  parseSessionRecording,
+  type SessionRecording,
+} from "../src/utils/session-recording.js"
+
+const SESSION_ID = "11111111-2222-4333-8444-555555555555"
+
+function connectFreshServer() {
+  const server = initMcpAppServer()
+  const [clientTransport, serverTransport] =
+    InMemoryTransport.createLinkedPair()
+  serverTransport.sessionId = SESSION_ID
+  return { server, clientTransport, serverTransport }
+}
+
+// Records a short session the way the HTTP transport hooks would see it
+async function recordSession(): Promise<SessionRecording> {
+  const { server, clientTransport, serverTransport } = connectFreshServer()
+  const messages: SessionRecording["messages"] = []
+  const record = (direction: "client" | "server", message: JSONRPCMessage) =>
+    messages.push({
+      type: "message",
+      direction,
+      time: new Date().toISOString(),
+      message,
+    })
+
+  const send = clientTransport.send.bind(clientTransport)
+  clientTransport.send = async (message, options) => {
+    record("client", message)
+    return send(message, options)
+  }
+  // Chained by the client when it connects
+  clientTransport.onmessage = (message) => record("server", message)
+
+  await server.connect(serverTransport)
+  const client = new Client(
+    { name: "recorded-host", version: "1.0.0" },
+    { capabilities: DEFAULT_CLIENT_CAPABILITIES as ClientCapabilities }
+  )
+  await client.connect(clientTransport)
+  await client.listTools()
+  await client.callTool({ name: "inspect-host-info", arguments: {} })
+  await client.readResource({ uri: "ui://inspect-host-info" })
+  await client.close()
+
+  return {
+    sessionId: SESSION_ID,
+    startedAt: new Date().toISOString(),
+    hosts: getServerHosts(),
+    messages,
+  }
+}
+
+describe("session recorder", () => {
+  let directory: string
+
+  beforeEach(async () => {
+    directory = await mkdtemp(join(tmpdir(), "mcp-app-bench-recordings-"))
+  })
+
+  afterEach(async () => {
+    await rm(directory, { recursive: true, force: true })
+  })
+
+  it("writes a header and one line per message, in order", async () => {
+    const path = join(directory, "nested", `${SESSION_ID}.ndjson`)
+    const recorder = createSessionRecorder(path, SESSION_ID)
+    recorder.record("client", { jsonrpc: "2.0", id: 1, method: "ping" })
+    recorder.record("server", { jsonrpc: "2.0", id: 1, result: {} })
+    await recorder.flush()
+
+    const text = await readFile(path, "utf-8")
+    expect(text.trim().split("\n")).toHaveLength(3)
+
+    const recording = parseSessionRecording(text)
+    expect(recording.sessionId).toBe(SESSION_ID)
+    expect(recording.hosts).toEqual(getServerHosts())
+    expect(
+      recording.messages.map(({ direction, message }) => [direction, message])
+    ).toEqual([
+      ["client", { jsonrpc: "2.0", id: 1, method: "ping" }],
+      ["server", { jsonrpc: "2.0", id: 1, result: {} }],
+    ])
+  })
+
+  it("rejects files without a header", () => {
+    expect(() =>
+      parseSessionRecording('{"type":"message","direction":"client"}\n')
+    ).toThrow("header line is missing")
+  })
+})
+
+describe("replaySession", () => {
+  it("matches every response when the server behaves the same", async () => {
+    const recording = await recordSession()
+    const { server, clientTransport, serverTransport } = connectFreshServer()
+    await server.connect(serverTransport)
+
+    const report = await replaySession(recording, clientTransport)
+
+    expect(report.summary).toEqual({ match: 4, differs: 0, missing: 0 })
+    expect(report.requests.map((request) => request.method)).toEqual([
+      "initialize",
+      "tools/list",
+      "tools/call",
+      "resources/read",
+    ])
+  })
+
+  it("reports the paths of responses that differ", async () => {
+    const recording = await recordSession()
+    const toolsList = recording.messages.find(
+      ({ direction, message }) =>
+        direction === "server" && "id" in message && message.id === 1
+    )!.message as { result: { tools: { description: string }[] } }
+    toolsList.result.tools[0].description = "An older description"
+
+    const { server, clientTransport, serverTransport } = connectFreshServer()
+    await server.connect(serverTransport)
+    const report = await replaySession(recording, clientTransport)
+
+    expect(report.summary).toEqual({ match: 3, differs: 1, missing: 0 })
+    const [difference] = report.requests[1].differences
+    expect(difference).toMatchObject({
+      path: "result.tools[0].description",
+      expected: "An older description",
+    })
+    expect(renderReplayReport(report)).toContain(
+      "#1 tools/list: differs\n  result.tools[0].description"
+    )
+  })
+})
+
+describe("normalizeForComparison", () => {
+  it("replaces per-run values and matches hosts by role", () => {
+    const normalizer = createNormalizer(
+      DEFAULT_IGNORED_KEYS,
+      { server: "bench.example.com" },
+      { server: "localhost:6789" }
+    )
+
+    expect(
+      normalizeForComparison(
+        {
+          reportedAt: "2026-01-01T00:00:00.000Z",
+          text: `<link href="https://bench.example.com/shell/shell.css?v=0123456789abcdef">`,
+          url: `http://localhost:6789/reports/${SESSION_ID}.html`,
+        },
+        normalizer
+      )
+    ).toEqual({
+      text: `<link href="https://<server-host>/shell/shell.css?v=<hash>">`,
+      url: "http://<server-host>/reports/<uuid>.html",
+    })
+  })
+})
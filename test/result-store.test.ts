@@ -0,0 +1,220 @@
+import express from "express"
+import type { AddressInfo } from "net"
+import {
+  afterAll,
+  afterEach,
+  beforeAll,
+  describe,
+  expect,
+  it,
+  vi,
+} from "vitest"
+import {
+  RESULT_MAX_BYTES,
+  RESULT_MAX_INSPECTORS_PER_RUN,
+  RESULT_MAX_RUNS,
+  RESULT_MAX_RUNS_PER_SESSION,
+  RESULT_TTL_MS,
+} from "../src/utils/constants.js"
+import {
+  createResultsRouter,
+  getReportId,
+  getRunsForSession,
+  listRuns,
+  recordInspectorResult,
+} from "../src/utils/result-store.js"
+
+const HOST = { name: "test-host", version: "1.0.0" }
+
+describe("result store", () => {
+  afterEach(() => {
+    vi.useRealTimers()
+  })
+
+  it("keeps the latest result per inspector and counts reports", () => {
+    recordInspectorResult({
+      sessionId: "record",
+      inspector: "inspect-host-info",
+      hostInfo: HOST,
+      protocolVersion: "2026-01-26",
+      result: { score: 1 },
+    })
+    const run = recordInspectorResult({
+      sessionId: "record",
+      inspector: "inspect-host-info",
+      hostInfo: HOST,
+      result: { score: 2 },
+    })
+
+    expect(run).toMatchObject({
+      key: `${getReportId("record")}::test-host@1.0.0`,
+      reportId: getReportId("record"),
+      protocolVersion: "2026-01-26",
+      results: {
+        "inspect-host-info": { result: { score: 2 }, reportCount: 2 },
+      },
+    })
+  })
+
+  it("keeps one run per host on a session", () => {
+    recordInspectorResult({
+      sessionId: "hosts",
+      inspector: "inspect-csp",
+      result: {},
+    })
+    recordInspectorResult({
+      sessionId: "hosts",
+      inspector: "inspect-csp",
+      hostInfo: HOST,
+      result: {},
+    })
+
+    expect(
+      getRunsForSession("hosts")
+        .map((run) => run.hostInfo.name)
+        .sort()
+    ).toEqual(["test-host", "unknown"])
+  })
+
+  it("refuses results over the size limit", () => {
+    expect(() =>
+      recordInspectorResult({
+        sessionId: "large",
+        inspector: "inspect-host-info",
+        result: { text: "x".repeat(RESULT_MAX_BYTES) },
+      })
+    ).toThrow(/limited to/)
+    expect(getRunsForSession("large")).toEqual([])
+  })
+
+  it("keeps only a session's most recently updated runs", () => {
+    for (let i = 0; i <= RESULT_MAX_RUNS_PER_SESSION; i++) {
+      recordInspectorResult({
+        sessionId: "many-hosts",
+        inspector: "inspect-csp",
+        hostInfo: { name: `host-${i}`, version: "1" },
+        result: {},
+      })
+    }
+
+    const names = getRunsForSession("many-hosts").map(
+      (run) => run.hostInfo.name
+    )
+    expect(names).toHaveLength(RESULT_MAX_RUNS_PER_SESSION)
+    expect(names).not.toContain("host-0")
+  })
+
+  it("refuses results from new inspectors once a run is full", () => {
+    for (let i = 0; i < RESULT_MAX_INSPECTORS_PER_RUN; i++) {
+      recordInspectorResult({
+        sessionId: "full",
+        inspector: `inspector-${i}`,
+        result: {},
+      })
+    }
+
+    expect(() =>
+      recordInspectorResult({
+        sessionId: "full",
+        inspector: "one-more",
+        result: {},
+      })
+    ).toThrow(/at most/)
+    // Existing inspectors can still report again
+    expect(
+      recordInspectorResult({
+        sessionId: "full",
+        inspector: "inspector-0",
+        result: {},
+      }).results["inspector-0"].reportCount
+    ).toBe(2)
+  })
+
+  it("drops the least recently updated runs beyond the store limit", () => {
+    for (let i = 0; i <= RESULT_MAX_RUNS; i++) {
+      recordInspectorResult({
+        sessionId: `bulk-${i}`,
+        inspector: "inspect-csp",
+        result: {},
+      })
+    }
+
+    expect(listRuns()).toHaveLength(RESULT_MAX_RUNS)
+    expect(getRunsForSession("bulk-0")).toEqual([])
+    expect(getRunsForSession(`bulk-${RESULT_MAX_RUNS}`)).toHaveLength(1)
+  })
+
+  it("expires runs after the TTL", () => {
+    vi.useFakeTimers({ toFake: ["Date"] })
+    recordInspectorResult({
+      sessionId: "expiring",
+      inspector: "inspect-csp",
+      result: {},
+    })
+    expect(getRunsForSession("expiring")).toHaveLength(1)
+
+    vi.setSystemTime(Date.now() + RESULT_TTL_MS + 1)
+    expect(getRunsForSession("expiring")).toEqual([])
+  })
+})
+
+describe("/results routes", () => {
+  let baseUrl: string
+  let close: () => void
+
+  beforeAll(async () => {
+    const app = express()
+    app.use("/results", createResultsRouter())
+    const server = app.listen(0)
+    await new Promise((resolve) => server.once("listening", resolve))
+    baseUrl = `http://localhost:${(server.address() as AddressInfo).port}`
+    close = () => server.close()
+
+    recordInspectorResult({
+      sessionId: "routes",
+      inspector: "inspect-host-info",
+      hostInfo: HOST,
+      result: { ok: true },
+    })
+  })
+
+  afterAll(() => close())
+
+  it("lists every run under its report ID, without session IDs", async () => {
+    const response = await fetch(`${baseUrl}/results`)
+    const body = await response.json()
+
+    expect(response.status).toBe(200)
+    expect(
+      (body as { runs: { reportId: string }[] }).runs.map((run) => run.reportId)
+    ).toContain(getReportId("routes"))
+    expect(JSON.stringify(body)).not.toContain('"sessionId"')
+    expect(JSON.stringify(body)).not.toContain("routes::")
+  })
+
+  it("returns the runs of one session by its report ID", async () => {
+    const response = await fetch(`${baseUrl}/results/${getReportId("routes")}`)
+
+    expect(response.status).toBe(200)
+    expect(await response.json()).toMatchObject({
+      runs: [
+        {
+          reportId: getReportId("routes"),
+          hostInfo: HOST,
+          results: { "inspect-host-info": { result: { ok: true } } },
+        },
+      ],
+    })
+  })
+
+  it("404s for a report ID without results, and for session IDs", async () => {
+    for (const id of ["nobody", "routes"]) {
+      const response = await fetch(`${baseUrl}/results/${id}`)
+
+      expect(response.status).toBe(404)
+      expect(await response.json()).toMatchObject({
+        error: { message: "No results reported under this report ID" },
+      })
+    }
+  })
+})
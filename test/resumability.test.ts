@@ -0,0 +1,245 @@
+import http from "http"
+import type { AddressInfo } from "net"
+import { mkdtemp, readFile, rm } from "fs/promises"
+import { tmpdir } from "os"
+import { join } from "path"
+import { Client } from "@modelcontextprotocol/sdk/client/index.js"
+import { StreamableHTTPClientTransport } from "@modelcontextprotocol/sdk/client/streamableHttp.js"
+import {
+  StreamableHTTPServerTransport,
+  type EventStore,
+} from "@modelcontextprotocol/sdk/server/streamableHttp.js"
+import {
+  LoggingMessageNotificationSchema,
+  type JSONRPCMessage,
+} from "@modelcontextprotocol/sdk/types.js"
+import { afterAll, beforeAll, describe, expect, it } from "vitest"
+import { initMcpAppServer } from "../src/mcp-app-server.js"
+import {
+  RESUMABILITY_PROBE_TOOL_NAME,
+  RESUMABILITY_STATUS_TOOL_NAME,
+} from "../src/utils/constants.js"
+import {
+  createDeferredEventStore,
+  createEventStore,
+  createFileEventStore,
+  createMemoryEventStore,
+  deleteEventStore,
+} from "../src/utils/event-store.js"
+
+let directory: string
+
+beforeAll(async () => {
+  directory = await mkdtemp(join(tmpdir(), "mcp-app-bench-events-"))
+})
+
+afterAll(async () => {
+  await rm(directory, { recursive: true, force: true })
+})
+
+const notification = (sequence: number): JSONRPCMessage => ({
+  jsonrpc: "2.0",
+  method: "notifications/message",
+  params: { level: "info", data: { sequence } },
+})
+
+async function replayAfter(store: EventStore, lastEventId: string) {
+  const sent: string[] = []
+  const streamId = await store.replayEventsAfter(lastEventId, {
+    send: async (eventId) => {
+      sent.push(eventId)
+    },
+  })
+  return { streamId, sent }
+}
+
+describe.each([
+  ["memory", () => createMemoryEventStore()],
+  ["file", () => createFileEventStore(join(directory, "session.ndjson"))],
+])("%s event store", (_kind, createStore) => {
+  it("replays a stream's events after the last one the host saw", async () => {
+    const store = createStore()
+    const primed = await store.storeEvent("stream-a", {} as JSONRPCMessage)
+    const first = await store.storeEvent("stream-a", notification(1))
+    await store.storeEvent("stream-b", notification(2))
+    const third = await store.storeEvent("stream-a", notification(3))
+
+    // The empty priming event only provides an ID and is never replayed
+    expect(await replayAfter(store, primed)).toEqual({
+      streamId: "stream-a",
+      sent: [first, third],
+    })
+    expect(await store.getStreamIdForEventId!(third)).toBe("stream-a")
+    expect(store.getReplays()).toMatchObject([
+      { streamId: "stream-a", lastEventId: primed, messages: [{}, {}] },
+    ])
+
+    await store.clear()
+    expect(await replayAfter(store, primed)).toEqual({
+      streamId: "stream-a",
+      sent: [],
+    })
+  })
+})
+
+describe("file event store", () => {
+  it("appends one NDJSON line per event", async () => {
+    const path = join(directory, "lines.ndjson")
+    const store = createFileEventStore(path)
+    await store.storeEvent("stream-a", notification(1))
+    await store.storeEvent("stream-a", notification(2))
+
+    const lines = (await readFile(path, "utf-8")).trim().split("\n")
+    expect(lines.map((line) => JSON.parse(line).id)).toEqual([
+      "stream-a/1",
+      "stream-a/2",
+    ])
+  })
+
+  it("trims the file to the newest events as it grows", async () => {
+    const path = join(directory, "trimmed.ndjson")
+    const store = createFileEventStore(path)
+    const ids: string[] = []
+    for (let i = 1; i <= 2000; i++) {
+      ids.push(await store.storeEvent("stream-a", notification(i)))
+    }
+
+    const lines = (await readFile(path, "utf-8")).trim().split("\n")
+    expect(lines).toHaveLength(1000)
+    expect(JSON.parse(lines[0]).id).toBe("stream-a/1001")
+
+    const { sent } = await replayAfter(store, ids[1997])
+    expect(sent).toEqual(ids.slice(1998))
+  })
+})
+
+describe("deferred event store", () => {
+  it("keeps events only once the session's store exists", async () => {
+    const sessionId = "deferred-session"
+    const store = createDeferredEventStore(sessionId)
+    const early = await store.storeEvent("stream-a", notification(1))
+    expect(await replayAfter(store, early)).toEqual({
+      streamId: "stream-a",
+      sent: [],
+    })
+
+    createEventStore(sessionId)
+    const primed = await store.storeEvent("stream-a", notification(2))
+    const next = await store.storeEvent("stream-a", notification(3))
+    expect(await replayAfter(store, primed)).toEqual({
+      streamId: "stream-a",
+      sent: [next],
+    })
+
+    await deleteEventStore(sessionId)
+  })
+})
+
+describe("resumable Streamable HTTP sessions", () => {
+  const sessionId = "resumable-session"
+  let httpServer: http.Server
+  let client: Client
+  const received: { runId: string; sequence: number }[] = []
+
+  beforeAll(async () => {
+    const transport = new StreamableHTTPServerTransport({
+      sessionIdGenerator: () => sessionId,
+      eventStore: createEventStore(sessionId),
+      retryInterval: 100,
+    })
+    await initMcpAppServer().connect(transport)
+
+    httpServer = http.createServer((req, res) => {
+      void transport.handleRequest(req, res)
+    })
+    await new Promise<void>((resolve) => httpServer.listen(0, resolve))
+    const { port } = httpServer.address() as AddressInfo
+
+    client = new Client({ name: "resumability-tests", version: "0.0.0" })
+    client.setNotificationHandler(
+      LoggingMessageNotificationSchema,
+      (message) => {
+        received.push(message.params.data as (typeof received)[number])
+      }
+    )
+    await client.connect(
+      new StreamableHTTPClientTransport(new URL(`http://localhost:${port}/mcp`))
+    )
+  })
+
+  afterAll(async () => {
+    await client.close()
+    await deleteEventStore(sessionId)
+    httpServer.closeAllConnections()
+    await new Promise((resolve) => httpServer.close(resolve))
+  })
+
+  it("delivers the result after the host resumes the request stream", async () => {
+    const result = await client.callTool({
+      name: RESUMABILITY_PROBE_TOOL_NAME,
+      arguments: { runId: "request-run", stream: "request", notifications: 2 },
+    })
+
+    expect(result.structuredContent).toMatchObject({
+      eventStore: "memory",
+      closed: true,
+      resumed: true,
+      sent: 2,
+    })
+    expect(
+      received.filter((message) => message.runId === "request-run")
+    ).toHaveLength(2)
+  })
+
+  it("replays notifications sent while the GET stream was down", async () => {
+    const result = await client.callTool({
+      name: RESUMABILITY_PROBE_TOOL_NAME,
+      arguments: {
+        runId: "standalone-run",
+        stream: "standalone",
+        notifications: 3,
+      },
+    })
+    expect(result.structuredContent).toMatchObject({ closed: true, sent: 3 })
+
+    await expect
+      .poll(
+        () =>
+          received
+            .filter((message) => message.runId === "standalone-run")
+            .map((message) => message.sequence),
+        { timeout: 5000 }
+      )
+      .toEqual([0, 1, 2, 3])
+
+    const status = await client.callTool({
+      name: RESUMABILITY_STATUS_TOOL_NAME,
+      arguments: { runId: "standalone-run" },
+    })
+    expect(status.structuredContent).toMatchObject({
+      eventStore: "memory",
+      replayed: 3,
+    })
+  })
+
+  it("leaves the streams alone when the client's log level hides info", async () => {
+    await client.setLoggingLevel("warning")
+    try {
+      const result = await client.callTool({
+        name: RESUMABILITY_PROBE_TOOL_NAME,
+        arguments: {
+          runId: "silenced-run",
+          stream: "standalone",
+          notifications: 1,
+        },
+      })
+
+      expect(result.structuredContent).toMatchObject({ closed: false, sent: 0 })
+      expect(
+        received.filter((message) => message.runId === "silenced-run")
+      ).toHaveLength(0)
+    } finally {
+      await client.setLoggingLevel("debug")
+    }
+  })
+})
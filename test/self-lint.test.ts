@@ -0,0 +1,120 @@
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js"
+import { describe, expect, it } from "vitest"
+import { initMcpAppServer } from "../src/mcp-app-server.js"
+import {
+  UIResourceMetaSchema,
+  isValidCspOrigin,
+} from "../src/types/mcp-apps-schemas.js"
+import { lintServerMetadata } from "../src/utils/self-lint.js"
+
+function createBrokenServer() {
+  const server = new McpServer({ name: "broken", version: "0.0.0" })
+
+  server.registerResource(
+    "broken-app",
+    "ui://broken-app",
+    { mimeType: "text/html" },
+    async () => ({
+      contents: [
+        {
+          uri: "ui://broken-app",
+          mimeType: "text/html",
+          text: "<html></html>",
+          _meta: {
+            ui: { csp: { resourceDomains: ["https://cdn.example.com/lib/"] } },
+          },
+        },
+      ],
+    })
+  )
+
+  server.registerTool(
+    "dangling-tool",
+    { _meta: { ui: { resourceUri: "ui://missing-app" } } },
+    async () => ({ content: [] })
+  )
+
+  server.registerTool(
+    "bad-visibility-tool",
+    { _meta: { ui: { visibility: ["model", "user"] } } },
+    async () => ({ content: [] })
+  )
+
+  return server
+}
+
+describe("lintServerMetadata", () => {
+  it("accepts the bench server", async () => {
+    expect(await lintServerMetadata(initMcpAppServer())).toEqual([])
+  })
+
+  it("reports invalid metadata with the offending tool or resource", async () => {
+    const issues = await lintServerMetadata(createBrokenServer())
+
+    expect(issues).toEqual(
+      expect.arrayContaining([
+        expect.objectContaining({
+          target: "ui://broken-app",
+          path: "resources/list.mimeType",
+        }),
+        expect.objectContaining({
+          target: "ui://broken-app",
+          path: "resources/read.contents.0.mimeType",
+        }),
+        expect.objectContaining({
+          target: "ui://broken-app",
+          path: "resources/read.contents.0._meta.ui.csp.resourceDomains.0",
+        }),
+        expect.objectContaining({
+          target: "dangling-tool",
+          path: "_meta.ui.resourceUri",
+        }),
+        expect.objectContaining({
+          target: "bad-visibility-tool",
+          path: "_meta.ui.visibility.1",
+        }),
+      ])
+    )
+  })
+})
+
+describe("MCP Apps schemas", () => {
+  it.each([
+    "https://fonts.googleapis.com",
+    "http://localhost:6789",
+    "wss://realtime.example.com",
+    "https://*.cloudflare.com",
+  ])("accepts %s as a CSP origin", (origin) => {
+    expect(isValidCspOrigin(origin)).toBe(true)
+  })
+
+  it.each([
+    "fonts.googleapis.com",
+    "https://example.com/",
+    "https://example.com/path",
+    "ftp://example.com",
+    "https://",
+    "*",
+  ])("rejects %s as a CSP origin", (origin) => {
+    expect(isValidCspOrigin(origin)).toBe(false)
+  })
+
+  it("rejects unknown keys in resource metadata", () => {
+    const result = UIResourceMetaSchema.safeParse({
+      csp: { resourceDomain: ["https://example.com"] },
+    })
+
+    expect(result.success).toBe(false)
+  })
+
+  it("accepts the spec's resource metadata example", () => {
+    const result = UIResourceMetaSchema.safeParse({
+      csp: { connectDomains: ["https://api.example.com"] },
+      permissions: { camera: {} },
+      domain: "a904794854a047f6.claudemcpcontent.com",
+      prefersBorder: true,
+    })
+
+    expect(result.success).toBe(true)
+  })
+})
@@ -0,0 +1,90 @@
+import { afterEach, beforeEach, describe, expect, it } from "vitest"
+import {
+  EmptyResultSchema,
+  LoggingMessageNotificationSchema,
+  type LoggingMessageNotification,
+} from "@modelcontextprotocol/sdk/types.js"
+import { SERVER_LOG_EMIT_TOOL_NAME } from "../src/utils/constants.js"
+import { LOG_LEVELS, SERVER_LOGGER } from "../src/utils/server-logging.js"
+import { connectBench } from "./helpers.js"
+
+let bench: Awaited<ReturnType<typeof connectBench>>
+let received: LoggingMessageNotification["params"][]
+
+beforeEach(async () => {
+  bench = await connectBench()
+  received = []
+  bench.client.setNotificationHandler(
+    LoggingMessageNotificationSchema,
+    (notification) => {
+      received.push(notification.params)
+    }
+  )
+})
+
+afterEach(async () => {
+  await bench.close()
+})
+
+const emit = async (levels: readonly string[]) =>
+  (
+    await bench.client.callTool({
+      name: SERVER_LOG_EMIT_TOOL_NAME,
+      arguments: { runId: "run-1", levels },
+    })
+  ).structuredContent as {
+    clientLevel: string | null
+    setLevelRequests: { level: string }[]
+    sent: string[]
+    suppressed: string[]
+  }
+
+describe("server logging", () => {
+  it("logs at every level until the client sets one", async () => {
+    const result = await emit([...LOG_LEVELS].reverse())
+
+    expect(result).toMatchObject({
+      clientLevel: null,
+      setLevelRequests: [],
+      sent: LOG_LEVELS,
+      suppressed: [],
+    })
+    expect(received.map((params) => params.level)).toEqual(LOG_LEVELS)
+    expect(received[0]).toMatchObject({
+      logger: SERVER_LOGGER,
+      data: { runId: "run-1", level: "debug" },
+    })
+  })
+
+  it("drops levels below the one set with logging/setLevel", async () => {
+    await bench.client.setLoggingLevel("info")
+    await bench.client.setLoggingLevel("error")
+    const result = await emit(LOG_LEVELS)
+
+    expect(result.clientLevel).toBe("error")
+    expect(result.setLevelRequests.map((request) => request.level)).toEqual([
+      "info",
+      "error",
+    ])
+    expect(result.suppressed).toEqual(["debug", "info", "notice", "warning"])
+    expect(received.map((params) => params.level)).toEqual([
+      "error",
+      "critical",
+      "alert",
+      "emergency",
+    ])
+  })
+
+  it("rejects unknown levels", async () => {
+    await expect(
+      bench.client.request(
+        {
+          method: "logging/setLevel",
+          params: { level: "verbose" as "debug" },
+        },
+        EmptyResultSchema
+      )
+    ).rejects.toThrow()
+    expect((await emit(["debug"])).sent).toEqual(["debug"])
+  })
+})
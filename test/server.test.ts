@@ -0,0 +1,191 @@
+import { afterAll, beforeAll, describe, expect, it } from "vitest"
+import { INSPECTORS } from "../src/inspectors.js"
+import {
+  CSP_PROBE_HITS_TOOL_NAME,
+  LONG_RUNNING_TASK_STATUS_TOOL_NAME,
+  MCP_APPS_EXTENSION_ID,
+  MCP_APPS_MIME_TYPE,
+  REPORT_RESULT_TOOL_NAME,
+  RESUMABILITY_PROBE_TOOL_NAME,
+  RESUMABILITY_STATUS_TOOL_NAME,
+  SERVER_LOG_EMIT_TOOL_NAME,
+  TOOL_LIST_CONTROL_TOOL_NAME,
+} from "../src/utils/constants.js"
+import { connectBench } from "./helpers.js"
+
+describe("initMcpAppServer", () => {
+  let bench: Awaited<ReturnType<typeof connectBench>>
+
+  beforeAll(async () => {
+    bench = await connectBench()
+  })
+
+  afterAll(async () => {
+    await bench.close()
+  })
+
+  it("lists a tool and a ui:// resource for every inspector", async () => {
+    const { tools } = await bench.client.listTools()
+    const { resources } = await bench.client.listResources()
+
+    for (const inspector of INSPECTORS) {
+      const tool = tools.find((item) => item.name === inspector.name)
+      expect(tool, inspector.name).toBeDefined()
+      expect(tool?._meta?.ui).toMatchObject({ resourceUri: inspector.uri })
+
+      const resource = resources.find((item) => item.uri === inspector.uri)
+      expect(resource, inspector.uri).toBeDefined()
+      expect(resource?.mimeType).toBe(MCP_APPS_MIME_TYPE)
+    }
+  })
+
+  it("points every tool's resourceUri at a listed resource", async () => {
+    const { tools } = await bench.client.listTools()
+    const { resources } = await bench.client.listResources()
+    const uris = new Set(resources.map((resource) => resource.uri))
+
+    for (const tool of tools) {
+      const resourceUri = (tool._meta?.ui as { resourceUri?: string })
+        ?.resourceUri
+      if (resourceUri) {
+        expect(uris.has(resourceUri), `${tool.name} → ${resourceUri}`).toBe(
+          true
+        )
+      }
+    }
+  })
+
+  it("serves every ui:// resource as a complete MCP App", async () => {
+    const { resources } = await bench.client.listResources()
+
+    for (const resource of resources.filter((item) =>
+      item.uri.startsWith("ui://")
+    )) {
+      const { contents } = await bench.client.readResource({
+        uri: resource.uri,
+      })
+      expect(contents).toHaveLength(1)
+
+      const [content] = contents
+      expect(content.uri).toBe(resource.uri)
+      expect(content.mimeType).toBe(MCP_APPS_MIME_TYPE)
+      expect(content._meta?.ui, resource.uri).toBeTypeOf("object")
+
+      const html = "text" in content ? content.text : ""
+      expect(html).toContain("<html")
+      expect(html, `${resource.uri} has unreplaced placeholders`).not.toMatch(
+        /\{\{[A-Z_]+\}\}/
+      )
+      if (html.includes("/shell/shell.js")) {
+        expect(html, `${resource.uri} has no footer navigation`).toContain(
+          "window.MCP_APP_BENCH_INSPECTORS = "
+        )
+      }
+    }
+  })
+
+  it("renders a launcher card for every inspector that declares one", async () => {
+    const { contents } = await bench.client.readResource({
+      uri: "ui://mcp-app-bench",
+    })
+    const html = "text" in contents[0] ? contents[0].text : ""
+    const cards = [
+      ...html.matchAll(/class="launcher-card" data-tool="([^"]+)"/g),
+    ]
+
+    expect(cards.map((match) => match[1])).toEqual(
+      INSPECTORS.filter((inspector) => inspector.launcher).map(
+        (inspector) => inspector.name
+      )
+    )
+  })
+
+  it("hides the app-only bench tools from the model", async () => {
+    const { tools } = await bench.client.listTools()
+
+    for (const name of [
+      REPORT_RESULT_TOOL_NAME,
+      CSP_PROBE_HITS_TOOL_NAME,
+      RESUMABILITY_PROBE_TOOL_NAME,
+      RESUMABILITY_STATUS_TOOL_NAME,
+      SERVER_LOG_EMIT_TOOL_NAME,
+      LONG_RUNNING_TASK_STATUS_TOOL_NAME,
+      TOOL_LIST_CONTROL_TOOL_NAME,
+    ]) {
+      const tool = tools.find((item) => item.name === name)
+      expect(tool?._meta?.ui, name).toMatchObject({ visibility: ["app"] })
+    }
+  })
+
+  it("returns structured content with a timestamp from every inspector", async () => {
+    for (const inspector of INSPECTORS) {
+      const result = await bench.client.callTool({
+        name: inspector.name,
+        arguments: {},
+      })
+      expect(result.isError, inspector.name).toBeFalsy()
+      expect(result.structuredContent).toMatchObject({
+        timestamp: expect.any(String),
+      })
+    }
+  })
+})
+
+describe("text-only fallback", () => {
+  let bench: Awaited<ReturnType<typeof connectBench>>
+
+  beforeAll(async () => {
+    bench = await connectBench({})
+  })
+
+  afterAll(async () => {
+    await bench.close()
+  })
+
+  it("leaves out UI resources for clients without MCP Apps", async () => {
+    const { tools } = await bench.client.listTools()
+    const { resources } = await bench.client.listResources()
+
+    for (const inspector of INSPECTORS) {
+      const tool = tools.find((item) => item.name === inspector.name)
+      expect(tool, inspector.name).toBeDefined()
+      expect(tool?._meta?.ui, inspector.name).toBeUndefined()
+    }
+    expect(resources.filter((item) => item.uri.startsWith("ui://"))).toEqual([])
+  })
+
+  it("explains what each inspector tests in markdown", async () => {
+    for (const inspector of INSPECTORS) {
+      const result = await bench.client.callTool({
+        name: inspector.name,
+        arguments: {},
+      })
+      expect(result.isError, inspector.name).toBeFalsy()
+
+      const [content] = result.content as { type: string; text: string }[]
+      expect(content.text).toContain(`## ${inspector.title}`)
+      expect(content.text).toContain(inspector.description)
+      expect(content.text).toContain("This client can't run this inspector")
+    }
+  })
+
+  it("names the MIME types a client advertised instead", async () => {
+    const textOnly = await connectBench({
+      extensions: { [MCP_APPS_EXTENSION_ID]: { mimeTypes: ["text/html"] } },
+    })
+    try {
+      const result = await textOnly.client.callTool({
+        name: "inspect-permissions-camera",
+        arguments: {},
+      })
+      const [content] = result.content as { type: string; text: string }[]
+
+      expect(content.text).toContain(
+        `with \`text/html\`, but not \`${MCP_APPS_MIME_TYPE}\``
+      )
+      expect(content.text).toContain("- Permissions: camera")
+    } finally {
+      await textOnly.close()
+    }
+  })
+})
@@ -0,0 +1,231 @@
+import express from "express"
+import type { AddressInfo } from "net"
+import { afterEach, describe, expect, it, vi } from "vitest"
+import {
+  createSessionActivity,
+  deleteSessionActivity,
+  getSessionActivity,
+  recordClientMessage,
+  recordServerMessage,
+} from "../src/utils/session-activity.js"
+import {
+  buildAdminSession,
+  createSessionAdminRouter,
+  renderSessionHtml,
+  renderSessionListHtml,
+} from "../src/utils/session-admin.js"
+import { createSessionManager } from "../src/utils/session-manager.js"
+import { DEFAULT_CLIENT_CAPABILITIES } from "../src/reference-host/reference-host.js"
+
+const INFO = {
+  sessionId: "session-1",
+  createdAt: "2026-01-01T00:00:00.000Z",
+  lastActivityAt: "2026-01-01T00:01:00.000Z",
+  openRequests: 1,
+}
+
+function recordTraffic(sessionId: string) {
+  createSessionActivity(sessionId)
+  recordClientMessage(sessionId, {
+    jsonrpc: "2.0",
+    id: 1,
+    method: "initialize",
+    params: {
+      protocolVersion: "2025-06-18",
+      capabilities: DEFAULT_CLIENT_CAPABILITIES,
+      clientInfo: { name: "<script>host</script>", version: "1.0.0" },
+    },
+  })
+  recordServerMessage(sessionId, { jsonrpc: "2.0", id: 1, result: {} })
+  recordClientMessage(sessionId, {
+    jsonrpc: "2.0",
+    method: "notifications/initialized",
+  })
+  for (const [id, name] of [
+    [2, "inspect-host-info"],
+    [3, "inspect-host-info"],
+    [4, "report-inspector-result"],
+  ] as const) {
+    recordClientMessage(sessionId, {
+      jsonrpc: "2.0",
+      id,
+      method: "tools/call",
+      params: { name, arguments: {} },
+    })
+  }
+}
+
+describe("session activity", () => {
+  it("counts messages by method and inspector tool calls", () => {
+    recordTraffic("session-1")
+    const session = buildAdminSession(INFO, getSessionActivity("session-1"))
+
+    expect(session.clientInfo?.name).toBe("<script>host</script>")
+    expect(session.protocolVersion).toBe("2025-06-18")
+    expect(session.supportsMcpApps).toBe(true)
+    expect(session.capabilities).toEqual(DEFAULT_CLIENT_CAPABILITIES)
+    expect(session.messages.client).toEqual({
+      initialize: 1,
+      "notifications/initialized": 1,
+      "tools/call": 3,
+    })
+    expect(session.responses).toEqual({ client: 0, server: 1 })
+    expect(session.messageCount).toBe(6)
+    // App-only tools aren't inspectors
+    expect(Object.keys(session.inspectorCalls)).toEqual(["inspect-host-info"])
+    expect(session.inspectorCalls["inspect-host-info"].count).toBe(2)
+
+    deleteSessionActivity("session-1")
+  })
+
+  it("ignores messages on sessions it isn't recording", () => {
+    recordClientMessage("unknown", { jsonrpc: "2.0", method: "ping", id: 1 })
+    expect(getSessionActivity("unknown")).toBeUndefined()
+
+    const session = buildAdminSession(
+      { ...INFO, sessionId: "unknown" },
+      undefined
+    )
+    expect(session.clientInfo).toBeNull()
+    expect(session.messageCount).toBe(0)
+  })
+})
+
+describe("session admin pages", () => {
+  it("escapes client-supplied values and links each session", () => {
+    recordTraffic("session-1")
+    const session = buildAdminSession(INFO, getSessionActivity("session-1"))
+    deleteSessionActivity("session-1")
+
+    const list = renderSessionListHtml({
+      generatedAt: INFO.createdAt,
+      sessions: [session],
+    })
+    expect(list).toContain('href="/admin/sessions/session-1"')
+    expect(list).toContain('action="/admin/sessions/session-1/close"')
+    expect(list).toContain("&lt;script&gt;host&lt;/script&gt; 1.0.0")
+    expect(list).not.toContain("<script>host")
+
+    const detail = renderSessionHtml(session)
+    expect(detail).toContain("<code>tools/call</code></td><td>3")
+    expect(detail).toContain("<code>inspect-host-info</code></td><td>2")
+    expect(detail).not.toContain("<script>host")
+  })
+
+  it("says when there are no sessions", () => {
+    const html = renderSessionListHtml({
+      generatedAt: INFO.createdAt,
+      sessions: [],
+    })
+    expect(html).toContain("No active sessions.")
+  })
+})
+
+describe("session admin routes", () => {
+  const TOKEN = "admin-secret"
+  let close: (() => Promise<void>) | undefined
+
+  afterEach(async () => {
+    await close?.()
+    close = undefined
+  })
+
+  async function serve(adminToken: string | null) {
+    const sessions = createSessionManager<{ close(): Promise<void> }>({
+      idleTimeoutMs: 0,
+      maxSessions: 0,
+      sweepIntervalMs: 1000,
+    })
+    const transport = { close: vi.fn(async () => {}) }
+    sessions.add("session-1", transport)
+
+    const app = express()
+    app.use("/admin/sessions", createSessionAdminRouter(sessions, adminToken))
+    const server = app.listen(0)
+    await new Promise((resolve) => server.once("listening", resolve))
+    close = () => new Promise((resolve) => server.close(() => resolve()))
+
+    const { port } = server.address() as AddressInfo
+    const request = (path: string, init: RequestInit = {}) =>
+      fetch(`http://127.0.0.1:${port}/admin/sessions${path}`, {
+        redirect: "manual",
+        ...init,
+      })
+    return { sessions, transport, request }
+  }
+
+  const bearer = (token: string) => ({
+    headers: { Authorization: `Bearer ${token}` },
+  })
+
+  it("doesn't exist without an admin token", async () => {
+    const { request } = await serve(null)
+    expect((await request("", bearer(TOKEN))).status).toBe(404)
+    expect((await request("/session-1/close", { method: "POST" })).status).toBe(
+      404
+    )
+  })
+
+  it("requires the admin token on every route", async () => {
+    const { request, transport } = await serve(TOKEN)
+
+    const missing = await request("")
+    expect(missing.status).toBe(401)
+    expect(missing.headers.get("www-authenticate")).toMatch(/^Bearer/)
+    expect((await request("/session-1", bearer("wrong"))).status).toBe(403)
+    expect((await request("/session-1", { method: "DELETE" })).status).toBe(401)
+    expect((await request("/session-1/close", { method: "POST" })).status).toBe(
+      401
+    )
+    expect(transport.close).not.toHaveBeenCalled()
+
+    const list = await request("", bearer(TOKEN))
+    expect(list.status).toBe(200)
+    expect(await list.json()).toMatchObject({
+      sessions: [{ sessionId: "session-1" }],
+    })
+  })
+
+  it("carries a token from the URL into the page's links", async () => {
+    const { request } = await serve(TOKEN)
+    const response = await request(`?format=html&token=${TOKEN}`)
+
+    expect(response.status).toBe(200)
+    const html = await response.text()
+    expect(html).toContain(`href="/admin/sessions/session-1?token=${TOKEN}"`)
+    expect(html).toContain(
+      `action="/admin/sessions/session-1/close?token=${TOKEN}"`
+    )
+  })
+
+  it("closes sessions, and answers 404 for unknown ones", async () => {
+    const { request, sessions, transport } = await serve(TOKEN)
+
+    const unknown = await request(`/missing/close?token=${TOKEN}`, {
+      method: "POST",
+    })
+    expect(unknown.status).toBe(404)
+    expect(
+      (await request("/missing", { method: "DELETE", ...bearer(TOKEN) })).status
+    ).toBe(404)
+
+    const closed = await request(`/session-1/close?token=${TOKEN}`, {
+      method: "POST",
+    })
+    expect(closed.status).toBe(303)
+    expect(closed.headers.get("location")).toBe(
+      `/admin/sessions?token=${TOKEN}`
+    )
+    expect(transport.close).toHaveBeenCalled()
+    expect(sessions.getClosed("session-1")).toMatchObject({ reason: "admin" })
+
+    const again = await request("/session-1/close", {
+      method: "POST",
+      ...bearer(TOKEN),
+    })
+    expect(again.status).toBe(404)
+    expect((await again.json()).error.message).toContain(
+      "closed from the session admin page"
+    )
+  })
+})
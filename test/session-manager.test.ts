@@ -0,0 +1,149 @@
+import { describe, expect, it, vi } from "vitest"
+import {
+  createSessionManager,
+  describeClosedSession,
+  type SessionCloseReason,
+} from "../src/utils/session-manager.js"
+
+function setup(options: { idleTimeoutMs?: number; maxSessions?: number }) {
+  let time = Date.parse("2026-01-01T00:00:00.000Z")
+  const closed: [string, SessionCloseReason, number][] = []
+  const sessions = createSessionManager<{ close(): Promise<void> }>({
+    idleTimeoutMs: options.idleTimeoutMs ?? 0,
+    maxSessions: options.maxSessions ?? 0,
+    sweepIntervalMs: 1000,
+    onClosed: (...args) => closed.push(args),
+    now: () => time,
+  })
+  const transport = () => ({ close: vi.fn(async () => {}) })
+
+  return {
+    sessions,
+    closed,
+    transport,
+    advance(ms: number) {
+      time += ms
+    },
+  }
+}
+
+describe("createSessionManager", () => {
+  it("evicts the least recently used session beyond the limit", () => {
+    const { sessions, closed, transport } = setup({ maxSessions: 2 })
+    const first = transport()
+    sessions.add("a", first)
+    sessions.add("b", transport())
+
+    // Activity on "a" makes "b" the least recently used
+    sessions.beginRequest("a")()
+    sessions.add("c", transport())
+
+    expect(sessions.list().map((session) => session.sessionId)).toEqual([
+      "a",
+      "c",
+    ])
+    expect(closed).toEqual([["b", "evicted", 1]])
+    expect(first.close).not.toHaveBeenCalled()
+    expect(sessions.getClosed("b")).toMatchObject({ reason: "evicted" })
+  })
+
+  it("doesn't evict sessions with a request in flight", () => {
+    const { sessions, closed, transport } = setup({ maxSessions: 2 })
+    sessions.add("a", transport())
+    sessions.add("b", transport())
+
+    // "a" is the least recently used, but is answering a long request
+    const endRequest = sessions.beginRequest("a")
+    sessions.beginRequest("b")()
+    sessions.add("c", transport())
+    expect(closed).toEqual([["b", "evicted", 1]])
+
+    // With every session busy, the new one is admitted over the limit
+    const endC = sessions.beginRequest("c")
+    sessions.add("d", transport())
+    expect(sessions.size).toBe(3)
+
+    endRequest()
+    endC()
+    sessions.add("e", transport())
+    expect(closed.map(([sessionId]) => sessionId)).toEqual(["b", "a", "c"])
+    expect(sessions.list().map((session) => session.sessionId)).toEqual([
+      "d",
+      "e",
+    ])
+  })
+
+  it("still evicts and idles sessions with an open GET stream", async () => {
+    const { sessions, closed, transport, advance } = setup({
+      idleTimeoutMs: 1000,
+      maxSessions: 2,
+    })
+    sessions.add("a", transport())
+    const endStream = sessions.beginStream("a")
+    sessions.add("b", transport())
+    sessions.beginStream("b")
+
+    sessions.add("c", transport())
+    expect(closed).toEqual([["a", "evicted", 1]])
+    expect(sessions.size).toBe(2)
+    expect(sessions.list()[0]).toMatchObject({ openRequests: 0 })
+
+    advance(1000)
+    expect(await sessions.sweep()).toBe(2)
+    endStream()
+  })
+
+  it("sweeps sessions idle past the timeout, but not ones with open requests", async () => {
+    const { sessions, closed, transport, advance } = setup({
+      idleTimeoutMs: 60_000,
+    })
+    const idle = transport()
+    sessions.add("idle", idle)
+    sessions.add("streaming", transport())
+    sessions.add("recent", transport())
+
+    const finishStream = sessions.beginRequest("streaming")
+    advance(50_000)
+    sessions.beginRequest("recent")()
+    advance(10_000)
+
+    expect(await sessions.sweep()).toBe(1)
+    expect(closed).toEqual([["idle", "idle", 2]])
+    expect(idle.close).toHaveBeenCalledOnce()
+
+    // The stream's end counts as activity
+    finishStream()
+    advance(59_999)
+    expect(await sessions.sweep()).toBe(1)
+    expect(sessions.list().map((session) => session.sessionId)).toEqual([
+      "streaming",
+    ])
+  })
+
+  it("leaves closing to the transport when the client closed it", async () => {
+    const { sessions, closed, transport } = setup({})
+    const client = transport()
+    sessions.add("a", client)
+
+    await sessions.close("a", "client")
+    await sessions.close("a", "client")
+
+    expect(client.close).not.toHaveBeenCalled()
+    expect(closed).toEqual([["a", "client", 0]])
+    expect(sessions.get("a")).toBeUndefined()
+  })
+
+  it("tells clients of closed sessions to reinitialize", () => {
+    expect(
+      describeClosedSession("a", {
+        reason: "idle",
+        closedAt: "2026-01-01T00:00:00.000Z",
+      })
+    ).toBe(
+      "Session a was closed after being idle at 2026-01-01T00:00:00.000Z. Reinitialize: send a new initialize request without an Mcp-Session-Id header."
+    )
+    expect(describeClosedSession("b", undefined)).toMatch(
+      /^Session b was not found\. Reinitialize/
+    )
+  })
+})
@@ -0,0 +1,59 @@
+import { Client } from "@modelcontextprotocol/sdk/client/index.js"
+import { StdioClientTransport } from "@modelcontextprotocol/sdk/client/stdio.js"
+import type { ClientCapabilities } from "@modelcontextprotocol/sdk/types.js"
+import { afterAll, beforeAll, describe, expect, it } from "vitest"
+import { INSPECTORS } from "../src/inspectors.js"
+import { DEFAULT_CLIENT_CAPABILITIES } from "../src/reference-host/reference-host.js"
+
+describe("stdio entry point", () => {
+  let client: Client
+  const errors: Error[] = []
+
+  beforeAll(async () => {
+    const transport = new StdioClientTransport({
+      command: process.execPath,
+      args: ["--import", "tsx", "src/stdio.ts"],
+      stderr: "ignore",
+    })
+    // Anything on stdout that isn't JSON-RPC surfaces here
+    transport.onerror = (error) => errors.push(error)
+
+    client = new Client(
+      { name: "mcp-app-bench-stdio-tests", version: "0.0.0" },
+      { capabilities: DEFAULT_CLIENT_CAPABILITIES as ClientCapabilities }
+    )
+    await client.connect(transport)
+  }, 60_000)
+
+  afterAll(async () => {
+    await client.close()
+  })
+
+  it("serves every inspector over stdio with a clean stdout", async () => {
+    const { tools } = await client.listTools()
+    const { resources } = await client.listResources()
+
+    for (const inspector of INSPECTORS) {
+      expect(tools.map((tool) => tool.name)).toContain(inspector.name)
+      expect(resources.map((resource) => resource.uri)).toContain(inspector.uri)
+    }
+    expect(errors).toEqual([])
+  })
+
+  it("embeds the shell assets in every app", async () => {
+    const { contents } = await client.readResource({
+      uri: "ui://inspect-host-info",
+    })
+    const html = "text" in contents[0] ? contents[0].text : ""
+    expect(html).toContain("window.MCPAppShell")
+    expect(html).toContain(".inspector-footer {")
+
+    for (const inspector of INSPECTORS) {
+      const { contents } = await client.readResource({ uri: inspector.uri })
+      const html = "text" in contents[0] ? contents[0].text : ""
+
+      expect(html, inspector.uri).not.toContain("/shell/shell.")
+      expect(html, inspector.uri).not.toMatch(/\{\{[A-Z_]+\}\}/)
+    }
+  })
+})
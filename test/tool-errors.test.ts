@@ -0,0 +1,44 @@
+import { afterAll, beforeAll, describe, expect, it } from "vitest"
+import type { CallToolResult } from "@modelcontextprotocol/sdk/types.js"
+import { TOOL_ERROR_CASES } from "../src/utils/tool-errors.js"
+import { connectBench } from "./helpers.js"
+
+describe("tool error tools", () => {
+  let bench: Awaited<ReturnType<typeof connectBench>>
+
+  beforeAll(async () => {
+    bench = await connectBench()
+  })
+
+  afterAll(async () => {
+    await bench.close()
+  })
+
+  it.each(TOOL_ERROR_CASES.map((errorCase) => [errorCase.id, errorCase]))(
+    "%s fails with an isError result explaining why",
+    async (_id, errorCase) => {
+      const result = (await bench.client.callTool({
+        name: errorCase.tool,
+        arguments: errorCase.arguments,
+      })) as CallToolResult
+
+      expect(result.isError).toBe(true)
+      expect(result.structuredContent).toBeUndefined()
+      expect(result.content[0]).toMatchObject({
+        type: "text",
+        text: expect.stringContaining(errorCase.expectedText),
+      })
+    }
+  )
+
+  it("renders each failing tool in the tool errors inspector", async () => {
+    const { tools } = await bench.client.listTools()
+
+    for (const errorCase of TOOL_ERROR_CASES) {
+      const tool = tools.find((item) => item.name === errorCase.tool)
+      expect(tool?._meta?.ui, errorCase.tool).toEqual({
+        resourceUri: "ui://inspect-tool-errors",
+      })
+    }
+  })
+})
@@ -0,0 +1,194 @@
+import express from "express"
+import type { AddressInfo } from "net"
+import { afterAll, beforeAll, describe, expect, it } from "vitest"
+import {
+  getRecentTraffic,
+  publishTraffic,
+  subscribeTraffic,
+  type TrafficEvent,
+} from "../src/utils/traffic-bus.js"
+import { createTrafficViewerRouter } from "../src/utils/traffic-viewer.js"
+import {
+  TRAFFIC_MAX_HISTORY_BYTES,
+  TRAFFIC_MAX_STRING_LENGTH,
+} from "../src/utils/constants.js"
+import { logClientMessage, logToStderr } from "../src/utils/logger.js"
+
+describe("traffic bus", () => {
+  it("classifies messages and delivers them to subscribers", () => {
+    const received: TrafficEvent[] = []
+    const unsubscribe = subscribeTraffic((event) => received.push(event))
+
+    publishTraffic("client", "s1", {
+      jsonrpc: "2.0",
+      id: 7,
+      method: "tools/call",
+    })
+    publishTraffic("server", "s1", { jsonrpc: "2.0", id: 7, result: {} })
+    publishTraffic("server", "s1", {
+      jsonrpc: "2.0",
+      method: "notifications/message",
+    })
+    unsubscribe()
+    publishTraffic("client", "s1", { jsonrpc: "2.0", id: 8, error: {} })
+
+    expect(
+      received.map(({ direction, kind, method, id }) => ({
+        direction,
+        kind,
+        method,
+        id,
+      }))
+    ).toEqual([
+      { direction: "client", kind: "request", method: "tools/call", id: 7 },
+      { direction: "server", kind: "response", method: null, id: 7 },
+      {
+        direction: "server",
+        kind: "notification",
+        method: "notifications/message",
+        id: null,
+      },
+    ])
+    expect(getRecentTraffic().at(-1)?.kind).toBe("error")
+  })
+
+  it("publishes logged messages without truncating them", () => {
+    logToStderr()
+    const text = "x".repeat(5000)
+    logClientMessage("s2", {
+      jsonrpc: "2.0",
+      method: "notifications/initialized",
+      params: { text },
+    })
+
+    const event = getRecentTraffic().at(-1)!
+    expect(event.sessionId).toBe("s2")
+    expect(event.message).toMatchObject({ params: { text } })
+  })
+
+  it("keeps a bounded history", () => {
+    for (let i = 0; i < 250; i++) {
+      publishTraffic("client", "s3", { jsonrpc: "2.0", method: "ping", id: i })
+    }
+    const recent = getRecentTraffic()
+    expect(recent).toHaveLength(200)
+    expect(getRecentTraffic(recent[149].seq)).toHaveLength(50)
+  })
+
+  it("cuts very long strings, wherever they are in the message", () => {
+    const payload = "x".repeat(TRAFFIC_MAX_STRING_LENGTH + 1)
+    publishTraffic("server", "s5", {
+      jsonrpc: "2.0",
+      id: 1,
+      result: { structuredContent: { payload }, content: [{ text: "ok" }] },
+    })
+
+    const { message } = getRecentTraffic().at(-1)! as {
+      message: { result: { structuredContent: { payload: string } } }
+    }
+    expect(message.result.structuredContent.payload).toBe(
+      `${"x".repeat(TRAFFIC_MAX_STRING_LENGTH)}… [truncated: ${payload.length} characters]`
+    )
+    expect(message).toMatchObject({ result: { content: [{ text: "ok" }] } })
+  })
+
+  it("drops the oldest messages beyond the history size", () => {
+    const body = "y".repeat(TRAFFIC_MAX_STRING_LENGTH)
+    for (let i = 0; i < 100; i++) {
+      publishTraffic("server", "s6", {
+        jsonrpc: "2.0",
+        id: i,
+        result: { contents: [body, body, body, body] },
+      })
+    }
+
+    const recent = getRecentTraffic()
+    const bytes = recent.reduce(
+      (total, event) => total + Buffer.byteLength(JSON.stringify(event)),
+      0
+    )
+    expect(bytes).toBeLessThanOrEqual(TRAFFIC_MAX_HISTORY_BYTES)
+    expect(recent.length).toBeLessThan(100)
+    expect(recent.at(-1)).toMatchObject({ sessionId: "s6", id: 99 })
+  })
+})
+
+describe("traffic viewer", () => {
+  const TOKEN = "admin-secret"
+  let baseUrl: string
+  let close: () => void
+
+  beforeAll(async () => {
+    const app = express()
+    app.use("/traffic", createTrafficViewerRouter(TOKEN))
+    app.use("/disabled", createTrafficViewerRouter(null))
+    const server = app.listen(0)
+    await new Promise((resolve) => server.once("listening", resolve))
+    baseUrl = `http://localhost:${(server.address() as AddressInfo).port}`
+    close = () => {
+      server.closeAllConnections()
+      server.close()
+    }
+  })
+
+  afterAll(() => close())
+
+  // Reads SSE events until `count` data events have arrived
+  async function readEvents(headers: Record<string, string>, count: number) {
+    const controller = new AbortController()
+    const response = await fetch(`${baseUrl}/traffic/events`, {
+      headers: { Authorization: `Bearer ${TOKEN}`, ...headers },
+      signal: controller.signal,
+    })
+    expect(response.headers.get("content-type")).toBe("text/event-stream")
+
+    const reader = response
+      .body!.pipeThrough(new TextDecoderStream())
+      .getReader()
+    const events: TrafficEvent[] = []
+    let buffer = ""
+    while (events.length < count) {
+      const { value, done } = await reader.read()
+      if (done) break
+      buffer += value
+      const blocks = buffer.split("\n\n")
+      buffer = blocks.pop()!
+      for (const block of blocks) {
+        const data = block.split("\n").find((line) => line.startsWith("data: "))
+        if (data) events.push(JSON.parse(data.slice(6)))
+      }
+    }
+    controller.abort()
+    return events
+  }
+
+  it("streams history, then live messages, and resumes after Last-Event-ID", async () => {
+    const last = getRecentTraffic().at(-1)!
+    const live = readEvents({}, getRecentTraffic().length + 1)
+    await new Promise((resolve) => setTimeout(resolve, 100))
+    publishTraffic("client", "s4", { jsonrpc: "2.0", method: "ping", id: 1 })
+
+    const events = await live
+    expect(events.at(-2)?.seq).toBe(last.seq)
+    expect(events.at(-1)).toMatchObject({ sessionId: "s4", method: "ping" })
+
+    const resumed = await readEvents({ "Last-Event-ID": String(last.seq) }, 1)
+    expect(resumed[0]).toMatchObject({ seq: last.seq + 1, sessionId: "s4" })
+  })
+
+  it("serves the viewer page", async () => {
+    const response = await fetch(`${baseUrl}/traffic?token=${TOKEN}`)
+    expect(response.status).toBe(200)
+    expect(await response.text()).toContain(
+      'new EventSource(withToken("/traffic/events"))'
+    )
+  })
+
+  it("requires the admin token, and doesn't exist without one", async () => {
+    expect((await fetch(`${baseUrl}/traffic`)).status).toBe(401)
+    expect((await fetch(`${baseUrl}/traffic/events?token=wrong`)).status).toBe(
+      403
+    )
+    expect((await fetch(`${baseUrl}/disabled?token=${TOKEN}`)).status).toBe(404)
+  })
+})
@@ -0,0 +1,14 @@
+import { defineConfig } from "vitest/config"
+
+export default defineConfig({
+  test: {
+    include: ["test/**/*.test.ts"],
+    environment: "node",
+    // Inspectors boot in jsdom and some animate their results in
+    testTimeout: 30_000,
+    hookTimeout: 30_000,
+    pool: "forks",
+    // Vite sets BASE_URL to its public base path ("/"); the server needs an origin
+    env: { BASE_URL: "http://localhost:6789" },
+  },
+})